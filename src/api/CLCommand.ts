@@ -0,0 +1,219 @@
+import { CommandDefinition, CommandElement, CommandParameter } from "../typings";
+
+type XmlElement = {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+}
+
+export type ParsedCommand = {
+  label?: string
+  /** The command name, qualified if it was in the source */
+  name: string
+  /** Parameter values, by keyword, as they are written in the command */
+  parameters: Record<string, string>
+}
+
+/** Types whose values are quoted when they are not simple uppercase names */
+const QUOTED_TYPES = [`CHAR`, `PNAME`, `PATH`];
+const XML_ENTITIES: Record<string, string> = { lt: `<`, gt: `>`, amp: `&`, quot: `"`, apos: `'` };
+
+export namespace CLCommand {
+  /**
+   * Parses the XML returned by the QCDRCMDD API (`CMDD0100` format)
+   */
+  export function parseDefinition(xml: string): CommandDefinition {
+    const command = findChild(parseXml(xml), `Cmd`, true);
+    if (!command) {
+      throw new Error(`Invalid command definition`);
+    }
+
+    return {
+      name: command.attributes.CmdName,
+      library: (command.attributes.CmdLib || ``).replace(/^__/, `*`),
+      prompt: command.attributes.Prompt || ``,
+      parameters: command.children
+        .filter(child => child.name === `Parm` && child.attributes.Type !== `NULL`)
+        .map(parameter => ({
+          ...toElement(parameter),
+          keyword: parameter.attributes.Kwd,
+          position: parameter.attributes.PosNbr ? Number(parameter.attributes.PosNbr) : undefined,
+          constant: parameter.attributes.Constant !== undefined
+        } as CommandParameter))
+    };
+  }
+
+  /**
+   * Parses a CL command string, continuation characters included.
+   * Positional parameters are matched to their keyword when the definition is provided.
+   */
+  export function parse(command: string, definition?: CommandDefinition): ParsedCommand {
+    const tokens = splitValues(joinLines(command));
+    const label = tokens[0]?.endsWith(`:`) ? tokens.shift()!.slice(0, -1) : undefined;
+    const name = tokens.shift() || ``;
+    const positional = definition?.parameters
+      .filter(parameter => parameter.position)
+      .sort((a, b) => a.position! - b.position!) || [];
+
+    const parameters: Record<string, string> = {};
+    let position = 0;
+    for (const token of tokens) {
+      const keyword = /^([A-Za-z][A-Za-z0-9_]*)\(([\s\S]*)\)$/.exec(token);
+      if (keyword) {
+        parameters[keyword[1].toUpperCase()] = keyword[2].trim();
+      }
+      else if (positional[position]) {
+        parameters[positional[position++].keyword] = token;
+      }
+    }
+
+    return { label, name, parameters };
+  }
+
+  /**
+   * Splits a CL value on the blanks found outside of quotes and parentheses
+   */
+  export function splitValues(value: string): string[] {
+    const values: string[] = [];
+    let current = ``;
+    let quoted = false;
+    let depth = 0;
+    for (const char of value) {
+      if (char === `'`) {
+        quoted = !quoted;
+      }
+      else if (!quoted && char === `(`) {
+        depth++;
+      }
+      else if (!quoted && char === `)`) {
+        depth--;
+      }
+
+      if (!quoted && depth <= 0 && /\s/.test(char)) {
+        if (current) {
+          values.push(current);
+        }
+        current = ``;
+      }
+      else {
+        current += char;
+      }
+    }
+
+    if (current) {
+      values.push(current);
+    }
+    return values;
+  }
+
+  /**
+   * Quotes a value if CL would not take it as is
+   */
+  export function formatValue(value: string, element: CommandElement) {
+    const trimmed = value.trim();
+    if (!trimmed || !QUOTED_TYPES.includes(element.type) || /^'[\s\S]*'$/.test(trimmed) || /^[&*(]/.test(trimmed) || /^[A-Z0-9#@$_.]+$/.test(trimmed)) {
+      return trimmed;
+    }
+    return `'${trimmed.replace(/'/g, `''`)}'`;
+  }
+
+  /**
+   * Splits a command on several lines, using the `+` continuation character
+   * @param command a command on a single line
+   * @param width the maximum length of a line
+   * @param indent the blanks starting each line
+   */
+  export function wrap(command: string, width: number, indent = ``) {
+    const lines: string[] = [];
+    let line = indent;
+    for (const token of splitValues(command)) {
+      if (line.trim() && line.length + token.length + 3 > width) {
+        lines.push(`${line} +`);
+        line = `${indent}  `;
+      }
+      line += `${line.trim() ? ` ` : ``}${token}`;
+    }
+    lines.push(line);
+    return lines.join(`\n`);
+  }
+}
+
+function joinLines(command: string) {
+  return command.split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .reduce((joined, line) => {
+      if (joined.endsWith(`+`)) {
+        return joined.slice(0, -1) + line.trimStart();
+      }
+      else if (joined.endsWith(`-`)) {
+        return joined.slice(0, -1) + line;
+      }
+      else {
+        return joined ? `${joined} ${line}` : line;
+      }
+    }, ``)
+    .trim();
+}
+
+function toElement(element: XmlElement): CommandElement {
+  const values = (name: string) => findChild(element, name)?.children.map(value => value.attributes.Val).filter(Boolean) || [];
+  return {
+    type: element.attributes.Type || `CHAR`,
+    prompt: element.attributes.Prompt || ``,
+    min: Number(element.attributes.Min || 0),
+    max: Number(element.attributes.Max || 1),
+    length: element.attributes.Len,
+    default: element.attributes.Dft,
+    restricted: element.attributes.Rstd === `YES`,
+    values: [...values(`SpcVal`), ...values(`Values`)],
+    singleValues: values(`SngVal`),
+    qualifiers: element.children.filter(child => child.name === `Qual`).map(toElement),
+    elements: element.children.filter(child => child.name === `Elem`).map(toElement)
+  };
+}
+
+function findChild(element: XmlElement, name: string, deep?: boolean): XmlElement | undefined {
+  for (const child of element.children) {
+    const found = child.name === name ? child : deep ? findChild(child, name, deep) : undefined;
+    if (found) {
+      return found;
+    }
+  }
+}
+
+/**
+ * A minimal XML parser: the command definitions only use elements and attributes
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: ``, attributes: {}, children: [] };
+  const stack = [root];
+  const tags = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let tag;
+  while ((tag = tags.exec(xml))) {
+    const [, closing, name, attributes, selfClosing] = tag;
+    if (closing) {
+      stack.pop();
+    }
+    else {
+      const element: XmlElement = { name, attributes: {}, children: [] };
+      const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let match;
+      while ((match = attribute.exec(attributes))) {
+        element.attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+  return root;
+}
+
+function decodeEntities(value: string) {
+  return value.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, code: string) =>
+    code.startsWith(`#x`) ? String.fromCharCode(parseInt(code.substring(2), 16)) :
+      code.startsWith(`#`) ? String.fromCharCode(Number(code.substring(1))) :
+        XML_ENTITIES[code] ?? entity
+  );
+}
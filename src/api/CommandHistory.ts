@@ -0,0 +1,127 @@
+import { AsyncLocalStorage } from "async_hooks";
+import vscode from "vscode";
+import { ActionEnvironment, CommandData, CommandResult, RemoteCommand, SqlRow, SqlStatement } from "../typings";
+import { Tools } from "./Tools";
+import type IBMi from "./IBMi";
+
+export type HistoryApi = `sendCommand` | `sendQsh` | `runCommand` | `runSQL` | `runStatements`;
+
+export type HistoryRequest =
+  { api: `sendCommand` | `sendQsh`, data: CommandData } |
+  { api: `runCommand`, data: RemoteCommand } |
+  { api: `runSQL`, data: { statements: string, fakeBindings?: (string | number)[] } } |
+  { api: `runStatements`, data: SqlStatement[] };
+
+export interface HistoryEntry {
+  id: number
+  connection: string
+  api: HistoryApi
+  environment: ActionEnvironment | `sql`
+  command: string
+  /** The feature that made the call: the `caller` option of the API, or the one set with {@link CommandHistory.withCaller} */
+  caller?: string
+  directory?: string
+  env?: Record<string, string>
+  started: Date
+  /** In milliseconds; `undefined` while running */
+  duration?: number
+  code?: number
+  /** The size of stdout and stderr, or of the rows, in bytes */
+  outputSize?: number
+  rows?: number
+  error?: string
+  /** The calls made while running this one, like the `sendCommand` of a `runSQL` */
+  children: HistoryEntry[]
+  /** What is needed to run the entry again; not kept when it is too large */
+  request?: HistoryRequest
+}
+
+export type HistoryEntryParameters = Pick<HistoryEntry, `environment` | `command` | `caller` | `directory` | `env`> & { request: HistoryRequest };
+
+/**
+ * Keeps track of the commands and SQL statements run through {@link IBMi}, with their duration and the size of their output.
+ */
+export namespace CommandHistory {
+  const MAXIMUM_ENTRIES = 500;
+  const MAXIMUM_REQUEST_LENGTH = 10000;
+
+  const emitter = new vscode.EventEmitter<void>();
+  /** Fired when an entry is added or completed */
+  export const onDidChange = emitter.event;
+
+  const entries: HistoryEntry[] = [];
+  const running = new AsyncLocalStorage<HistoryEntry>();
+  const callers = new AsyncLocalStorage<string>();
+  let lastId = 0;
+
+  /**
+   * Runs an API call and records it. Calls made by `run` are recorded as children of this one.
+   * @param describe gets the exit code and the size of the output from the result of `run`
+   */
+  export async function record<T>(connection: IBMi, parameters: HistoryEntryParameters, run: () => Promise<T>, describe: (result: T) => Pick<HistoryEntry, `code` | `outputSize` | `rows`>): Promise<T> {
+    const { request, ...details } = parameters;
+    const parent = running.getStore();
+    const entry: HistoryEntry = {
+      id: ++lastId,
+      connection: connection.currentConnectionName,
+      api: request.api,
+      ...details,
+      caller: details.caller || parent?.caller || callers.getStore(),
+      started: new Date(),
+      children: [],
+      request: JSON.stringify(request.data).length > MAXIMUM_REQUEST_LENGTH ? undefined : request
+    };
+
+    if (parent) {
+      parent.children.push(entry);
+    }
+    else {
+      entries.push(entry);
+      entries.splice(0, entries.length - MAXIMUM_ENTRIES);
+    }
+    emitter.fire();
+
+    try {
+      const result = await running.run(entry, run);
+      Object.assign(entry, describe(result));
+      return result;
+    }
+    catch (error: any) {
+      entry.error = error instanceof vscode.CancellationError ? `Cancelled` : error.message || String(error);
+      throw error;
+    }
+    finally {
+      entry.duration = Date.now() - entry.started.getTime();
+      emitter.fire();
+    }
+  }
+
+  /**
+   * Runs a task, recording the calls it makes with `caller` when they don't give one
+   * @param caller the feature running the task, like a command or a view
+   */
+  export function withCaller<T>(caller: string, task: () => T): T {
+    return callers.run(caller, task);
+  }
+
+  /**
+   * @returns the entries, the oldest first
+   */
+  export function getEntries(): readonly HistoryEntry[] {
+    return entries;
+  }
+
+  export function clear() {
+    entries.length = 0;
+    emitter.fire();
+  }
+
+  export function describeCommand(result: CommandResult) {
+    return { code: result.code, outputSize: Buffer.byteLength(result.stdout) + Buffer.byteLength(result.stderr) };
+  }
+
+  export function describeRows(rows: (Tools.DB2Row | SqlRow)[]) {
+    const json = JSON.stringify(rows, (key, value) => typeof value === `bigint` ? String(value) : value);
+    return { code: 0, outputSize: Buffer.byteLength(json), rows: rows.length };
+  }
+}
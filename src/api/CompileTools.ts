@@ -2,7 +2,10 @@
 import path from 'path';
 import vscode, { CustomExecution, EventEmitter, Pseudoterminal, TaskGroup, TaskRevealKind, WorkspaceFolder, commands, tasks } from 'vscode';
 import { parseFSOptions } from '../filesystems/qsys/QSysFs';
-import { Action, BrowserItem, CommandResult, DeploymentMethod, RemoteCommand, StandardIO } from '../typings';
+import { Action, ActionEnvironment, BrowserItem, CommandResult, DeploymentMethod, IBMiJobLogMessage, QsysPath, RemoteCommand, StandardIO } from '../typings';
+import { CommandPrompter } from '../webviews/commandPrompter';
+import { JobsUI } from '../webviews/jobs';
+import { CommandHistory } from './CommandHistory';
 import { GlobalConfiguration } from './Configuration';
 import { CustomUI } from './CustomUI';
 import IBMi from './IBMi';
@@ -299,6 +302,7 @@ export namespace CompileTools {
 
           const viewControl = GlobalConfiguration.get<string>(`postActionView`) || "none";
           const outputBuffer: string[] = [];
+          let jobLog: IBMiJobLogMessage[] | undefined;
           let actionName = chosenAction.name;
           let hasRun = false;
 
@@ -366,10 +370,12 @@ export namespace CompileTools {
 
                       const commandResult = await runCommand(connection, {
                         title: chosenAction.name,
+                        caller: chosenAction.name,
                         environment,
                         command: chosenAction.command,
                         cwd: remoteCwd,
                         env: variables,
+                        captureJobLog: environment === `ile`
                       }, writeEmitter);
 
                       const useLocalEvfevent = 
@@ -390,6 +396,14 @@ export namespace CompileTools {
 
                         writeEmitter.fire(NEWLINE);
 
+                        if (commandResult.jobLog?.length) {
+                          jobLog = commandResult.jobLog;
+                          writeEmitter.fire(`Job log (${jobLog.length} messages, escape and diagnostic messages shown):` + NEWLINE);
+                          jobLog.filter(message => [`ESCAPE`, `DIAGNOSTIC`].includes(message.type))
+                            .forEach(message => writeEmitter.fire(`\t${message.id} (${message.severity}) ${message.text}` + NEWLINE));
+                          writeEmitter.fire(NEWLINE);
+                        }
+
                         if (useLocalEvfevent) {
                           writeEmitter.fire(`Fetching errors from .evfevent.${NEWLINE}`);
 
@@ -543,18 +557,23 @@ export namespace CompileTools {
             }
 
             const openOutputAction = "Open output"; //TODO: will be translated in the future
+            const openJobLogAction = "Open job log";
+            const uiActions = jobLog ? [openOutputAction, openJobLogAction] : [openOutputAction];
             const uiPromise = executionOK ?
-              vscode.window.showInformationMessage(`Action ${actionName} was successful.`, openOutputAction) :
-              vscode.window.showErrorMessage(`Action ${actionName} was not successful.`, openOutputAction);
+              vscode.window.showInformationMessage(`Action ${actionName} was successful.`, ...uiActions) :
+              vscode.window.showErrorMessage(`Action ${actionName} was not successful.`, ...uiActions);
 
             uiPromise.then(openOutput => {
-              if (openOutput) {
-                const now = new Date();
+              const now = new Date();
+              if (openOutput === openOutputAction) {
                 new CustomUI()
                   .addParagraph(`<pre><code>${outputBuffer.join("")}</code></pre>`)
                   .setOptions({ fullWidth: true })
                   .loadPage(`${chosenAction.name} [${now.toLocaleString()}]`);
               }
+              else if (openOutput === openJobLogAction && jobLog) {
+                JobsUI.showJobLog(`${chosenAction.name} job log [${now.toLocaleString()}]`, jobLog);
+              }
             })
           }
 
@@ -610,7 +629,7 @@ export namespace CompileTools {
         const promptedCommands = [];
         for (let command of commands) {
           if (command.startsWith(`?`)) {
-            command = await vscode.window.showInputBox({ prompt: `Run Command`, value: command.substring(1) }) || '';
+            command = await promptCommand(command.substring(1), options.environment);
           } else {
             command = await showCustomInputs(`Run Command`, command, options.title || `Command`);
           }
@@ -643,53 +662,75 @@ export namespace CompileTools {
           }
         } : {};
 
-        let commandResult;
-        switch (options.environment) {
-          case `pase`:
-            // We build environment variables for the environment to be ready
-            const paseVars: Variable = {};
+        const commandResult = await CommandHistory.record(connection, {
+          environment: options.environment || `ile`,
+          command: commands.join(`\n`),
+          caller: options.caller,
+          directory: cwd,
+          env: options.env,
+          request: { api: `runCommand`, data: { ...options, command: commandString } }
+        }, async () => {
+          let result: CommandResult;
+          switch (options.environment) {
+            case `pase`:
+              // We build environment variables for the environment to be ready
+              const paseVars: Variable = {};
+
+              // Append any variables passed into the API
+              Object.entries(variables).forEach(([key, value]) => {
+                if ((/^[A-Za-z\&]/i).test(key)) {
+                  paseVars[key.startsWith('&') ? key.substring(1) : key] = value;
+                }
+              });
+
+              result = await connection.sendCommand({
+                command: commands.join(` && `),
+                directory: cwd,
+                env: paseVars,
+                ...callbacks
+              });
+              break;
+
+            case `qsh`:
+              result = await connection.sendQsh({
+                command: [
+                  ...options.noLibList? [] : buildLiblistCommands(connection, ileSetup),
+                  ...commands,
+                ].join(` && `),
+                directory: cwd,
+                ...callbacks
+              });
+              break;
 
-            // Append any variables passed into the API
-            Object.entries(variables).forEach(([key, value]) => {
-              if ((/^[A-Za-z\&]/i).test(key)) {
-                paseVars[key.startsWith('&') ? key.substring(1) : key] = value;
-              }
-            });
-
-            commandResult = await connection.sendCommand({
-              command: commands.join(` && `),
-              directory: cwd,
-              env: paseVars,
-              ...callbacks
-            });
-            break;
-
-          case `qsh`:
-            commandResult = await connection.sendQsh({
-              command: [
-                ...options.noLibList? [] : buildLiblistCommands(connection, ileSetup),
-                ...commands,
-              ].join(` && `),
-              directory: cwd,
-              ...callbacks
-            });
-            break;
-
-          case `ile`:
-          default:
-            // escape $ and # in commands
-            commandResult = await connection.sendQsh({
-              command: [
+            case `ile`:
+            default:
+              // The job log only exists while the job runs: it is copied to a table if the commands fail.
+              // `system -i` runs the commands and the copy in the QSH job itself, instead of a new job for each of them, so the copy holds their messages.
+              const jobLogTable = options.captureJobLog ? { library: config.tempLibrary, name: Tools.makeid(8).toUpperCase() } : undefined;
+              const system = jobLogTable ? `system -i` : `system`;
+
+              // escape $ and # in commands
+              const ileCommands = [
                 ...options.noLibList? [] : buildLiblistCommands(connection, ileSetup),
                 ...commands.map(command =>
-                  `${`system "${IBMi.escapeForShell(command)}"`}`,
+                  `${`${system} "${IBMi.escapeForShell(command)}"`}`,
                 )
-              ].join(` && `),
-              directory: cwd,
-              ...callbacks
-            });
-            break;
-        }
+              ].join(` && `);
+
+              result = await connection.sendQsh({
+                command: jobLogTable ? `${ileCommands}; RC=$?; if [ $RC -ne 0 ]; then ${buildJobLogCopyCommand(connection, jobLogTable)} > /dev/null 2>&1; fi; exit $RC` : ileCommands,
+                directory: cwd,
+                ...callbacks
+              });
+
+              if (jobLogTable && result.code !== 0) {
+                result.jobLog = await readJobLogCopy(connection, jobLogTable);
+              }
+              break;
+          }
+
+          return result;
+        }, CommandHistory.describeCommand);
 
         commandResult.command = commandString;
         return commandResult;
@@ -707,6 +748,24 @@ export namespace CompileTools {
     };
   }
 
+  /**
+   * ILE commands are prompted from their definition, others are edited as plain text
+   * @returns the command to run, or an empty string if the prompt was cancelled
+   */
+  async function promptCommand(command: string, environment?: ActionEnvironment): Promise<string> {
+    if (!environment || environment === `ile`) {
+      try {
+        return await CommandPrompter.prompt(command) || ``;
+      }
+      catch (e) {
+        //The command definition could not be retrieved: fall back to the plain text prompt
+        console.log(e);
+      }
+    }
+
+    return await vscode.window.showInputBox({ prompt: `Run Command`, value: command }) || ``;
+  }
+
   /**
    * @param  name action's name
    * @param command action's command string
@@ -808,6 +867,27 @@ export namespace CompileTools {
     }
   }
 
+  function buildJobLogCopyCommand(connection: IBMi, table: QsysPath) {
+    const copyJobLog = connection.getContent().toCl(`RUNSQL`, {
+      sql: `create table ${table.library}.${table.name} as (select * from table(qsys2.joblog_info('*')) j) with data`,
+      commit: `*NONE`
+    });
+
+    return `system -i "${IBMi.escapeForShell(copyJobLog)}"`;
+  }
+
+  async function readJobLogCopy(connection: IBMi, table: QsysPath) {
+    try {
+      return await connection.getContent().getJobLog(table);
+    }
+    catch (e) {
+      console.log(`Failed to read the job log copy from ${table.library}/${table.name}: ${e}`);
+    }
+    finally {
+      await connection.runCommand({ command: `DLTF FILE(${table.library}/${table.name})`, noLibList: true });
+    }
+  }
+
   function buildLibraryList(config: ILELibrarySettings): string[] {
     //We have to reverse it because `liblist -a` adds the next item to the top always 
     return config.libraryList.slice(0).reverse();
@@ -1,6 +1,6 @@
 import os from "os";
 import * as vscode from 'vscode';
-import { ConnectionData, DeploymentMethod } from '../typings';
+import { ConnectionData, DeploymentMethod, SpooledFileSource } from '../typings';
 import { FilterType } from './Filter';
 
 export type SourceDateMode = "edit" | "diff";
@@ -135,6 +135,8 @@ export namespace ConnectionConfiguration {
     protectedPaths: string[];
     showHiddenFiles: boolean;
     lastDownloadLocation: string;
+    spooledFileSources: SpooledFileSource[];
+    messageQueues: string[];
     [name: string]: any;
   }
 
@@ -214,7 +216,9 @@ export namespace ConnectionConfiguration {
       defaultDeploymentMethod: parameters.defaultDeploymentMethod || ``,
       protectedPaths: (parameters.protectedPaths || []),
       showHiddenFiles: (parameters.showHiddenFiles === true || parameters.showHiddenFiles === undefined),
-      lastDownloadLocation: (parameters.lastDownloadLocation || os.homedir())
+      lastDownloadLocation: (parameters.lastDownloadLocation || os.homedir()),
+      spooledFileSources: (parameters.spooledFileSources || []),
+      messageQueues: (parameters.messageQueues || [])
     }
   }
 
@@ -1,5 +1,6 @@
 import { parse } from 'csv-parse/sync';
 import { existsSync } from "fs";
+import net from "net";
 import * as node_ssh from "node-ssh";
 import os from "os";
 import path, { parse as parsePath } from 'path';
@@ -8,7 +9,9 @@ import { IBMiComponent } from "../components/component";
 import { CopyToImport } from "../components/copyToImport";
 import { CustomQSh } from '../components/cqsh';
 import { ComponentManager } from "../components/manager";
-import { CommandData, CommandResult, ConnectionData, IBMiMember, RemoteCommand, SpecialAuthorities, WrapResult } from "../typings";
+import { formatTimestamp, SqlJob, SqlSession } from "../components/sqlSession";
+import { CommandData, CommandResult, ConnectionData, IBMiMember, RemoteCommand, SpecialAuthorities, SqlColumn, SqlParameter, SqlResult, SqlStatement, SqlValue, WrapResult } from "../typings";
+import { CommandHistory } from "./CommandHistory";
 import { CompileTools } from "./CompileTools";
 import { ConnectionConfiguration } from "./Configuration";
 import IBMiContent from "./IBMiContent";
@@ -24,7 +27,19 @@ export interface MemberParts extends IBMiMember {
 
 export interface ConnectionResult {
   success: boolean,
-  error?: string
+  error?: string,
+  /** The password had expired and was changed while signing on: the connection data holds the new one */
+  passwordChanged?: boolean
+}
+
+/**
+ * Where the connections send their commands.
+ * The tests swap it to record the commands run on a system, then replay them without one.
+ */
+export interface IBMiBackend {
+  createClient(): node_ssh.NodeSSH
+  /** The SQL job talks through a channel that stays open, which cannot be recorded: it is only used when this is `true` */
+  sqlJob: boolean
 }
 
 const remoteApps = [ // All names MUST also be defined as key in 'remoteFeatures' below!!
@@ -53,10 +68,17 @@ const remoteApps = [ // All names MUST also be defined as key in 'remoteFeatures
 
 type DisconnectCallback = (conn: IBMi) => Promise<void>;
 
+/** How many days ahead of its expiration the user is told to change their password */
+const PASSWORD_EXPIRATION_WARNING_DAYS = 7;
+
 export default class IBMi {
   static readonly CCSID_NOCONVERSION = 65535;
   static readonly CCSID_SYSVAL = -2;
   static readonly bashShellPath = '/QOpenSys/pkgs/bin/bash';
+  static backend: IBMiBackend = {
+    createClient: () => new node_ssh.NodeSSH,
+    sqlJob: true
+  };
 
   private systemVersion: number = 0;
   private qccsid: number = IBMi.CCSID_NOCONVERSION;
@@ -66,6 +88,8 @@ export default class IBMi {
   private sshdCcsid: number | undefined;
 
   private componentManager = new ComponentManager(this);
+  /** The job of the SQL session, started on first use; resolves to `undefined` if it could not be started */
+  private sqlJob: Promise<SqlJob | undefined> | undefined;
 
   /**
    * @deprecated Will become private in v3.0.0 - use {@link IBMi.getConfig} instead.
@@ -77,6 +101,9 @@ export default class IBMi {
   content = new IBMiContent(this);
 
   client: node_ssh.NodeSSH|undefined;
+  private jumpClient: node_ssh.NodeSSH | undefined;
+  /** Local servers forwarding to a port of the system, by remote port */
+  private readonly portForwards: Map<number, net.Server> = new Map;
   currentHost: string = ``;
   currentPort: number = 22;
   currentUser: string = ``;
@@ -220,12 +247,31 @@ export default class IBMi {
         });
         const delayedOperations: Function[] = [...onConnectedOperations];
 
-        this.client = new node_ssh.NodeSSH;
+        let sock;
+        if (connectionObject.jumpHost) {
+          progress.report({
+            message: `Connecting via jump host ${connectionObject.jumpHost}.`
+          });
+          sock = await this.connectJumpHost(connectionObject);
+        }
+
+        const expiredPassword: { newPassword?: string } = {};
+        this.client = IBMi.backend.createClient();
         await this.client.connect({
           ...connectionObject,
-          privateKeyPath: connectionObject.privateKeyPath ? Tools.resolvePath(connectionObject.privateKeyPath) : undefined
+          sock,
+          privateKeyPath: connectionObject.privateKeyPath ? Tools.resolvePath(connectionObject.privateKeyPath) : undefined,
+          agent: IBMi.getAgent(connectionObject),
+          tryKeyboard: true,
+          onKeyboardInteractive: (name, instructions, lang, prompts, finish) => {
+            IBMi.answerPrompts(connectionObject, prompts, expiredPassword).then(finish);
+          }
         } as node_ssh.Config);
 
+        if (expiredPassword.newPassword) {
+          connectionObject.password = expiredPassword.newPassword;
+        }
+
         cancelToken.onCancellationRequested(() => {
           this.dispose();
         });
@@ -293,8 +339,8 @@ export default class IBMi {
 
         if (timeoutCallback) {
           const timeoutCallbackWrapper = () => {
-            // Don't call the callback function if it was based on a user cancellation request.
-            if (!cancelToken.isCancellationRequested) {
+            // Don't call the callback function if it was based on a user cancellation request or if the connection was ended.
+            if (!cancelToken.isCancellationRequested && this.client) {
               timeoutCallback(this);
             }
           }
@@ -1073,10 +1119,52 @@ export default class IBMi {
           if (typeof variants.LOCAL === 'string' && variants.LOCAL !== `null`) {
             this.variantChars.local = variants.LOCAL;
           }
+
+          if (!reconnecting) {
+            progress.report({
+              message: `Checking password expiration.`
+            });
+
+            try {
+              // DAYS_UNTIL_PASSWORD_EXPIRES is null when the password never expires (PWDEXPITV(*NOMAX))
+              const [passwordInfo] = await this.runSQL(`select DAYS_UNTIL_PASSWORD_EXPIRES, SET_PASSWORD_TO_EXPIRE from table( QSYS2.QSYUSRINFO( USERNAME => upper('${this.currentUser}') ) )`);
+              const days = passwordInfo.DAYS_UNTIL_PASSWORD_EXPIRES;
+              const expired = passwordInfo.SET_PASSWORD_TO_EXPIRE === `YES` || (typeof days === `number` && days <= 0);
+              if (expired || (typeof days === `number` && days <= PASSWORD_EXPIRATION_WARNING_DAYS)) {
+                const connectionName = this.currentConnectionName;
+                vscode.window.showWarningMessage(
+                  expired ? `The password of ${this.currentUser.toUpperCase()} has expired.` : `The password of ${this.currentUser.toUpperCase()} expires in ${days} day(s).`,
+                  `Change password`
+                ).then(choice => {
+                  if (choice === `Change password`) {
+                    vscode.commands.executeCommand(`code-for-ibmi.changePassword`, { name: connectionName });
+                  }
+                });
+              }
+            } catch (e) {
+              // Oh well!
+              console.log(e);
+            }
+          }
         } else {
           vscode.window.showWarningMessage(`The SQL runner is not available. This could mean that VS Code will not work for this connection. See our documentation for more information.`)
         }
 
+        if (connectionObject.forwardDebugPorts) {
+          progress.report({
+            message: `Forwarding Debug Service ports.`
+          });
+
+          try {
+            for (const port of [this.config.debugPort, this.config.debugSepPort]) {
+              await this.forwardPort(Number(port));
+            }
+          }
+          catch (error: any) {
+            vscode.window.showWarningMessage(`Could not forward the Debug Service ports: ${error.message || error}`);
+          }
+        }
+
         if (!reconnecting) {
           for (const operation of delayedOperations) {
             await operation();
@@ -1099,7 +1187,8 @@ export default class IBMi {
         });
 
         return {
-          success: true
+          success: true,
+          passwordChanged: Boolean(expiredPassword.newPassword)
         };
       });
 
@@ -1150,35 +1239,133 @@ export default class IBMi {
     return CompileTools.runCommand(this, data);
   }
 
+  /**
+   * Answers the keyboard-interactive prompts of the SSH server with the password of the connection.
+   * When the password has expired, the server also asks for a new one: the user is prompted for it once, for all the rounds of prompts.
+   */
+  private static async answerPrompts(connectionObject: ConnectionData, prompts: { prompt: string }[], expiredPassword: { newPassword?: string }) {
+    const answers: string[] = [];
+    for (const { prompt } of prompts) {
+      if (/new|again|retype|re-enter|confirm/i.test(prompt)) {
+        if (expiredPassword.newPassword === undefined) {
+          expiredPassword.newPassword = await IBMi.promptNewPassword(connectionObject);
+          if (expiredPassword.newPassword === undefined) {
+            // Cancelled: the sign on fails
+            return [];
+          }
+        }
+        answers.push(expiredPassword.newPassword);
+      }
+      else {
+        answers.push(connectionObject.password || ``);
+      }
+    }
+
+    return answers;
+  }
+
+  private static async promptNewPassword(connectionObject: ConnectionData) {
+    const newPassword = await vscode.window.showInputBox({
+      title: `The password of ${connectionObject.username.toUpperCase()} on ${connectionObject.name} has expired`,
+      prompt: `New password`,
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: value => value ? undefined : `The new password is required`
+    });
+
+    if (newPassword) {
+      const confirmed = await vscode.window.showInputBox({
+        title: `The password of ${connectionObject.username.toUpperCase()} on ${connectionObject.name} has expired`,
+        prompt: `Confirm the new password`,
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: value => value === newPassword ? undefined : `The passwords do not match`
+      });
+
+      return confirmed === newPassword ? newPassword : undefined;
+    }
+  }
+
+  /**
+   * Changes the password of the connected user with the QSYCHGPW API.
+   * The CL command is passed through the standard input and never written to the output channel, since it holds both passwords.
+   * @throws an Error with the message of the API if the password could not be changed
+   */
+  async changePassword(currentPassword: string, newPassword: string) {
+    // The API takes the lengths in bytes of the job CCSID, which only match the number of characters for printable ASCII
+    if (![currentPassword, newPassword].every(password => /^[\x20-\x7E]*$/.test(password))) {
+      throw new Error(`The passwords can only contain letters, digits, spaces and ASCII symbols`);
+    }
+
+    const quote = (value: string) => `'${value.replace(/'/g, `''`)}'`;
+    const binary = (value: number) => `x'${value.toString(16).padStart(8, `0`)}'`;
+    // Error code with no bytes provided, so errors are signaled; the passwords use the job CCSID
+    const command = `CALL PGM(QSYS/QSYCHGPW) PARM(${[
+      quote(this.currentUser.toUpperCase()), quote(currentPassword), quote(newPassword), binary(0),
+      binary(currentPassword.length), binary(0), binary(newPassword.length), binary(0)
+    ].join(` `)})`;
+
+    this.appendOutput(`Changing the password of ${this.currentUser.toUpperCase()}\n`);
+    const result = await this.client!.execCommand(`/QOpenSys/usr/bin/system "$(cat)"`, { stdin: command });
+    if (result.code) {
+      throw new Error((result.stderr || result.stdout).trim() || `Could not change the password`);
+    }
+  }
+
   static escapeForShell(command: string) {
     return command.replace(/\$/g, `\\$`)
   }
 
   async sendQsh(options: CommandData) {
-    options.stdin = options.command;
+    return CommandHistory.record(this, {
+      environment: `qsh`,
+      command: options.command,
+      caller: options.caller,
+      directory: options.directory,
+      request: { api: `sendQsh`, data: { command: options.command, directory: options.directory } }
+    }, async () => {
+      options.stdin = options.command;
 
-    let qshExecutable = `/QOpenSys/usr/bin/qsh`;
+      let qshExecutable = `/QOpenSys/usr/bin/qsh`;
 
-    if (this.canUseCqsh) {
-      qshExecutable = this.getComponent<CustomQSh>(CustomQSh.ID)!.installPath;
-    }
+      if (this.canUseCqsh) {
+        qshExecutable = this.getComponent<CustomQSh>(CustomQSh.ID)!.installPath;
+      }
 
-    if (this.requiresTranslation) {
-      options.stdin = this.sysNameInAmerican(options.stdin);
-      options.directory = options.directory ? this.sysNameInAmerican(options.directory) : undefined;
-    }
+      if (this.requiresTranslation) {
+        options.stdin = this.sysNameInAmerican(options.stdin);
+        options.directory = options.directory ? this.sysNameInAmerican(options.directory) : undefined;
+      }
 
-    return this.sendCommand({
-      ...options,
-      command: qshExecutable
-    });
+      return this.sendCommand({
+        ...options,
+        command: qshExecutable
+      });
+    }, CommandHistory.describeCommand);
   }
 
   /**
    * Send commands to pase through the SSH connection.
    * Commands sent here end up in the 'Code for IBM i' output channel.
+   * @throws a {@link vscode.CancellationError} if `options.token` is cancelled; the remote process is killed
    */
   async sendCommand(options: CommandData): Promise<CommandResult> {
+    const { command, directory, env, stdin, caller } = options;
+    return CommandHistory.record(this, {
+      environment: `pase`,
+      command,
+      caller,
+      directory: directory || this.config?.homeDirectory,
+      env,
+      request: { api: `sendCommand`, data: { command, directory, env, stdin } }
+    }, () => this.executeCommand(options), CommandHistory.describeCommand);
+  }
+
+  private async executeCommand(options: CommandData): Promise<CommandResult> {
+    if (options.token?.isCancellationRequested) {
+      throw new vscode.CancellationError();
+    }
+
     let commands: string[] = [];
     if (options.env) {
       if (this.usingBash()) {
@@ -1203,12 +1390,25 @@ export default class IBMi {
       }
     }
 
+    let cancellation: vscode.Disposable | undefined;
     const result = await this.client!.execCommand(command, {
       cwd: directory,
       stdin: options.stdin,
       onStdout: options.onStdout,
       onStderr: options.onStderr,
-    });
+      onChannel: channel => {
+        cancellation = options.token?.onCancellationRequested(() => {
+          // Not every SSH server forwards signals: closing the channel also ends the process
+          channel.signal(`KILL`);
+          channel.close();
+        });
+      }
+    }).finally(() => cancellation?.dispose());
+
+    if (options.token?.isCancellationRequested) {
+      this.appendOutput(`Cancelled\n\n`);
+      throw new vscode.CancellationError();
+    }
 
     // Some simplification
     if (result.code === null) result.code = 0;
@@ -1245,6 +1445,14 @@ export default class IBMi {
   }
 
   private disconnect(failedToConnect = false) {
+    this.closePortForwards();
+    this.sqlJob?.then(job => job?.end());
+    this.sqlJob = undefined;
+    if (this.jumpClient) {
+      this.jumpClient.dispose();
+      this.jumpClient = undefined;
+    }
+
     if (this.client) {
       this.client = undefined;
 
@@ -1254,6 +1462,92 @@ export default class IBMi {
     }
   }
 
+  /**
+   * @returns the socket of the local SSH agent, used when the connection has neither a password nor a private key
+   */
+  static getAgent(connectionObject: ConnectionData) {
+    return connectionObject.password || connectionObject.privateKeyPath ? undefined : process.env.SSH_AUTH_SOCK;
+  }
+
+  /**
+   * Connects to the jump host and opens a channel to the system through it
+   * @returns the channel the SSH connection to the system goes through
+   */
+  private async connectJumpHost(connectionObject: ConnectionData) {
+    const [, username, host, port] = /^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/.exec(connectionObject.jumpHost!.trim()) || [];
+    if (!host) {
+      throw new Error(`Invalid jump host ${connectionObject.jumpHost}; use the [user@]host[:port] format.`);
+    }
+
+    const privateKeyPath = connectionObject.jumpHostPrivateKeyPath || connectionObject.privateKeyPath;
+    this.jumpClient = new node_ssh.NodeSSH;
+    await this.jumpClient.connect({
+      host: host.replace(/^\[(.*)\]$/, `$1`),
+      port: port ? Number(port) : 22,
+      username: username || connectionObject.username,
+      password: connectionObject.jumpHostPrivateKeyPath ? undefined : connectionObject.password,
+      privateKeyPath: privateKeyPath ? Tools.resolvePath(privateKeyPath) : undefined,
+      agent: privateKeyPath ? undefined : IBMi.getAgent(connectionObject),
+      keepaliveInterval: connectionObject.keepaliveInterval
+    });
+
+    return await this.jumpClient.forwardOut(`127.0.0.1`, 0, connectionObject.host, connectionObject.port);
+  }
+
+  /**
+   * Opens a local port forwarded to a port of the system through the SSH connection.
+   * The forward is closed when the connection ends.
+   * @param remotePort the port on the system
+   * @param localPort the local port; a free one is picked if not provided
+   * @returns the local port
+   */
+  async forwardPort(remotePort: number, localPort = 0): Promise<number> {
+    const existing = this.portForwards.get(remotePort);
+    if (existing) {
+      return (existing.address() as net.AddressInfo).port;
+    }
+
+    const server = net.createServer(socket => {
+      socket.on(`error`, () => socket.destroy());
+      if (this.client) {
+        this.client.forwardOut(`127.0.0.1`, socket.remotePort || 0, `127.0.0.1`, remotePort)
+          .then(channel => socket.pipe(channel).pipe(socket))
+          .catch(error => {
+            this.appendOutput(`Could not forward a connection to port ${remotePort}: ${error.message || error}\n`);
+            socket.destroy();
+          });
+      }
+      else {
+        socket.destroy();
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once(`error`, reject);
+      server.listen(localPort, `127.0.0.1`, resolve);
+    });
+
+    this.portForwards.set(remotePort, server);
+    const port = (server.address() as net.AddressInfo).port;
+    this.appendOutput(`Forwarding localhost:${port} to port ${remotePort} of ${this.currentHost}\n`);
+    return port;
+  }
+
+  /**
+   * @returns the host and port to use to reach a service of the system: the local end of its port forward if there is one
+   */
+  getServiceAddress(remotePort: number) {
+    const server = this.portForwards.get(remotePort);
+    return server ?
+      { host: `localhost`, port: (server.address() as net.AddressInfo).port } :
+      { host: this.currentHost, port: remotePort };
+  }
+
+  private closePortForwards() {
+    this.portForwards.forEach(server => server.close());
+    this.portForwards.clear();
+  }
+
   async dispose() {
     this.disconnect();
 
@@ -1455,13 +1749,42 @@ export default class IBMi {
    * Each statement must be separated by a semi-colon and a new line (i.e. ;\n).
    * If a statement starts with @, it will be run as a CL command.
    *
+   * The statements run in a new job, unless `options.sqlJob` is set.
+   *
    * @param statements
+   * @param options.sqlJob runs the statements in the SQL job kept for the whole connection, when it is available. It is faster, but QTEMP and the session state,
+   * like `SET SCHEMA` or `SET PATH`, are shared with the other statements run in it: only use it for statements that neither rely on nor change them.
+   * @param options.token cancels the statements: the job running them is ended, unless it is the SQL job kept for the connection, where only the running statement is cancelled
+   * @param options.caller the feature running the statements, shown in the command history
    * @returns a Result set
+   * @throws a {@link vscode.CancellationError} if the token is cancelled
    */
-  async runSQL(statements: string, options: { fakeBindings?: (string | number)[], forceSafe?: boolean } = {}): Promise<Tools.DB2Row[]> {
+  async runSQL(statements: string, options: { fakeBindings?: (string | number)[], forceSafe?: boolean, sqlJob?: boolean, token?: vscode.CancellationToken, caller?: string } = {}): Promise<Tools.DB2Row[]> {
+    return CommandHistory.record(this, {
+      environment: `sql`,
+      command: statements,
+      caller: options.caller,
+      request: { api: `runSQL`, data: { statements, fakeBindings: options.fakeBindings } }
+    }, () => this.executeSQL(statements, options), CommandHistory.describeRows);
+  }
+
+  private async executeSQL(statements: string, options: { fakeBindings?: (string | number)[], forceSafe?: boolean, sqlJob?: boolean, token?: vscode.CancellationToken }): Promise<Tools.DB2Row[]> {
     const { 'QZDFMDB2.PGM': QZDFMDB2 } = this.remoteFeatures;
     const possibleChangeCommand = (this.userCcsidInvalid ? `@CHGJOB CCSID(${this.getCcsid()});\n` : '');
 
+    // CL commands keep using a new job every time, since they may rely on an empty QTEMP or change the library list
+    const sqlJob = options.sqlJob && !/^\s*@/m.test(statements) ? await this.getSqlJob() : undefined;
+    if (sqlJob) {
+      // The job binds the fake parameters for real
+      const { list, lastStmt } = IBMi.splitStatements(Tools.fixSQL(statements, true));
+      const sqlStatements: SqlStatement[] = list.map(sql => ({ sql }));
+      if (lastStmt) {
+        sqlStatements.push({ sql: lastStmt, parameters: lastStmt.includes(`?`) ? options.fakeBindings : undefined });
+      }
+
+      return this.runInSqlJob(sqlJob, sqlStatements, () => sqlJob.execute(sqlStatements, options.token));
+    }
+
     if (QZDFMDB2) {
       // CHGJOB not required here. It will use the job CCSID, or the runtime CCSID.
       let input = Tools.fixSQL(`${possibleChangeCommand}${statements}`, true);
@@ -1482,33 +1805,11 @@ export default class IBMi {
       }
 
       // Fix up the parameters
-      let list = input.split(`\n`).join(` `).split(`;`).filter(x => x.trim().length > 0);
-      let lastStmt = list.pop()?.trim();
+      const { list, lastStmt } = IBMi.splitStatements(input, options.fakeBindings);
       const asUpper = lastStmt?.toUpperCase();
 
       // We always need to use the CSV to get the values back correctly from the database.
       if (lastStmt) {
-        const fakeBindings = options.fakeBindings;
-        if (lastStmt.includes(`?`) && fakeBindings && fakeBindings.length > 0) {
-          const parts = lastStmt.split(`?`);
-
-          lastStmt = ``;
-          for (let partsIndex = 0; partsIndex < parts.length; partsIndex++) {
-            lastStmt += parts[partsIndex];
-            if (fakeBindings[partsIndex] !== undefined) {
-              switch (typeof fakeBindings[partsIndex]) {
-                case `number`:
-                  lastStmt += fakeBindings[partsIndex];
-                  break;
-
-                case `string`:
-                  lastStmt += Tools.bufferToUx(fakeBindings[partsIndex] as string);
-                  break;
-              }
-            }
-          }
-        }
-
         // Return as CSV when needed
         if (useCsv && (asUpper?.startsWith(`SELECT`) || asUpper?.startsWith(`WITH`))) {
           const copyToImport = this.getComponent<CopyToImport>(CopyToImport.ID);
@@ -1527,7 +1828,8 @@ export default class IBMi {
 
       const output = await this.sendCommand({
         command,
-        stdin: input
+        stdin: input,
+        token: options.token
       })
 
       if (output.stdout) {
@@ -1562,6 +1864,220 @@ export default class IBMi {
     throw new Error(`There is no way to run SQL on this system.`);
   }
 
+  /**
+   * Runs SQL statements with parameter markers: their values are bound instead of being put in the statements.
+   * 
+   * The statements run in the SQL session when it is available, which also provides the type of the columns;
+   * otherwise, the values are put in the statements as literals, and the type of the columns is looked up in QSYS2.SYSCOLUMNS
+   * from a view of the last statement: numbers are typed from it, and the other values are strings. When the view cannot be created,
+   * the type of the columns is `UNKNOWN` and all the values are strings.
+   * As with the `sqlJob` option of {@link runSQL}, QTEMP and the session state are shared with the other statements run in the session.
+   * CL commands starting with `@` are not supported.
+   *
+   * @returns the rows of the last statement, typed from their column, and the description of its columns
+   */
+  async runStatements(...statements: SqlStatement[]): Promise<SqlResult> {
+    return CommandHistory.record(this, {
+      environment: `sql`,
+      command: statements.map(statement => statement.sql).join(`;\n`),
+      request: { api: `runStatements`, data: statements }
+    }, () => this.executeStatements(statements), result => CommandHistory.describeRows(result.rows));
+  }
+
+  private async executeStatements(statements: SqlStatement[]): Promise<SqlResult> {
+    const sqlJob = await this.getSqlJob();
+    if (sqlJob) {
+      return this.runInSqlJob(sqlJob, statements, () => sqlJob.query(statements));
+    }
+
+    const inlined = statements.map(statement => IBMi.inlineParameters(statement));
+    const [rows, described] = await Promise.all([
+      this.runSQL(inlined.join(`;\n`)),
+      this.describeQuery(inlined[inlined.length - 1])
+    ]);
+
+    // The rows are keyed by the names QZDFMDB2 writes, the described columns are in the same order
+    const names = rows.length ? Object.keys(rows[0]) : (described || []).map(column => column.name);
+    const columns: SqlColumn[] = names.map((name, index) => ({
+      ...(described?.length === names.length ? described[index] : { type: `UNKNOWN`, length: 0, scale: 0, nullable: true }),
+      name
+    }));
+
+    return {
+      columns,
+      rows: rows.map(row => Object.fromEntries(columns.map(column => [column.name, IBMi.toSqlValue(row[column.name], column)])))
+    };
+  }
+
+  /**
+   * @returns the columns of the result set of a query, from a view created on it in QTEMP, or `undefined` if the view cannot be created
+   */
+  private async describeQuery(query: string): Promise<SqlColumn[] | undefined> {
+    if (/^\s*(select|with|values)\b/i.test(query)) {
+      const view = Tools.makeid().toUpperCase();
+      try {
+        const rows = await this.runSQL([
+          `create view QTEMP.${view} as ${query}`,
+          `select COLUMN_NAME, DATA_TYPE, LENGTH, NUMERIC_SCALE, IS_NULLABLE from QSYS2.SYSCOLUMNS where TABLE_SCHEMA = 'QTEMP' and TABLE_NAME = '${view}' order by ORDINAL_POSITION`
+        ].join(`;\n`));
+
+        return rows.map(row => ({
+          name: String(row.COLUMN_NAME),
+          type: String(row.DATA_TYPE),
+          length: Number(row.LENGTH) || 0,
+          scale: Number(row.NUMERIC_SCALE) || 0,
+          nullable: row.IS_NULLABLE === `Y`
+        }));
+      }
+      catch (error) {
+        // The statement cannot be used in a view, like a query with an ORDER BY clause
+      }
+    }
+  }
+
+  /**
+   * Types a value written by QZDFMDB2 from its column, like the SQL session does for the numbers;
+   * the dates and the times are left as written, since their format depends on the job
+   */
+  private static toSqlValue(value: string | number | null | undefined, column: SqlColumn): SqlValue {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    switch (column.type) {
+      case `SMALLINT`:
+      case `INTEGER`:
+      case `REAL`:
+      case `DOUBLE`:
+      case `FLOAT`:
+        return Number(value);
+
+      case `BIGINT`:
+        return BigInt(value);
+
+      case `DECIMAL`:
+      case `NUMERIC`:
+      case `DECFLOAT`:
+        return column.length <= 15 ? Number(value) : String(value);
+
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Runs statements in the SQL job and logs them
+   */
+  private async runInSqlJob<T>(sqlJob: SqlJob, statements: SqlStatement[], run: () => Promise<T>) {
+    this.determineClear();
+    for (const statement of statements) {
+      this.appendOutput(`SQL job: ${statement.sql}\n`);
+      if (statement.parameters?.length) {
+        this.appendOutput(`Parameters: ${statement.parameters.map(IBMi.toLiteral).join(`, `)}\n`);
+      }
+    }
+
+    try {
+      return await run();
+    }
+    catch (error: any) {
+      this.appendOutput(`${error.message || error}\n\n`);
+      throw error;
+    }
+  }
+
+  /**
+   * @returns the job of the SQL session, unless the job CCSID requires the conversions done when running QZDFMDB2 or the backend does not support it
+   */
+  private async getSqlJob() {
+    if (this.userCcsidInvalid || this.requiresTranslation || !IBMi.backend.sqlJob) {
+      return;
+    }
+
+    const current = await this.sqlJob;
+    if (current && !current.running) {
+      // The job has ended: a new one is started
+      this.sqlJob = undefined;
+    }
+
+    const sqlSession = this.getComponent<SqlSession>(SqlSession.ID);
+    if (sqlSession && !this.sqlJob) {
+      this.sqlJob = sqlSession.start(this).catch(error => {
+        this.appendOutput(`Could not start the SQL job, QZDFMDB2 is used instead: ${error.message || error}\n`);
+        return undefined;
+      });
+    }
+
+    return this.sqlJob;
+  }
+
+  /**
+   * Puts the values of the parameter markers in the statement as literals, for QZDFMDB2 which cannot bind them
+   */
+  private static inlineParameters({ sql, parameters = [] }: SqlStatement) {
+    let index = 0;
+    return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|\?/g, token => {
+      if (token !== `?`) {
+        // Markers in string literals and delimited names are left as they are
+        return token;
+      }
+      else if (index < parameters.length) {
+        return IBMi.toLiteral(parameters[index++]);
+      }
+      else {
+        throw new Error(`The statement has more parameter markers than values: ${sql}`);
+      }
+    });
+  }
+
+  private static toLiteral(value: SqlParameter) {
+    if (value === null) {
+      return `NULL`;
+    }
+    else if (typeof value === `number` || typeof value === `bigint`) {
+      return String(value);
+    }
+    else if (value instanceof Date) {
+      return `TIMESTAMP('${formatTimestamp(value)}')`;
+    }
+    else if (Buffer.isBuffer(value)) {
+      return `BX'${value.toString(`hex`).toUpperCase()}'`;
+    }
+    else {
+      return `'${value.replace(/'/g, `''`)}'`;
+    }
+  }
+
+  /**
+   * Splits the statements on their `;` and binds the fake parameters of the last statement
+   */
+  private static splitStatements(input: string, fakeBindings?: (string | number)[]) {
+    const list = input.split(`\n`).join(` `).split(`;`).filter(x => x.trim().length > 0);
+    let lastStmt = list.pop()?.trim();
+
+    if (lastStmt && lastStmt.includes(`?`) && fakeBindings && fakeBindings.length > 0) {
+      const parts = lastStmt.split(`?`);
+
+      lastStmt = ``;
+      for (let partsIndex = 0; partsIndex < parts.length; partsIndex++) {
+        lastStmt += parts[partsIndex];
+        if (fakeBindings[partsIndex] !== undefined) {
+          switch (typeof fakeBindings[partsIndex]) {
+            case `number`:
+              lastStmt += fakeBindings[partsIndex];
+              break;
+
+            case `string`:
+              lastStmt += Tools.bufferToUx(fakeBindings[partsIndex] as string);
+              break;
+          }
+        }
+      }
+    }
+
+    return { list, lastStmt };
+  }
+
   validQsysName(name: string): boolean {
     // First character can only be A-Z, or a variant character
     // The rest can be A-Z, 0-9, _, ., or a variant character
@@ -4,10 +4,11 @@ import path from 'path';
 import tmp from 'tmp';
 import util from 'util';
 import * as node_ssh from "node-ssh";
-import { MarkdownString, Uri, window } from 'vscode';
+import { CancellationError, CancellationToken, MarkdownString, Uri, window } from 'vscode';
 import { GetMemberInfo } from '../components/getMemberInfo';
 import { ObjectTypes } from '../filesystems/qsys/Objects';
-import { AttrOperands, CommandResult, IBMiError, IBMiMember, IBMiObject, IFSFile, QsysPath, SpecialAuthorities } from '../typings';
+import { AttrOperands, AuthorityTarget, CommandDefinition, CommandResult, IBMiCallStackEntry, IBMiColumn, IBMiError, IBMiJob, IBMiJobLogMessage, IBMiMember, IBMiObject, IBMiObjectAuthorities, IBMiObjectReference, IBMiQueuedMessage, IBMiRecord, IBMiSpooledFile, IFSFile, QsysPath, SpecialAuthorities, SpooledFileSource } from '../typings';
+import { CLCommand } from './CLCommand';
 import { ConnectionConfiguration } from './Configuration';
 import { FilterType, parseFilter, singleGenericName } from './Filter';
 import { default as IBMi } from './IBMi';
@@ -18,6 +19,31 @@ const writeFileAsync = util.promisify(fs.writeFile);
 
 const UTF8_CCSIDS = [`819`, `1208`, `1252`];
 
+/** DSPPGMREF file usage codes */
+const FILE_USAGES: Record<number, string> = { 1: `I`, 2: `O`, 3: `I/O`, 4: `U`, 5: `I/U`, 6: `O/U`, 7: `I/O/U`, 8: `N/S` };
+
+/** DSPPGMREF program type codes */
+const PROGRAM_TYPES: Record<string, string> = { P: `*PGM`, V: `*SRVPGM`, M: `*MODULE`, S: `*SQLPKG`, Q: `*QRYDFN` };
+
+const OBJECT_AUTHORITIES: Record<string, string> = {
+  OBJECT_OPERATIONAL: `*OBJOPR`,
+  OBJECT_MANAGEMENT: `*OBJMGT`,
+  OBJECT_EXISTENCE: `*OBJEXIST`,
+  OBJECT_ALTER: `*OBJALTER`,
+  OBJECT_REFERENCE: `*OBJREF`,
+  AUTHORIZATION_LIST_MANAGEMENT: `*AUTLMGT`
+};
+
+const DATA_AUTHORITIES: Record<string, string> = {
+  DATA_READ: `*READ`,
+  DATA_ADD: `*ADD`,
+  DATA_UPDATE: `*UPD`,
+  DATA_DELETE: `*DLT`,
+  DATA_EXECUTE: `*EXECUTE`
+};
+
+const IFS_DATA_AUTHORITY = /^\*(RWX|RW|RX|WX|R|W|X|EXCLUDE)$/;
+
 type Authority = "*ADD" | "*DLT" | "*EXECUTE" | "*READ" | "*UPD" | "*NONE" | "*ALL" | "*CHANGE" | "*USE" | "*EXCLUDE" | "*AUTLMGT";
 export type SortOrder = `name` | `type`;
 
@@ -205,8 +231,9 @@ export default class IBMiContent {
 
   /**
    * Upload to a member
+   * @param runCommand runs the CL commands updating the member, in a new job by default
    */
-  async uploadMemberContent(asp: string | undefined, library: string, sourceFile: string, member: string, content: string | Uint8Array) {
+  async uploadMemberContent(asp: string | undefined, library: string, sourceFile: string, member: string, content: string | Uint8Array, runCommand?: (command: string) => Promise<CommandResult>) {
     asp = asp || this.config.sourceASP;
     library = this.ibmi.upperCaseName(library);
     sourceFile = this.ibmi.upperCaseName(sourceFile);
@@ -225,23 +252,31 @@ export default class IBMiContent {
       while (true) {
         let copyResult: CommandResult;
         if (this.ibmi.dangerousVariants && new RegExp(`[${this.ibmi.variantChars.local}]`).test(path)) {
+          const commands = [
+            `QSYS/CPYF FROMFILE(${library}/${sourceFile}) FROMMBR(${member}) TOFILE(QTEMP/QTEMPSRC) TOMBR(TEMPMEMBER) MBROPT(*REPLACE) CRTFILE(*YES)`,
+            `QSYS/CPYFRMSTMF FROMSTMF('${tempRmt}') TOMBR('${Tools.qualifyPath("QTEMP", "QTEMPSRC", "TEMPMEMBER", undefined)}') MBROPT(*REPLACE) STMFCCSID(1208) DBFCCSID(${this.config.sourceFileCCSID})`,
+            `QSYS/CPYF FROMFILE(QTEMP/QTEMPSRC) FROMMBR(TEMPMEMBER) TOFILE(${library}/${sourceFile}) TOMBR(${member}) MBROPT(*REPLACE)`
+          ];
           copyResult = { code: 0, stdout: '', stderr: '' };
-          try {
-            await this.ibmi.runSQL([
-              `@QSYS/CPYF FROMFILE(${library}/${sourceFile}) FROMMBR(${member}) TOFILE(QTEMP/QTEMPSRC) TOMBR(TEMPMEMBER) MBROPT(*REPLACE) CRTFILE(*YES);`,
-              `@QSYS/CPYFRMSTMF FROMSTMF('${tempRmt}') TOMBR('${Tools.qualifyPath("QTEMP", "QTEMPSRC", "TEMPMEMBER", undefined)}') MBROPT(*REPLACE) STMFCCSID(1208) DBFCCSID(${this.config.sourceFileCCSID})`,
-              `@QSYS/CPYF FROMFILE(QTEMP/QTEMPSRC) FROMMBR(TEMPMEMBER) TOFILE(${library}/${sourceFile}) TOMBR(${member}) MBROPT(*REPLACE);`
-            ].join("\n"));
+          if (runCommand) {
+            // The commands share the QTEMP of the job they run in
+            for (const command of commands) {
+              copyResult = await runCommand(command);
+              if (copyResult.code !== 0) {
+                break;
+              }
+            }
+          }
+          else try {
+            await this.ibmi.runSQL(commands.map(command => `@${command};`).join("\n"));
           } catch (error: any) {
             copyResult.code = -1;
             copyResult.stderr = String(error);
           }
         }
         else {
-          copyResult = await this.ibmi.runCommand({
-            command: `QSYS/CPYFRMSTMF FROMSTMF('${tempRmt}') TOMBR('${path}') MBROPT(*REPLACE) STMFCCSID(1208) DBFCCSID(${this.config.sourceFileCCSID})`,
-            noLibList: true
-          });
+          const command = `QSYS/CPYFRMSTMF FROMSTMF('${tempRmt}') TOMBR('${path}') MBROPT(*REPLACE) STMFCCSID(1208) DBFCCSID(${this.config.sourceFileCCSID})`;
+          copyResult = runCommand ? await runCommand(command) : await this.ibmi.runCommand({ command, noLibList: true });
         }
 
         if (copyResult.code === 0) {
@@ -349,6 +384,96 @@ export default class IBMiContent {
     return this.runStatements(...prepareQueries, `select * from QTEMP.${table}`);
   }
 
+  /**
+   * @param library
+   * @param file a database file
+   * @returns the file's columns definitions, in their ordinal position
+   */
+  async getColumns(library: string, file: string): Promise<IBMiColumn[]> {
+    const results = await this.ibmi.runSQL([
+      `select`,
+      `  COLUMN_NAME,`,
+      `  SYSTEM_COLUMN_NAME,`,
+      `  DATA_TYPE,`,
+      `  LENGTH,`,
+      `  NUMERIC_SCALE,`,
+      `  IS_NULLABLE,`,
+      `  IS_IDENTITY,`,
+      `  COLUMN_TEXT`,
+      `from QSYS2.SYSCOLUMNS`,
+      `where SYSTEM_TABLE_SCHEMA = '${this.ibmi.upperCaseName(library)}' and SYSTEM_TABLE_NAME = '${this.ibmi.upperCaseName(file)}'`,
+      `order by ORDINAL_POSITION`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      name: String(result.COLUMN_NAME),
+      systemName: String(result.SYSTEM_COLUMN_NAME),
+      type: String(result.DATA_TYPE),
+      length: Number(result.LENGTH),
+      scale: result.NUMERIC_SCALE !== null ? Number(result.NUMERIC_SCALE) : undefined,
+      nullable: result.IS_NULLABLE === `Y`,
+      identity: result.IS_IDENTITY === `YES`,
+      text: result.COLUMN_TEXT ? String(result.COLUMN_TEXT) : undefined
+    } as IBMiColumn));
+  }
+
+  /**
+   * Reads the records of a database file's first member, in arrival sequence
+   * @param library
+   * @param file
+   * @param options `where`: an SQL condition used to filter the records; `offset` and `limit` are used to read a single page
+   * @returns the records along with their relative record number
+   */
+  async getRecords(library: string, file: string, options: { where?: string, offset?: number, limit?: number } = {}): Promise<IBMiRecord[]> {
+    const results = await this.ibmi.runSQL([
+      `select RRN(T) as "__RRN", T.* from ${library}.${file} T`,
+      options.where ? `where ${options.where}` : ``,
+      `order by RRN(T)`,
+      options.limit ? `limit ${options.limit}` : ``,
+      options.offset ? `offset ${options.offset}` : ``
+    ].filter(Boolean).join(`\n`));
+
+    return results.map(result => {
+      const { __RRN, ...values } = result;
+      return { rrn: Number(__RRN), values };
+    });
+  }
+
+  /**
+   * @param where an optional SQL condition used to filter the records
+   * @returns the number of records of a database file's first member
+   */
+  async countRecords(library: string, file: string, where?: string) {
+    const [result] = await this.ibmi.runSQL(`select count(*) as COUNT from ${library}.${file}${where ? ` where ${where}` : ``}`);
+    return Number(result?.COUNT || 0);
+  }
+
+  /**
+   * @param values the columns values, by SQL column name. Columns that are not listed get their default value.
+   */
+  async insertRecord(library: string, file: string, values: Record<string, string | number | null>) {
+    const columns = Object.keys(values);
+    const { markers, bindings } = toSqlValues(Object.values(values));
+    await this.ibmi.runSQL(`insert into ${library}.${file} (${columns.map(quoteIdentifier).join(`, `)}) values(${markers.join(`, `)}) with NC`, { fakeBindings: bindings });
+  }
+
+  /**
+   * @param rrn the relative record number of the record to update
+   * @param values the new columns values, by SQL column name
+   */
+  async updateRecord(library: string, file: string, rrn: number, values: Record<string, string | number | null>) {
+    const columns = Object.keys(values);
+    const { markers, bindings } = toSqlValues(Object.values(values));
+    await this.ibmi.runSQL(`update ${library}.${file} T set ${columns.map((column, index) => `${quoteIdentifier(column)} = ${markers[index]}`).join(`, `)} where RRN(T) = ${Number(rrn)} with NC`, { fakeBindings: bindings });
+  }
+
+  /**
+   * @param rrn the relative record number of the record to delete
+   */
+  async deleteRecord(library: string, file: string, rrn: number) {
+    await this.ibmi.runSQL(`delete from ${library}.${file} T where RRN(T) = ${Number(rrn)} with NC`);
+  }
+
   /**
    * Get list of libraries with description and attribute
    * @param libraries Array of libraries to retrieve
@@ -372,7 +497,7 @@ export default class IBMiContent {
         from table( SYSTOOLS.SPLIT( INPUT_LIST => '${libraries.toString()}', DELIMITER => ',' ) ) libs,
         table( QSYS2.OBJECT_STATISTICS( OBJECT_SCHEMA => 'QSYS', OBJTYPELIST => '*LIB', OBJECT_NAME => libs.ELEMENT ) ) os
       `;
-      const results = await this.ibmi.runSQL(statement);
+      const results = await this.ibmi.runSQL(statement, { sqlJob: true });
 
       objects = results.map(object => ({
         library: 'QSYS',
@@ -481,9 +606,11 @@ export default class IBMiContent {
   /**
    * @param filters
    * @param sortOrder
+   * @param token kills the query when cancelled
    * @returns an array of IBMiObject
+   * @throws a {@link CancellationError} if the token is cancelled
    */
-  async getObjectList(filters: { library: string; object?: string; types?: string[]; filterType?: FilterType }, sortOrder?: SortOrder): Promise<IBMiObject[]> {
+  async getObjectList(filters: { library: string; object?: string; types?: string[]; filterType?: FilterType }, sortOrder?: SortOrder, token?: CancellationToken): Promise<IBMiObject[]> {
     const localLibrary = this.ibmi.upperCaseName(filters.library);
 
     if (localLibrary !== `QSYS`) {
@@ -492,6 +619,10 @@ export default class IBMiContent {
       }
     }
 
+    if (token?.isCancellationRequested) {
+      throw new CancellationError();
+    }
+
     const singleEntry = filters.filterType !== 'regex' ? singleGenericName(filters.object) : undefined;
     const nameFilter = parseFilter(filters.object, filters.filterType);
     const objectFilter = filters.object && (nameFilter.noFilter || singleEntry) && filters.object !== `*` ? this.ibmi.upperCaseName(filters.object) : undefined;
@@ -598,7 +729,7 @@ export default class IBMiContent {
       ];
     }
 
-    const objects = (await this.runStatements(createOBJLIST.join(`\n`)));
+    const objects = await this.ibmi.runSQL(`${createOBJLIST.join(`\n`)};`, { token, sqlJob: true });
 
     return objects.map(object => ({
       library: localLibrary,
@@ -670,7 +801,7 @@ export default class IBMiContent {
         ${singleMemberExtension ? `and TYPE like '${singleMemberExtension}'` : ''}
       order by ${sort.order === 'name' ? 'NAME' : 'CHANGED'} ${!sort.ascending ? 'DESC' : 'ASC'}`;
 
-    const results = await this.ibmi.runSQL(statement);
+    const results = await this.ibmi.runSQL(statement, { sqlJob: true });
     if (results.length) {
       const asp = this.ibmi.aspInfo[Number(results[0].ASP)];
       return results.map(result => ({
@@ -706,9 +837,11 @@ export default class IBMiContent {
   /**
    * Get list of items in a path
    * @param remotePath
+   * @param token kills the listing when cancelled
    * @return an array of IFSFile
+   * @throws a {@link CancellationError} if the token is cancelled
    */
-  async getFileList(remotePath: string, sort: SortOptions = { order: "name" }, onListError?: (errors: string[]) => void): Promise<IFSFile[]> {
+  async getFileList(remotePath: string, sort: SortOptions = { order: "name" }, onListError?: (errors: string[]) => void, token?: CancellationToken): Promise<IFSFile[]> {
     const { 'stat': STAT } = this.ibmi.remoteFeatures;
     const { 'sort': SORT } = this.ibmi.remoteFeatures;
 
@@ -717,7 +850,8 @@ export default class IBMiContent {
 
     if (STAT && SORT) {
       fileListResult = (await this.ibmi.sendCommand({
-        command: `cd '${remotePath}' && ${STAT} --dereference --printf="%A\t%h\t%U\t%G\t%s\t%Y\t%n\n" * .* ${sort.order === `date` ? `| ${SORT} --key=6` : ``} ${(sort.order === `date` && !sort.ascending) ? ` --reverse` : ``}`
+        command: `cd '${remotePath}' && ${STAT} --dereference --printf="%A\t%h\t%U\t%G\t%s\t%Y\t%n\n" * .* ${sort.order === `date` ? `| ${SORT} --key=6` : ``} ${(sort.order === `date` && !sort.ascending) ? ` --reverse` : ``}`,
+        token
       }));
 
       if (fileListResult.stdout !== '') {
@@ -744,7 +878,8 @@ export default class IBMiContent {
       }
     } else {
       fileListResult = (await this.ibmi.sendCommand({
-        command: `${this.ibmi.remoteFeatures.ls} -a -p -L ${sort.order === "date" ? "-t" : ""} ${(sort.order === 'date' && sort.ascending) ? "-r" : ""} ${Tools.escapePath(remotePath)}`
+        command: `${this.ibmi.remoteFeatures.ls} -a -p -L ${sort.order === "date" ? "-t" : ""} ${(sort.order === 'date' && sort.ascending) ? "-r" : ""} ${Tools.escapePath(remotePath)}`,
+        token
       }));
 
       if (fileListResult.stdout !== '') {
@@ -785,6 +920,563 @@ export default class IBMiContent {
     return items;
   }
 
+  /**
+   * Get list of spooled files owned by a user or found in an output queue
+   * @param source the user or the output queue to list the spooled files from
+   * @returns an array of IBMiSpooledFile, the most recent first
+   */
+  async getSpooledFileList(source: SpooledFileSource): Promise<IBMiSpooledFile[]> {
+    const name = this.ibmi.upperCaseName(source.name);
+    const sourceFilter = source.type === `user` ?
+      `USER_NAME = '${name}'` :
+      `OUTPUT_QUEUE_NAME = '${name}' and OUTPUT_QUEUE_LIBRARY_NAME = '${this.ibmi.upperCaseName(source.library || `QUSRSYS`)}'`;
+
+    const results = await this.ibmi.runSQL([
+      `select`,
+      `  SPOOLED_FILE_NAME,`,
+      `  FILE_NUMBER,`,
+      `  USER_NAME,`,
+      `  JOB_NAME,`,
+      `  OUTPUT_QUEUE_NAME,`,
+      `  OUTPUT_QUEUE_LIBRARY_NAME,`,
+      `  STATUS,`,
+      `  USER_DATA,`,
+      `  FORM_TYPE,`,
+      `  SIZE,`,
+      `  TOTAL_PAGES,`,
+      `  extract(epoch from (CREATE_TIMESTAMP))*1000 as CREATED`,
+      `from QSYS2.OUTPUT_QUEUE_ENTRIES_BASIC`,
+      `where ${sourceFilter}`,
+      `order by CREATE_TIMESTAMP desc`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      name: String(result.SPOOLED_FILE_NAME),
+      number: Number(result.FILE_NUMBER),
+      user: String(result.USER_NAME),
+      job: String(result.JOB_NAME),
+      queue: {
+        library: String(result.OUTPUT_QUEUE_LIBRARY_NAME),
+        name: String(result.OUTPUT_QUEUE_NAME)
+      },
+      status: String(result.STATUS),
+      userData: String(result.USER_DATA || ``),
+      formType: String(result.FORM_TYPE || ``),
+      size: Number(result.SIZE),
+      pages: Number(result.TOTAL_PAGES),
+      created: new Date(Number(result.CREATED))
+    } as IBMiSpooledFile));
+  }
+
+  /**
+   * Read the content of a spooled file as plain text
+   * @param spooledFile the spooled file to read
+   * @returns the lines of the spooled file, joined with line feeds
+   */
+  async getSpooledFileContent(spooledFile: Pick<IBMiSpooledFile, "job" | "name" | "number">) {
+    const lines = await this.ibmi.runSQL(
+      `select SPOOLED_DATA from table(SYSTOOLS.SPOOLED_FILE_DATA(JOB_NAME => '${spooledFile.job}', SPOOLED_FILE_NAME => '${spooledFile.name}', SPOOLED_FILE_NUMBER => '${spooledFile.number}')) order by ORDINAL_POSITION`
+    );
+
+    return lines.map(line => line.SPOOLED_DATA !== null ? String(line.SPOOLED_DATA) : ``).join(`\n`);
+  }
+
+  /**
+   * Download a spooled file, either as a text file or as a PDF document
+   * @param spooledFile the spooled file to download
+   * @param localFile the local file to write to
+   * @param format `txt` or `pdf`
+   * @throws an Error if the spooled file could not be converted or downloaded
+   */
+  async downloadSpooledFile(spooledFile: IBMiSpooledFile, localFile: string | Uri, format: "txt" | "pdf") {
+    if (format === `pdf`) {
+      await this.ibmi.withTempDirectory(async directory => {
+        const remoteFile = path.posix.join(directory, `${spooledFile.name}.pdf`);
+        const result = await this.ibmi.runCommand({
+          command: this.toCl(`CPYSPLF`, {
+            file: spooledFile.name,
+            tofile: `*TOSTMF`,
+            job: spooledFile.job,
+            splnbr: spooledFile.number,
+            tostmf: remoteFile,
+            wscst: `*PDF`,
+            stmfopt: `*REPLACE`
+          }),
+          noLibList: true
+        });
+
+        if (result.code !== 0) {
+          throw new Error(result.stderr);
+        }
+
+        await this.downloadFile(localFile, remoteFile);
+      });
+    }
+    else {
+      await writeFileAsync(Tools.fileToPath(localFile), await this.getSpooledFileContent(spooledFile));
+    }
+  }
+
+  /**
+   * @param spooledFile the spooled file to delete
+   * @throws an Error if the spooled file could not be deleted
+   */
+  deleteSpooledFile(spooledFile: IBMiSpooledFile) {
+    return this.runSpooledFileCommand(`DLTSPLF`, spooledFile);
+  }
+
+  /**
+   * @param spooledFile the spooled file to hold
+   * @throws an Error if the spooled file could not be held
+   */
+  holdSpooledFile(spooledFile: IBMiSpooledFile) {
+    return this.runSpooledFileCommand(`HLDSPLF`, spooledFile);
+  }
+
+  /**
+   * @param spooledFile the spooled file to release
+   * @throws an Error if the spooled file could not be released
+   */
+  releaseSpooledFile(spooledFile: IBMiSpooledFile) {
+    return this.runSpooledFileCommand(`RLSSPLF`, spooledFile);
+  }
+
+  private runSpooledFileCommand(command: string, spooledFile: IBMiSpooledFile) {
+    return this.runCheckedCommand(this.toCl(command, {
+      file: spooledFile.name,
+      job: spooledFile.job,
+      splnbr: spooledFile.number
+    }));
+  }
+
+  /**
+   * Saves a library, or some of its objects, into a save file. The save file is created if needed and cleared otherwise.
+   * @param saveFile the save file
+   * @param source the library to save and, optionally, the names and types of the objects to save from it
+   * @param options `targetRelease`: the release the objects are saved for (`*CURRENT` by default)
+   * @throws an Error if the save file could not be created or if the save failed
+   */
+  async saveToSaveFile(saveFile: QsysPath, source: { library: string, objects?: string[], types?: string[] }, options: { targetRelease?: string } = {}) {
+    const savf = await this.createSaveFile(saveFile);
+    const lib = this.ibmi.upperCaseName(source.library);
+    const tgtrls = options.targetRelease?.toUpperCase();
+
+    await this.runCheckedCommand(source.objects?.length ?
+      this.toCl(`SAVOBJ`, {
+        obj: source.objects.map(object => this.ibmi.upperCaseName(object)).join(` `),
+        lib,
+        dev: `*SAVF`,
+        objtype: source.types?.length ? source.types.filter(Tools.distinct).join(` `).toUpperCase() : undefined,
+        savf,
+        tgtrls,
+        clear: `*ALL`
+      }) :
+      this.toCl(`SAVLIB`, { lib, dev: `*SAVF`, savf, tgtrls, clear: `*ALL` })
+    );
+  }
+
+  /**
+   * Restores objects from a save file
+   * @param saveFile the save file
+   * @param options `savedLibrary`: the library the objects were saved from; `objects`: the names of the objects to restore (all by default);
+   * `restoreLibrary`: the library to restore the objects into (created if needed), the saved library by default; `allowDifferences`: restore objects even if they differ from the existing ones
+   * @throws an Error if the restore failed
+   */
+  async restoreFromSaveFile(saveFile: QsysPath, options: { savedLibrary: string, objects?: string[], restoreLibrary?: string, allowDifferences?: boolean }) {
+    const savlib = this.ibmi.upperCaseName(options.savedLibrary);
+    const rstlib = options.restoreLibrary ? this.ibmi.upperCaseName(options.restoreLibrary) : undefined;
+    if (rstlib && rstlib !== savlib && !await this.checkObject({ library: `QSYS`, name: rstlib, type: `*LIB` })) {
+      await this.runCheckedCommand(this.toCl(`CRTLIB`, { lib: rstlib }));
+    }
+
+    await this.runCheckedCommand(this.toCl(`RSTOBJ`, {
+      obj: options.objects?.length ? options.objects.map(object => this.ibmi.upperCaseName(object)).join(` `) : `*ALL`,
+      savlib,
+      dev: `*SAVF`,
+      savf: `${this.ibmi.upperCaseName(saveFile.library)}/${this.ibmi.upperCaseName(saveFile.name)}`,
+      mbropt: `*ALL`,
+      alwobjdif: options.allowDifferences ? `*ALL` : `*NONE`,
+      rstlib: rstlib && rstlib !== savlib ? rstlib : undefined
+    }));
+  }
+
+  /**
+   * @param saveFile the save file
+   * @returns the objects held in the save file, with the library they were saved from
+   */
+  async getSaveFileObjects(saveFile: QsysPath): Promise<IBMiObject[]> {
+    const results = await this.ibmi.runSQL([
+      `select LIBRARY_NAME, OBJECT_NAME, OBJECT_TYPE, OBJECT_ATTRIBUTE, TEXT_DESCRIPTION`,
+      `from table(QSYS2.SAVE_FILE_OBJECTS(SAVE_FILE => '${this.ibmi.upperCaseName(saveFile.name)}', SAVE_FILE_LIBRARY => '${this.ibmi.upperCaseName(saveFile.library)}'))`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      library: String(result.LIBRARY_NAME),
+      name: String(result.OBJECT_NAME),
+      type: String(result.OBJECT_TYPE),
+      attribute: result.OBJECT_ATTRIBUTE ? String(result.OBJECT_ATTRIBUTE) : undefined,
+      text: String(result.TEXT_DESCRIPTION || ``)
+    } as IBMiObject));
+  }
+
+  /**
+   * Downloads a save file to a local file
+   * @throws an Error if the save file could not be copied or downloaded
+   */
+  async downloadSaveFile(saveFile: QsysPath, localFile: string | Uri) {
+    await this.ibmi.withTempDirectory(async directory => {
+      const remoteFile = path.posix.join(directory, `${saveFile.name}.savf`);
+      await this.runCheckedCommand(`CPYTOSTMF FROMMBR('${Tools.qualifyPath(saveFile.library, saveFile.name, undefined, undefined, true)}') TOSTMF('${remoteFile}') STMFOPT(*REPLACE)`);
+      await this.downloadFile(localFile, remoteFile);
+    });
+  }
+
+  /**
+   * Uploads a local file into a save file. The save file is created if needed and replaced otherwise.
+   * @throws an Error if the file could not be uploaded or copied into the save file
+   */
+  async uploadSaveFile(localFile: string | Uri, saveFile: QsysPath) {
+    await this.createSaveFile(saveFile);
+    await this.ibmi.withTempDirectory(async directory => {
+      const remoteFile = path.posix.join(directory, `${saveFile.name}.savf`);
+      await this.uploadFiles([{ local: localFile, remote: remoteFile }]);
+      await this.runCheckedCommand(`CPYFRMSTMF FROMSTMF('${remoteFile}') TOMBR('${Tools.qualifyPath(saveFile.library, saveFile.name, undefined, undefined, true)}') MBROPT(*REPLACE)`);
+    });
+  }
+
+  /**
+   * @returns the qualified name of the save file, created if it didn't exist
+   */
+  private async createSaveFile(saveFile: QsysPath) {
+    const qualifiedName = `${this.ibmi.upperCaseName(saveFile.library)}/${this.ibmi.upperCaseName(saveFile.name)}`;
+    if (!await this.checkObject({ ...saveFile, type: `*FILE` })) {
+      await this.runCheckedCommand(this.toCl(`CRTSAVF`, { file: qualifiedName }));
+    }
+    return qualifiedName;
+  }
+
+  /**
+   * Lists the objects referenced by a program, using DSPPGMREF
+   * @param program a `*PGM`, `*SRVPGM`, `*MODULE`, `*SQLPKG` or `*QRYDFN` object
+   * @returns the referenced objects; their library is `*LIBL` when they are resolved at runtime
+   */
+  async getProgramReferences(program: QsysPath & { type: string }): Promise<IBMiObjectReference[]> {
+    const results = await this.runStatements(
+      this.toCl(`@DSPPGMREF`, {
+        pgm: `${this.ibmi.upperCaseName(program.library)}/${this.ibmi.upperCaseName(program.name)}`,
+        objtype: program.type.toUpperCase(),
+        output: `*OUTFILE`,
+        outfile: `QTEMP/PGMREF`
+      }),
+      `select WHLNAM, WHFNAM, WHOTYP, max(WHFUSG) as WHFUSG from QTEMP.PGMREF where WHFNAM <> '' group by WHLNAM, WHFNAM, WHOTYP order by WHOTYP, WHFNAM`
+    );
+
+    return results.map(result => ({
+      library: String(result.WHLNAM),
+      name: String(result.WHFNAM),
+      type: String(result.WHOTYP),
+      usage: result.WHOTYP === `*FILE` ? FILE_USAGES[Number(result.WHFUSG)] : undefined
+    } as IBMiObjectReference));
+  }
+
+  /**
+   * Lists the programs that use an object, based on the DSPPGMREF output of a set of libraries
+   * @param object the object used by the programs
+   * @param libraries the libraries holding the programs to look into
+   * @returns the programs using the object, with their type
+   */
+  async getObjectUsers(object: QsysPath & { type: string }, libraries: string[]): Promise<IBMiObjectReference[]> {
+    const outfile = { library: this.config.tempLibrary, name: Tools.makeid(8).toUpperCase(), type: `*FILE` };
+    const qualifiedOutfile = `${outfile.library}/${outfile.name}`;
+
+    //Libraries without programs make DSPPGMREF fail: each library is processed on its own and errors are ignored
+    await this.ibmi.sendQsh({
+      command: libraries.map(library => `system "${IBMi.escapeForShell(this.toCl(`DSPPGMREF`, {
+        pgm: `${this.ibmi.upperCaseName(library)}/*ALL`,
+        objtype: `*ALL`,
+        output: `*OUTFILE`,
+        outfile: qualifiedOutfile,
+        outmbr: `*FIRST *ADD`
+      }))}" > /dev/null 2>&1`).join(`; `)
+    });
+
+    if (await this.checkObject(outfile)) {
+      try {
+        const name = this.ibmi.upperCaseName(object.name);
+        const library = this.ibmi.upperCaseName(object.library);
+        const results = await this.ibmi.runSQL([
+          `select distinct WHLIB, WHPNAM, WHSPKG, WHTEXT from ${outfile.library}.${outfile.name}`,
+          `where WHFNAM = '${name}' and WHOTYP = '${object.type.toUpperCase()}' and WHLNAM in ('${library}', '*LIBL')`,
+          `order by WHLIB, WHPNAM`
+        ].join(`\n`));
+
+        return results.map(result => ({
+          library: String(result.WHLIB),
+          name: String(result.WHPNAM),
+          type: PROGRAM_TYPES[String(result.WHSPKG)] || `*PGM`,
+          text: result.WHTEXT ? String(result.WHTEXT) : undefined
+        } as IBMiObjectReference));
+      }
+      finally {
+        await this.ibmi.runCommand({ command: `DLTF FILE(${qualifiedOutfile})`, noLibList: true });
+      }
+    }
+    else {
+      return [];
+    }
+  }
+
+  /**
+   * Retrieves the definition of a CL command and of its parameters with the QCDRCMDD API
+   * @param command the command name, optionally qualified
+   * @throws an Error if the command cannot be found
+   */
+  async getCommandDefinition(command: string): Promise<CommandDefinition> {
+    const [name, library] = command.trim().split(`/`).reverse();
+    const qualifiedName = `${this.ibmi.upperCaseName(name).padEnd(10)}${this.ibmi.upperCaseName(library || `*LIBL`).padEnd(10)}`;
+
+    return this.ibmi.withTempDirectory(async directory => {
+      const file = `${directory}/command.xml`;
+      const pathName = Buffer.from(file, `utf8`);
+
+      //Qlg_Path_Name_T structure: CCSID, country, language, reserved, path type, path length, delimiter, reserved, path
+      const destination = Buffer.alloc(32 + pathName.length);
+      destination.writeInt32BE(1208, 0);
+      destination.writeInt32BE(pathName.length, 16);
+      destination.write(`/`, 20);
+      pathName.copy(destination, 32);
+
+      //Parameters: qualified command name, destination details, destination format, receiver variable (unused with DEST0200), receiver format, error code
+      const result = await this.ibmi.runCommand({
+        command: `CALL PGM(QSYS/QCDRCMDD) PARM('${qualifiedName}' X'${destination.toString(`hex`).toUpperCase()}' 'DEST0200' ' ' 'CMDD0100' X'00000000')`
+      });
+
+      if (result.code !== 0) {
+        throw new Error(result.stderr);
+      }
+
+      return CLCommand.parseDefinition(await this.downloadStreamfile(file));
+    });
+  }
+
+  /**
+   * Get list of active jobs
+   * @param filter optional criterias (current user, subsystem, job status) used to list the jobs
+   * @returns an array of IBMiJob
+   */
+  async getActiveJobs(filter: { user?: string, subsystem?: string, status?: string } = {}): Promise<IBMiJob[]> {
+    const parameters = [
+      filter.subsystem ? `SUBSYSTEM_LIST_FILTER => '${this.ibmi.upperCaseName(filter.subsystem)}'` : ``,
+      filter.user ? `CURRENT_USER_LIST_FILTER => '${this.ibmi.upperCaseName(filter.user)}'` : ``
+    ].filter(Boolean);
+
+    const results = await this.ibmi.runSQL([
+      `select`,
+      `  JOB_NAME,`,
+      `  JOB_NAME_SHORT,`,
+      `  JOB_USER,`,
+      `  JOB_NUMBER,`,
+      `  JOB_TYPE,`,
+      `  JOB_STATUS,`,
+      `  SUBSYSTEM,`,
+      `  AUTHORIZATION_NAME,`,
+      `  FUNCTION,`,
+      `  ELAPSED_CPU_PERCENTAGE,`,
+      `  THREAD_COUNT`,
+      `from table(QSYS2.ACTIVE_JOB_INFO(${parameters.join(`, `)}))`,
+      filter.status ? `where JOB_STATUS = '${filter.status.toUpperCase()}'` : ``,
+      `order by SUBSYSTEM, JOB_NAME_SHORT, JOB_NUMBER`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      job: String(result.JOB_NAME),
+      name: String(result.JOB_NAME_SHORT),
+      user: String(result.JOB_USER),
+      number: String(result.JOB_NUMBER),
+      type: String(result.JOB_TYPE),
+      status: String(result.JOB_STATUS),
+      subsystem: result.SUBSYSTEM ? String(result.SUBSYSTEM) : undefined,
+      currentUser: result.AUTHORIZATION_NAME ? String(result.AUTHORIZATION_NAME) : undefined,
+      function: result.FUNCTION ? String(result.FUNCTION) : undefined,
+      cpuPercentage: Number(result.ELAPSED_CPU_PERCENTAGE),
+      threads: Number(result.THREAD_COUNT)
+    } as IBMiJob));
+  }
+
+  /**
+   * @param job qualified job name
+   * @param option `*CNTRLD` or `*IMMED`
+   * @throws an Error if the job could not be ended
+   */
+  endJob(job: string, option: "*CNTRLD" | "*IMMED" = `*CNTRLD`) {
+    return this.runCheckedCommand(this.toCl(`ENDJOB`, { job, option }));
+  }
+
+  /**
+   * @param job qualified job name
+   * @throws an Error if the job could not be held
+   */
+  holdJob(job: string) {
+    return this.runCheckedCommand(this.toCl(`HLDJOB`, { job }));
+  }
+
+  /**
+   * @param job qualified job name
+   * @throws an Error if the job could not be released
+   */
+  releaseJob(job: string) {
+    return this.runCheckedCommand(this.toCl(`RLSJOB`, { job }));
+  }
+
+  /**
+   * @param job qualified job name; the job must still be known to the system.
+   * Can also be a table holding a copy of `QSYS2.JOBLOG_INFO`.
+   * @returns the job log messages, oldest first
+   */
+  async getJobLog(job: string | QsysPath): Promise<IBMiJobLogMessage[]> {
+    const source = typeof job === `string` ? `table(QSYS2.JOBLOG_INFO('${job}'))` : `${job.library}.${job.name}`;
+
+    const results = await this.ibmi.runSQL([
+      `select`,
+      `  MESSAGE_ID,`,
+      `  MESSAGE_TYPE,`,
+      `  SEVERITY,`,
+      `  extract(epoch from (MESSAGE_TIMESTAMP))*1000 as MESSAGE_TIMESTAMP,`,
+      `  FROM_PROGRAM,`,
+      `  FROM_LIBRARY,`,
+      `  MESSAGE_TEXT,`,
+      `  MESSAGE_SECOND_LEVEL_TEXT`,
+      `from ${source}`,
+      `order by ORDINAL_POSITION`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      id: String(result.MESSAGE_ID || ``),
+      type: String(result.MESSAGE_TYPE),
+      severity: Number(result.SEVERITY),
+      timestamp: result.MESSAGE_TIMESTAMP ? new Date(Number(result.MESSAGE_TIMESTAMP)) : undefined,
+      fromProgram: String(result.FROM_PROGRAM || ``),
+      fromLibrary: result.FROM_LIBRARY ? String(result.FROM_LIBRARY) : undefined,
+      text: String(result.MESSAGE_TEXT || ``),
+      secondLevelText: result.MESSAGE_SECOND_LEVEL_TEXT ? String(result.MESSAGE_SECOND_LEVEL_TEXT) : undefined
+    } as IBMiJobLogMessage));
+  }
+
+  /**
+   * @param job qualified job name; the job must be active
+   * @returns the call stack entries of every thread of the job, the oldest entry first
+   */
+  async getCallStack(job: string): Promise<IBMiCallStackEntry[]> {
+    const results = await this.ibmi.runSQL([
+      `select`,
+      `  THREAD_ID,`,
+      `  ENTRY_TYPE,`,
+      `  PROGRAM_NAME,`,
+      `  PROGRAM_LIBRARY_NAME,`,
+      `  MODULE_NAME,`,
+      `  PROCEDURE_NAME,`,
+      `  STATEMENT_IDENTIFIERS`,
+      `from table(QSYS2.STACK_INFO('${job}', 'ALL'))`,
+      `order by THREAD_ID, ORDINAL_POSITION`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      type: String(result.ENTRY_TYPE),
+      program: String(result.PROGRAM_NAME || ``),
+      library: String(result.PROGRAM_LIBRARY_NAME || ``),
+      module: result.MODULE_NAME ? String(result.MODULE_NAME) : undefined,
+      procedure: result.PROCEDURE_NAME ? String(result.PROCEDURE_NAME) : undefined,
+      statements: result.STATEMENT_IDENTIFIERS ? String(result.STATEMENT_IDENTIFIERS) : undefined,
+      thread: Number(result.THREAD_ID)
+    } as IBMiCallStackEntry));
+  }
+
+  /**
+   * @param queue the message queue
+   * @returns the messages of the queue, the newest first. Replies are not listed but attached to their inquiry message.
+   */
+  async getMessageQueueMessages(queue: QsysPath): Promise<IBMiQueuedMessage[]> {
+    const library = this.ibmi.upperCaseName(queue.library);
+    const name = this.ibmi.upperCaseName(queue.name);
+
+    const results = await this.ibmi.runSQL([
+      `select`,
+      `  hex(M.MESSAGE_KEY) as MESSAGE_KEY,`,
+      `  M.MESSAGE_ID,`,
+      `  M.MESSAGE_TYPE,`,
+      `  M.SEVERITY,`,
+      `  extract(epoch from (M.MESSAGE_TIMESTAMP))*1000 as MESSAGE_TIMESTAMP,`,
+      `  M.FROM_USER,`,
+      `  M.FROM_JOB,`,
+      `  M.FROM_PROGRAM,`,
+      `  M.MESSAGE_TEXT,`,
+      `  M.MESSAGE_SECOND_LEVEL_TEXT,`,
+      `  case when R.MESSAGE_KEY is null then 0 else 1 end as REPLIED,`,
+      `  R.MESSAGE_TEXT as REPLY`,
+      `from QSYS2.MESSAGE_QUEUE_INFO M`,
+      `left join QSYS2.MESSAGE_QUEUE_INFO R on R.MESSAGE_QUEUE_LIBRARY = M.MESSAGE_QUEUE_LIBRARY and R.MESSAGE_QUEUE_NAME = M.MESSAGE_QUEUE_NAME`,
+      `  and R.MESSAGE_TYPE = 'REPLY' and R.ASSOCIATED_MESSAGE_KEY = M.MESSAGE_KEY`,
+      `where M.MESSAGE_QUEUE_LIBRARY = '${library}' and M.MESSAGE_QUEUE_NAME = '${name}' and M.MESSAGE_TYPE <> 'REPLY'`,
+      `order by M.MESSAGE_TIMESTAMP desc`
+    ].join(`\n`));
+
+    return results.map(result => ({
+      key: String(result.MESSAGE_KEY),
+      id: String(result.MESSAGE_ID || ``),
+      type: String(result.MESSAGE_TYPE),
+      severity: Number(result.SEVERITY),
+      text: String(result.MESSAGE_TEXT || ``),
+      secondLevelText: result.MESSAGE_SECOND_LEVEL_TEXT ? String(result.MESSAGE_SECOND_LEVEL_TEXT) : undefined,
+      timestamp: result.MESSAGE_TIMESTAMP ? new Date(Number(result.MESSAGE_TIMESTAMP)) : undefined,
+      fromUser: result.FROM_USER ? String(result.FROM_USER) : undefined,
+      fromJob: result.FROM_JOB ? String(result.FROM_JOB) : undefined,
+      fromProgram: result.FROM_PROGRAM ? String(result.FROM_PROGRAM) : undefined,
+      reply: Number(result.REPLIED) ? String(result.REPLY || ``) : undefined
+    } as IBMiQueuedMessage));
+  }
+
+  /**
+   * Sends a reply to an inquiry message, using the QMHSNDRM API
+   * @param queue the message queue holding the inquiry message
+   * @param key the inquiry message key
+   * @param reply the reply; an empty reply sends the message's default reply
+   * @throws an Error if the reply could not be sent
+   */
+  replyToMessage(queue: QsysPath, key: string, reply: string) {
+    return this.runCheckedCommand(`CALL PGM(QSYS/QMHSNDRM) PARM(X'${key}' '${qualifiedObjectName(queue)}' '${reply.replace(/'/g, `''`)}' X'${toHexBinary(reply.length)}' '*NO' X'00000000')`);
+  }
+
+  /**
+   * Removes a message from a queue, using the QMHRMVM API
+   * @param queue the message queue
+   * @param key the message key
+   * @throws an Error if the message could not be removed
+   */
+  removeMessage(queue: QsysPath, key: string) {
+    return this.runCheckedCommand(`CALL PGM(QSYS/QMHRMVM) PARM('${qualifiedObjectName(queue)}' X'${key}' '*BYKEY' X'00000000')`);
+  }
+
+  /**
+   * Sends an informational message to a user
+   * @param text the message
+   * @param user the user profile receiving the message
+   * @throws an Error if the message could not be sent
+   */
+  sendMessage(text: string, user: string) {
+    return this.runCheckedCommand(`SNDMSG MSG('${text.replace(/'/g, `''`)}') TOUSR(${this.ibmi.upperCaseName(user)})`);
+  }
+
+  /**
+   * Runs a CL command
+   * @throws an Error holding the command's messages if it failed
+   */
+  private async runCheckedCommand(command: string) {
+    const result = await this.ibmi.runCommand({ command, noLibList: true });
+    if (result.code !== 0) {
+      throw new Error(result.stderr);
+    }
+  }
+
   async memberResolve(member: string, files: QsysPath[]): Promise<IBMiMember | undefined> {
     const inAmerican = (s: string) => { return this.ibmi.sysNameInAmerican(s) };
     const inLocal = (s: string) => { return this.ibmi.sysNameInLocal(s) };
@@ -952,7 +1644,7 @@ export default class IBMiContent {
       // If it's an object, we assume it's a member, therefore let's let qsh handle it (better for variants)
       localPath.asp = localPath.asp ? this.ibmi.sysNameInAmerican(localPath.asp) : undefined;
       localPath.library = this.ibmi.sysNameInAmerican(localPath.library);
-      localPath.name = this.ibmi.sysNameInAmerican(localPath.name);
+      localPath.name = localPath.name ? this.ibmi.sysNameInAmerican(localPath.name) : localPath.name;
       localPath.member = localPath.member ? this.ibmi.sysNameInAmerican(localPath.member) : undefined;
       target = Tools.qualifyPath(localPath.library, localPath.name, localPath.member || '', localPath.asp || '', true);
     } else {
@@ -1004,6 +1696,121 @@ export default class IBMiContent {
     return { valid: !Boolean(missing.length), missing };
   }
 
+  /**
+   * Lists the owner, the authorization list, the public authority and the private authorities of an object
+   * @param target an IFS path or a QSYS object
+   */
+  async getAuthorities(target: AuthorityTarget): Promise<IBMiObjectAuthorities> {
+    let ownership: Tools.DB2Row | undefined;
+    let privileges: Tools.DB2Row[];
+    const authorityColumns = [...Object.keys(OBJECT_AUTHORITIES), ...Object.keys(DATA_AUTHORITIES)];
+    if (typeof target === `string`) {
+      [ownership] = await this.ibmi.runSQL(
+        `select OBJECT_OWNER as OWNER, PRIMARY_GROUP, AUTHORIZATION_LIST from table(QSYS2.IFS_OBJECT_STATISTICS(START_PATH_NAME => ?, SUBTREE_DIRECTORIES => 'NO')) where PATH_NAME = ?`,
+        { fakeBindings: [target, target] }
+      );
+      privileges = await this.ibmi.runSQL(
+        `select AUTHORIZATION_NAME, DATA_AUTHORITY as AUTHORITY, ${authorityColumns.filter(column => column !== `AUTHORIZATION_LIST_MANAGEMENT`).join(`, `)} ` +
+        `from table(QSYS2.IFS_OBJECT_PRIVILEGES(PATH_NAME => ?))`,
+        { fakeBindings: [target] }
+      );
+    }
+    else {
+      privileges = await this.ibmi.runSQL(
+        `select AUTHORIZATION_NAME, OBJECT_AUTHORITY as AUTHORITY, OWNER, PRIMARY_GROUP, AUTHORIZATION_LIST, ${authorityColumns.join(`, `)} ` +
+        `from QSYS2.OBJECT_PRIVILEGES where SYSTEM_OBJECT_SCHEMA = ? and SYSTEM_OBJECT_NAME = ? and OBJECT_TYPE = ?`,
+        { fakeBindings: [this.ibmi.upperCaseName(target.library), this.ibmi.upperCaseName(target.name), target.type.toUpperCase()] }
+      );
+      ownership = privileges[0];
+    }
+
+    if (!ownership) {
+      throw new Error(`No authority found for ${typeof target === `string` ? target : `${target.library}/${target.name}`}`);
+    }
+
+    const granted = (row: Tools.DB2Row, authorities: Record<string, string>) => Object.entries(authorities).filter(([column]) => row[column] === `YES`).map(([, authority]) => authority);
+    const authorizationList = ownership.AUTHORIZATION_LIST ? String(ownership.AUTHORIZATION_LIST) : undefined;
+    return {
+      owner: String(ownership.OWNER),
+      primaryGroup: ownership.PRIMARY_GROUP && ownership.PRIMARY_GROUP !== `*NONE` ? String(ownership.PRIMARY_GROUP) : undefined,
+      authorizationList: authorizationList !== `*NONE` ? authorizationList : undefined,
+      publicAuthority: privileges.find(row => row.AUTHORIZATION_NAME === `*PUBLIC`)?.AUTHORITY as string | undefined,
+      privateAuthorities: privileges.filter(row => row.AUTHORIZATION_NAME !== `*PUBLIC`)
+        .map(row => ({
+          user: String(row.AUTHORIZATION_NAME),
+          authority: String(row.AUTHORITY),
+          objectAuthorities: granted(row, OBJECT_AUTHORITIES),
+          dataAuthorities: granted(row, DATA_AUTHORITIES)
+        }))
+    };
+  }
+
+  /**
+   * Grants authorities to users, replacing the authorities they already had.
+   * @param target an IFS path or a QSYS object
+   * @param users the user profiles, group profiles or `*PUBLIC`
+   * @param authorities for QSYS objects, the `AUT` values of `GRTOBJAUT` (`*USE`, `*CHANGE`, `*OBJMGT`...).
+   * For IFS objects, a data authority (`*RWX`, `*RX`, `*EXCLUDE`...) and/or object authorities (`*OBJEXIST`, `*ALL`...)
+   * @throws an Error if the command fails
+   */
+  async grantAuthority(target: AuthorityTarget, users: string[], authorities: string[]) {
+    const user = users.map(user => this.ibmi.upperCaseName(user)).join(` `);
+    if (typeof target === `string`) {
+      const upperCased = authorities.map(authority => authority.toUpperCase());
+      const dataAuthority = upperCased.find(authority => IFS_DATA_AUTHORITY.test(authority));
+      const objectAuthorities = upperCased.filter(authority => authority !== dataAuthority);
+      await this.runCheckedCommand(`CHGAUT OBJ('${target.replace(/'/g, `''`)}') USER(${user}) DTAAUT(${dataAuthority || `*SAME`}) OBJAUT(${objectAuthorities.join(` `) || `*SAME`})`);
+    }
+    else {
+      await this.runCheckedCommand(this.toCl(`GRTOBJAUT`, {
+        ...this.toObjectParameters(target),
+        user,
+        aut: authorities.join(` `).toUpperCase(),
+        replace: `*YES`
+      }));
+    }
+  }
+
+  /**
+   * Removes the private authorities of users
+   * @param target an IFS path or a QSYS object
+   * @param users the user or group profiles
+   * @throws an Error if the command fails
+   */
+  async revokeAuthority(target: AuthorityTarget, users: string[]) {
+    const user = users.map(user => this.ibmi.upperCaseName(user)).join(` `);
+    if (typeof target === `string`) {
+      await this.runCheckedCommand(`CHGAUT OBJ('${target.replace(/'/g, `''`)}') USER(${user}) DTAAUT(*NONE) OBJAUT(*NONE)`);
+    }
+    else {
+      await this.runCheckedCommand(this.toCl(`RVKOBJAUT`, { ...this.toObjectParameters(target), user, aut: `*ALL` }));
+    }
+  }
+
+  /**
+   * Transfers the ownership of an object
+   * @param target an IFS path or a QSYS object
+   * @param owner the new owner
+   * @param revokeOldOwner `true` to remove the authorities of the current owner
+   * @throws an Error if the command fails
+   */
+  async changeOwner(target: AuthorityTarget, owner: string, revokeOldOwner?: boolean) {
+    const newown = this.ibmi.upperCaseName(owner);
+    if (typeof target === `string`) {
+      await this.runCheckedCommand(`CHGOWN OBJ('${target.replace(/'/g, `''`)}') NEWOWN(${newown}) RVKOLDAUT(${revokeOldOwner ? `*YES` : `*NO`})`);
+    }
+    else {
+      await this.runCheckedCommand(this.toCl(`CHGOBJOWN`, { ...this.toObjectParameters(target), newown, curownaut: revokeOldOwner ? `*REVOKE` : `*SAME` }));
+    }
+  }
+
+  private toObjectParameters(object: QsysPath & { type: string }) {
+    return {
+      obj: `${this.ibmi.upperCaseName(object.library)}/${this.ibmi.upperCaseName(object.name)}`,
+      objtype: object.type.toUpperCase()
+    };
+  }
+
   objectToToolTip(path: string, object: IBMiObject) {
     const tooltip = new MarkdownString(Tools.generateTooltipHtmlTable(path, {
       "Type": object.type,
@@ -1053,6 +1860,22 @@ export default class IBMiContent {
     return tooltip;
   }
 
+  spooledFileToToolTip(path: string, spooledFile: IBMiSpooledFile) {
+    const tooltip = new MarkdownString(Tools.generateTooltipHtmlTable(path, {
+      "Number": spooledFile.number,
+      "Status": spooledFile.status,
+      "Job": spooledFile.job,
+      "Output queue": `${spooledFile.queue.library}/${spooledFile.queue.name}`,
+      "User data": spooledFile.userData,
+      "Form type": spooledFile.formType,
+      "Pages": spooledFile.pages,
+      "Size": spooledFile.size,
+      "Created": safeIsoValue(spooledFile.created)
+    }));
+    tooltip.supportHtml = true;
+    return tooltip;
+  }
+
   async getSshCcsid() {
     const sql = `
     with SSH_DETAIL (id, iid) as (
@@ -1116,4 +1939,38 @@ function safeIsoValue(date: Date | undefined) {
   } catch (e) {
     return `Unknown`;
   }
-}
\ No newline at end of file
+}
+/**
+ * @returns the 20 characters qualified name (`NAME      LIBRARY   `) expected by the system APIs
+ */
+function qualifiedObjectName(object: QsysPath) {
+  return `${object.name.toUpperCase().padEnd(10)}${object.library.toUpperCase().padEnd(10)}`;
+}
+
+/**
+ * @returns the hexadecimal representation of a 4 bytes binary value
+ */
+function toHexBinary(value: number) {
+  return value.toString(16).toUpperCase().padStart(8, `0`);
+}
+
+function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, `""`)}"`;
+}
+
+/**
+ * Turns values into parameter markers to be used along with `fakeBindings`. `null` values are inlined as `NULL`.
+ */
+function toSqlValues(values: (string | number | null)[]) {
+  const bindings: (string | number)[] = [];
+  const markers = values.map(value => {
+    if (value === null) {
+      return `NULL`;
+    }
+    else {
+      bindings.push(value);
+      return `?`;
+    }
+  });
+  return { markers, bindings };
+}
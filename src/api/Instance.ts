@@ -1,6 +1,7 @@
+import { AsyncLocalStorage } from "async_hooks";
 import * as vscode from "vscode";
 import { ConnectionData, IBMiEvent } from "../typings";
-import { ConnectionConfiguration } from "./Configuration";
+import { ConnectionConfiguration, ConnectionManager } from "./Configuration";
 import IBMi, { ConnectionResult } from "./IBMi";
 import { ConnectionStorage, GlobalStorage } from "./Storage";
 import { Tools } from "./Tools";
@@ -20,16 +21,21 @@ export interface ConnectionOptions {
 }
 
 export default class Instance {
-  private connection: IBMi | undefined;
+  private readonly connections: Map<string, IBMi> = new Map;
+  private activeConnection: IBMi | undefined;
+  /** The connection a task runs for, see {@link runWith} */
+  private readonly scope = new AsyncLocalStorage<IBMi>();
+  private readonly context: vscode.ExtensionContext;
   private storage: ConnectionStorage;
-  private emitter: vscode.EventEmitter<IBMiEvent> = new vscode.EventEmitter();
+  private emitter: vscode.EventEmitter<{ event: IBMiEvent, connection?: IBMi }> = new vscode.EventEmitter();
   private subscribers: Map<IBMiEvent, SubscriptionMap> = new Map;
 
   private deprecationCount = 0; //TODO: remove in v3.0.0
 
   constructor(context: vscode.ExtensionContext) {
+    this.context = context;
     this.storage = new ConnectionStorage(context);
-    this.emitter.event(e => this.processEvent(e));
+    this.emitter.event(e => this.processEvent(e.event, e.connection));
   }
 
   connect(options: ConnectionOptions): Promise<ConnectionResult> {
@@ -54,7 +60,7 @@ export default class Instance {
           });
         }
 
-        this.disconnect();
+        this.disconnect(conn.currentConnectionName);
 
         if (reconnect) {
           await this.connect({...options, reconnecting: true});
@@ -71,11 +77,15 @@ export default class Instance {
         }
 
         if (result.success) {
-          await this.setConnection(connection);
+          if (result.passwordChanged && options.data.password && await ConnectionManager.getStoredPassword(this.context, options.data.name)) {
+            // The expired password was changed while signing on
+            await ConnectionManager.setStoredPassword(this.context, options.data.name, options.data.password);
+          }
+
+          await this.addConnection(connection);
           break;
 
         } else {
-          await this.disconnect();
           if (options.reconnecting && await vscode.window.showWarningMessage(`Could not reconnect`, {
             modal: true,
             detail: `Reconnection has failed. Would you like to try again?\n\n${result.error || `No error provided.`}`
@@ -98,8 +108,15 @@ export default class Instance {
     });
   }
 
-  async disconnect() {
-    await this.setConnection();
+  /**
+   * Ends a connection; the other connections stay active
+   * @param name the name of the connection to end, the active connection by default
+   */
+  async disconnect(name?: string) {
+    const connection = this.getConnection(name);
+    if (connection) {
+      await this.removeConnection(connection);
+    }
       
     await Promise.all([
       vscode.commands.executeCommand("code-for-ibmi.refreshObjectBrowser"),
@@ -108,37 +125,87 @@ export default class Instance {
     ]);
   }
 
-  private async setConnection(connection?: IBMi) {
-    if (this.connection) {
-      await this.connection.dispose();
+  private async addConnection(connection: IBMi) {
+    connection.setDisconnectedCallback(async () => {
+      await this.removeConnection(connection);
+      this.fire(`disconnected`, connection);
+    });
+
+    this.connections.set(connection.currentConnectionName, connection);
+    this.setActive(connection);
+    await GlobalStorage.get().setLastConnection(connection.currentConnectionName);
+    this.fire(`connected`, connection);
+
+    await vscode.commands.executeCommand(`setContext`, `code-for-ibmi:connected`, true);
+  }
+
+  private async removeConnection(connection: IBMi) {
+    if (this.connections.get(connection.currentConnectionName) === connection) {
+      this.connections.delete(connection.currentConnectionName);
+      if (this.activeConnection === connection) {
+        const next = this.connections.values().next().value as IBMi | undefined;
+        this.setActive(next);
+        if (next) {
+          this.fire(`switched`, next);
+        }
+      }
+
+      await connection.dispose();
+      await vscode.commands.executeCommand(`setContext`, `code-for-ibmi:connected`, this.connections.size > 0);
     }
+  }
 
-    if (connection) {
-      connection.setDisconnectedCallback(async () => {
-        this.setConnection();
-        this.fire(`disconnected`);
-      });
-
-      this.connection = connection;
-      this.storage.setConnectionName(connection.currentConnectionName);
-      await GlobalStorage.get().setLastConnection(connection.currentConnectionName);
-      this.fire(`connected`);
+  private setActive(connection?: IBMi) {
+    this.activeConnection = connection;
+    this.storage.setConnectionName(connection?.currentConnectionName || "");
+  }
+
+  /**
+   * Makes a connection the active one: it is used by the commands that don't name the connection they run against,
+   * unless they run for another connection with {@link runWith}
+   */
+  async setActiveConnection(name: string) {
+    const connection = this.getConnection(name);
+    if (connection && connection !== this.activeConnection) {
+      this.setActive(connection);
+      this.fire(`switched`, connection);
+    }
+  }
+
+  /**
+   * Runs a task for a connection without making it the active one: until the task ends, the connection is returned by {@link getConnection} when no name is provided.
+   * It lets the commands run against the connection of the item they are given.
+   */
+  runWith<T>(connection: IBMi, task: () => T): T {
+    return this.scope.run(connection, task);
+  }
+
+  /**
+   * @param name the name of a connection; URI authorities can be used as they are, since their case is not preserved
+   * @returns the named connection, or the connection of the running task or else the active connection if no name is provided
+   */
+  getConnection(name?: string) {
+    if (name) {
+      return this.connections.get(name) || Array.from(this.connections.values()).find(connection => connection.currentConnectionName.toLowerCase() === name.toLowerCase());
     }
     else {
-      this.connection = undefined;
-      this.storage.setConnectionName("");
+      const scoped = this.scope.getStore();
+      if (scoped) {
+        // The task does not fall back to another system once its connection has ended
+        return this.connections.get(scoped.currentConnectionName) === scoped ? scoped : undefined;
+      }
+      return this.activeConnection;
     }
-
-    await vscode.commands.executeCommand(`setContext`, `code-for-ibmi:connected`, connection !== undefined);
   }
 
-  getConnection() {
-    return this.connection;
+  getConnections() {
+    return Array.from(this.connections.values());
   }
 
   async setConfig(newConfig: ConnectionConfiguration.Parameters) {
-    if (this.connection) {
-      this.connection.setConfig(newConfig);
+    const connection = this.getConnection(newConfig.name);
+    if (connection) {
+      connection.setConfig(newConfig);
     }
     await ConnectionConfiguration.update(newConfig);
   }
@@ -146,15 +213,15 @@ export default class Instance {
   /**
    * @deprecated Will be removed in `v3.0.0`; use {@link IBMi.getConfig()} instead
    */
-  getConfig() {
-    return this.connection?.getConfig();
+  getConfig(name?: string) {
+    return this.getConnection(name)?.getConfig();
   }
 
   /**
    * @deprecated Will be removed in `v3.0.0`; use {@link IBMi.getContent()} instead
    */
-  getContent() {
-    return this.connection?.getContent();
+  getContent(name?: string) {
+    return this.getConnection(name)?.getContent();
   }
 
   getStorage() {
@@ -191,17 +258,20 @@ export default class Instance {
     console.warn("[Code for IBM i] Deprecation warning: you are using Instance::onEvent which is deprecated and will be removed in v3.0.0. Please use Instance::subscribe instead.");
   }
 
-  fire(event: IBMiEvent) {
-    this.emitter?.fire(event);
+  /**
+   * @param connection the connection the event is about, passed to the subscribers; the active connection by default
+   */
+  fire(event: IBMiEvent, connection?: IBMi) {
+    this.emitter?.fire({ event, connection: connection || this.activeConnection });
   }
 
-  async processEvent(event: IBMiEvent) {
+  async processEvent(event: IBMiEvent, connection?: IBMi) {
     const eventSubscribers = this.getSubscribers(event)
     console.time(event);
     for (const [identity, callable] of eventSubscribers.entries()) {
       try {
         console.time(identity);
-        await callable.func();
+        await callable.func(connection);
         console.timeEnd(identity);
       }
       catch (error) {
@@ -0,0 +1,101 @@
+import os from "os";
+import { ConnectionData } from "../typings";
+
+export type SSHConfigHost = {
+  /** The alias of the `Host` entry */
+  alias: string
+  hostName: string
+  port: number
+  user?: string
+  identityFile?: string
+  proxyJump?: string
+}
+
+type HostBlock = {
+  patterns: string[]
+  options: Map<string, string>
+}
+
+/**
+ * Parses an OpenSSH client configuration, like `~/.ssh/config`.
+ * Each `Host` alias without wildcards gets the options of all the blocks matching it; like `ssh`, the first value found is used.
+ * `Match` blocks and `Include` directives are not supported.
+ */
+export function parseSSHConfig(content: string): SSHConfigHost[] {
+  //Options found before the first Host apply to every host
+  let block: HostBlock | undefined = { patterns: [`*`], options: new Map };
+  const blocks = [block];
+  for (const line of content.split(/\r?\n/)) {
+    const option = /^\s*([A-Za-z]+)\s*(?:=\s*|\s+)(.*?)\s*$/.exec(line);
+    if (option && option[2]) {
+      const keyword = option[1].toLowerCase();
+      if (keyword === `host`) {
+        block = { patterns: splitArguments(option[2]), options: new Map };
+        blocks.push(block);
+      }
+      else if (keyword === `match`) {
+        block = undefined;
+      }
+      else if (block && !block.options.has(keyword)) {
+        block.options.set(keyword, splitArguments(option[2])[0]);
+      }
+    }
+  }
+
+  const aliases = blocks.flatMap(block => block.patterns).filter(pattern => !/[*?!]/.test(pattern));
+  return [...new Set(aliases)].map(alias => {
+    const get = (keyword: string) => blocks.find(block => matches(block.patterns, alias) && block.options.has(keyword))?.options.get(keyword);
+    const hostName = get(`hostname`)?.replace(/%h/g, alias) || alias;
+    const user = get(`user`);
+    return {
+      alias,
+      hostName,
+      port: Number(get(`port`) || 22),
+      user,
+      identityFile: get(`identityfile`)?.replace(/%d/g, `~`).replace(/%h/g, hostName).replace(/%r/g, user || ``),
+      proxyJump: get(`proxyjump`)
+    };
+  });
+}
+
+/**
+ * @param host a host of the SSH configuration
+ * @param hosts all the hosts of the SSH configuration, used to resolve the jump host when it is an alias
+ * @throws an Error if the host uses more than one jump host
+ */
+export function toConnectionData(host: SSHConfigHost, hosts: SSHConfigHost[]): ConnectionData {
+  let jumpHost;
+  let jumpHostPrivateKeyPath;
+  if (host.proxyJump && host.proxyJump.toLowerCase() !== `none`) {
+    if (host.proxyJump.includes(`,`)) {
+      throw new Error(`${host.alias} goes through several jump hosts, which is not supported`);
+    }
+
+    const [, jumpUser, jumpName, jumpPort] = /^(?:([^@]+)@)?([^:]+)(?::(\d+))?$/.exec(host.proxyJump) || [];
+    const jumpAlias = hosts.find(other => other.alias === jumpName);
+    jumpHost = jumpAlias ?
+      `${jumpUser || jumpAlias.user || os.userInfo().username}@${jumpAlias.hostName}:${jumpPort || jumpAlias.port}` :
+      host.proxyJump;
+    jumpHostPrivateKeyPath = jumpAlias?.identityFile;
+  }
+
+  return {
+    name: host.alias,
+    host: host.hostName,
+    port: host.port,
+    username: host.user || os.userInfo().username,
+    privateKeyPath: host.identityFile,
+    jumpHost,
+    jumpHostPrivateKeyPath
+  };
+}
+
+function matches(patterns: string[], alias: string) {
+  const test = (pattern: string) => new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, `\\$&`).replace(/\*/g, `.*`).replace(/\?/g, `.`)}$`, `i`).test(alias);
+  return !patterns.some(pattern => pattern.startsWith(`!`) && test(pattern.substring(1))) &&
+    patterns.some(pattern => !pattern.startsWith(`!`) && test(pattern));
+}
+
+function splitArguments(value: string) {
+  return (value.match(/"[^"]*"|\S+/g) || []).map(argument => argument.replace(/^"(.*)"$/, `$1`));
+}
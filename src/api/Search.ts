@@ -1,4 +1,5 @@
 import * as path from 'path';
+import { CancellationToken } from 'vscode';
 import { GetMemberInfo } from '../components/getMemberInfo';
 import { IBMiMember, SearchHit, SearchResults } from '../typings';
 import { GlobalConfiguration } from './Configuration';
@@ -6,7 +7,11 @@ import Instance from './Instance';
 import { Tools } from './Tools';
 
 export namespace Search {
-  export async function searchMembers(instance: Instance, library: string, sourceFile: string, searchTerm: string, members: string|IBMiMember[], readOnly?: boolean,): Promise<SearchResults> {
+  /**
+   * @param token kills the search when cancelled
+   * @throws a `CancellationError` if the token is cancelled
+   */
+  export async function searchMembers(instance: Instance, library: string, sourceFile: string, searchTerm: string, members: string|IBMiMember[], readOnly?: boolean, token?: CancellationToken): Promise<SearchResults> {
     const connection = instance.getConnection();
     const config = instance.getConfig();
     const content = instance.getContent();
@@ -33,7 +38,7 @@ export namespace Search {
         asp = `/${config.sourceASP}`;
       } else if (connection.enableSQL) {
         try {
-          const [row] = await content.runSQL(`SELECT IASP_NUMBER FROM TABLE(QSYS2.LIBRARY_INFO('${library}'))`);
+          const [row] = (await connection.runStatements({ sql: `SELECT IASP_NUMBER FROM TABLE(QSYS2.LIBRARY_INFO(?))`, parameters: [library] })).rows;
           const iaspNumber = row?.IASP_NUMBER;
           if (iaspNumber && typeof iaspNumber === 'number' && connection.aspInfo[iaspNumber]) {
             asp = `/${connection.aspInfo[iaspNumber]}`;
@@ -44,7 +49,8 @@ export namespace Search {
       // Then search the members
       const result = await connection.sendQsh({
         command: `/usr/bin/grep -inHR -F "${sanitizeSearchTerm(searchTerm)}" ${memberFilter}`,
-        directory: connection.sysNameInAmerican(`${asp}/QSYS.LIB/${library}.LIB/${sourceFile}.FILE`)
+        directory: connection.sysNameInAmerican(`${asp}/QSYS.LIB/${library}.LIB/${sourceFile}.FILE`),
+        token
       });
 
       if (!result.stderr) {
@@ -105,7 +111,7 @@ export namespace Search {
     }
   }
 
-  export async function searchIFS(instance: Instance, path: string, searchTerm: string): Promise<SearchResults | undefined> {
+  export async function searchIFS(instance: Instance, path: string, searchTerm: string, token?: CancellationToken): Promise<SearchResults | undefined> {
     const connection = instance.getConnection();
     if (connection) {
       const grep = connection.remoteFeatures.grep;
@@ -120,7 +126,8 @@ export namespace Search {
 
         const grepRes = await connection.sendCommand({
           command: `${grep} -inr -F -f - ${ignoreString} ${Tools.escapePath(path)}`,
-          stdin: searchTerm
+          stdin: searchTerm,
+          token
         });
 
         if (grepRes.code == 0) {
@@ -138,7 +145,7 @@ export namespace Search {
     }
   }
 
-  export async function findIFS(instance: Instance, path: string, findTerm: string): Promise<SearchResults | undefined> {
+  export async function findIFS(instance: Instance, path: string, findTerm: string, token?: CancellationToken): Promise<SearchResults | undefined> {
     const connection = instance.getConnection();
     if (connection) {
       const find = connection.remoteFeatures.find;
@@ -152,7 +159,8 @@ export namespace Search {
         }
 
         const findRes = await connection.sendCommand({
-          command: `${find} ${Tools.escapePath(path)} ${ignoreString} -type f -iname '*${findTerm}*' -print`
+          command: `${find} ${Tools.escapePath(path)} ${ignoreString} -type f -iname '*${findTerm}*' -print`,
+          token
         });
 
         if (findRes.code == 0 && findRes.stdout) {
@@ -0,0 +1,53 @@
+import vscode from "vscode";
+
+export interface TestSuite {
+  name: string
+  /** Run on its own, after the other suites */
+  notConcurrent?: boolean
+  tests: TestCase[]
+  before?: () => Promise<void>
+  after?: () => Promise<void>
+}
+
+export interface TestCase {
+  name: string
+  test: () => Promise<void>
+}
+
+/**
+ * The test suites run on the connected system, listed in the Testing view.
+ *
+ * They are only run by the development builds of Code for IBM i started with the `base_testing` environment variable.
+ * They run each time a connection is made, which includes the connections set up with a connection fixture.
+ */
+export class TestSuiteRegistry {
+  private readonly suites: Map<string, TestSuite[]> = new Map;
+  private readonly emitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.emitter.event;
+
+  public registerSuite(context: vscode.ExtensionContext, suite: TestSuite): vscode.Disposable {
+    const key = context.extension.id;
+    const extensionSuites = this.suites.get(key);
+    if (extensionSuites) {
+      extensionSuites.push(suite);
+    }
+    else {
+      this.suites.set(key, [suite]);
+    }
+    this.emitter.fire();
+
+    return new vscode.Disposable(() => {
+      const extensionSuites = this.suites.get(key);
+      if (extensionSuites?.includes(suite)) {
+        extensionSuites.splice(extensionSuites.indexOf(suite), 1);
+        this.emitter.fire();
+      }
+    });
+  }
+
+  public getSuites() {
+    return this.suites;
+  }
+}
+
+export const extensionTestSuiteRegistry = new TestSuiteRegistry();
@@ -262,6 +262,13 @@ export namespace Tools {
     return text.charAt(0).toUpperCase() + text.slice(1);
   }
 
+  /**
+   * @returns a size in bytes as B, KB or MB, like `1.5 KB`
+   */
+  export function formatSize(size: number) {
+    return size < 1024 ? `${size} B` : size < 1024 * 1024 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`;
+  }
+
   export function sanitizeObjNamesForPase(libraries: string[]): string[] {
     return libraries
       .map(library => {
@@ -452,6 +459,37 @@ export namespace Tools {
     }
   }
 
+  const cancellableTasks: Map<string, Set<vscode.CancellationTokenSource>> = new Map;
+  /**
+   * Runs a function while a context value is set to true, like {@link withContext}.
+   * The function gets a token that is cancelled when {@link cancelContext} is called with the same context.
+   * 
+   * @param context the context value that will be set to `true` during `task` execution
+   * @param task the function to run while the context value is `true`
+   */
+  export async function withCancellableContext<T>(context: string, task: (token: vscode.CancellationToken) => Promise<T>) {
+    const source = new vscode.CancellationTokenSource();
+    const sources = cancellableTasks.get(context) || new Set;
+    cancellableTasks.set(context, sources.add(source));
+    try {
+      return await withContext(context, () => task(source.token));
+    }
+    finally {
+      sources.delete(source);
+      if (!sources.size) {
+        cancellableTasks.delete(context);
+      }
+      source.dispose();
+    }
+  }
+
+  /**
+   * Cancels all the tasks running with {@link withCancellableContext} for a context
+   */
+  export function cancelContext(context: string) {
+    cancellableTasks.get(context)?.forEach(source => source.cancel());
+  }
+
   /**
    * Converts a timestamp from the attr command (in the form `Thu Dec 21 21:47:02 2023`) into a Date object
    * @param timestamp an attr timestamp string
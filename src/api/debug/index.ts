@@ -440,7 +440,8 @@ export async function startDebug(instance: Instance, options: DebugOptions) {
 
   const serviceDetails = await getDebugServiceDetails();
 
-  const port = config?.debugPort;
+  // The Debug Service is reached through its port forwards when they are enabled
+  const debugAddress = connection!.getServiceAddress(Number(config?.debugPort));
   const updateProductionFiles = config?.debugUpdateProductionFiles;
   const enableDebugTracing = config?.debugEnableDebugTracing;
 
@@ -463,12 +464,12 @@ export async function startDebug(instance: Instance, options: DebugOptions) {
     const formattedDebugString = `${options.library.toUpperCase()}/${options.object.toUpperCase()} ${options.sep.type}/${options.sep.moduleName || `*ALL`}/${options.sep.procedureName || `*ALL`}`;
     vscode.commands.executeCommand(
       `ibmidebug.create-service-entry-point-with-prompt`,
-      connection?.currentHost!,
+      debugAddress.host,
       connection?.currentUser!.toUpperCase(),
       options.password,
       formattedDebugString,
-      Number(config?.debugPort),
-      Number(config?.debugSepPort)
+      debugAddress.port,
+      connection!.getServiceAddress(Number(config?.debugSepPort)).port
     );
 
   } else {
@@ -496,8 +497,8 @@ export async function startDebug(instance: Instance, options: DebugOptions) {
         "name": `IBM i batch debug: program ${options.library.toUpperCase()}/${options.object.toUpperCase()}`,
         "user": connection!.currentUser.toUpperCase(),
         "password": options.password,
-        "host": connection!.currentHost,
-        "port": port,
+        "host": debugAddress.host,
+        "port": debugAddress.port,
         "secure": secure,  // Enforce secure mode
         "ignoreCertificateErrors": !secure,
         "subType": "batch",
@@ -144,22 +144,13 @@ export async function getDebugServerJob() {
  * Gets a list of debug jobs stuck at MSGW in QSYSWRK
  */
 export async function getStuckJobs(connection: IBMi): Promise<string[]> {
-  const sql = [
-    `SELECT JOB_NAME`,
-    `FROM TABLE(QSYS2.ACTIVE_JOB_INFO(SUBSYSTEM_LIST_FILTER => 'QSYSWRK', CURRENT_USER_LIST_FILTER => '${connection.currentUser.toUpperCase()}')) X`,
-    `where JOB_STATUS = 'MSGW'`,
-  ].join(` `);
-
-  const jobs = await connection.runSQL(sql);
-  return jobs.map(row => String(row.JOB_NAME));
+  const jobs = await connection.getContent().getActiveJobs({ subsystem: `QSYSWRK`, user: connection.currentUser, status: `MSGW` });
+  return jobs.map(job => job.job);
 }
 
 export function endJobs(jobIds: string[], connection: IBMi) {
-  const promises = jobIds.map(id => connection.sendCommand({
-    command: `system "ENDJOB JOB(${id}) OPTION(*IMMED)"`
-  }));
-
-  return Promise.all(promises);
+  const content = connection.getContent();
+  return Promise.allSettled(jobIds.map(id => content.endJob(id, `*IMMED`)));
 }
 
 export async function isDebugEngineRunning() {
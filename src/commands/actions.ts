@@ -9,10 +9,9 @@ import { BrowserItem, Action, DeploymentMethod } from "../typings";
 export function registerActionsCommands(instance: Instance): Disposable[] {
   return [
     commands.registerCommand(`code-for-ibmi.runAction`, async (target: TreeItem | BrowserItem | Uri, group?: any, action?: Action, method?: DeploymentMethod, workspaceFolder?: WorkspaceFolder) => {
-      const connection = instance.getConnection()!;
       const editor = window.activeTextEditor;
       let uri;
-      let browserItem;
+      let browserItem: BrowserItem | undefined;
       if (target) {
         if ("fsPath" in target) {
           uri = target;
@@ -28,6 +27,8 @@ export function registerActionsCommands(instance: Instance): Disposable[] {
       uri = uri || editor?.document.uri;
 
       if (uri) {
+        // The members and streamfiles run against the connection they come from
+        const connection = instance.getConnection([`member`, `streamfile`].includes(uri.scheme) && uri.authority || undefined);
         if (connection) {
           const config = connection.getConfig();
           let canRun = true;
@@ -55,7 +56,8 @@ export function registerActionsCommands(instance: Instance): Disposable[] {
           }
 
           if (canRun && [`member`, `streamfile`, `file`, 'object'].includes(uri.scheme)) {
-            return await CompileTools.runAction(instance, uri, action, method, browserItem, workspaceFolder);
+            const actionUri = uri;
+            return await instance.runWith(connection, () => CompileTools.runAction(instance, actionUri, action, method, browserItem, workspaceFolder));
           }
         }
         else {
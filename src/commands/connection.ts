@@ -1,7 +1,7 @@
-import { commands, Disposable, ExtensionContext, window } from "vscode";
+import { commands, Disposable, ExtensionContext, l10n, window } from "vscode";
 import { ConnectionManager } from "../api/Configuration";
 import Instance from "../api/Instance";
-import { ConnectionData } from "../typings";
+import { ConnectionData, Server } from "../typings";
 import { safeDisconnect } from "../instantiate";
 
 export function registerConnectionCommands(context: ExtensionContext, instance: Instance): Disposable[] {
@@ -9,7 +9,7 @@ export function registerConnectionCommands(context: ExtensionContext, instance:
   return [
     commands.registerCommand(`code-for-ibmi.connectDirect`,
       async (connectionData: ConnectionData, reloadSettings = false, savePassword = false): Promise<boolean> => {
-        const existingConnection = instance.getConnection();
+        const existingConnection = instance.getConnection(connectionData.name);
 
         if (existingConnection) {
           return false;
@@ -22,12 +22,26 @@ export function registerConnectionCommands(context: ExtensionContext, instance:
         return (await instance.connect({data: connectionData, reloadServerSettings: reloadSettings})).success;
       }
     ),
-    commands.registerCommand(`code-for-ibmi.disconnect`, async (silent?: boolean) => {
-      if (instance.getConnection()) {
-        await safeDisconnect();
-      } else if (!silent) {
+    commands.registerCommand(`code-for-ibmi.disconnect`, async (target?: boolean | Server) => {
+      const name = typeof target === `object` ? target.name : undefined;
+      if (instance.getConnection(name)) {
+        await safeDisconnect(name);
+      } else if (target !== true) {
         window.showErrorMessage(`Not currently connected to any system.`);
       }
     }),
+    commands.registerCommand(`code-for-ibmi.switchConnection`, async (server?: Server) => {
+      const active = instance.getConnection();
+      const name = server?.name || (await window.showQuickPick(
+        instance.getConnections()
+          .filter(connection => connection !== active)
+          .map(connection => ({ label: connection.currentConnectionName, description: `${connection.currentUser}@${connection.currentHost}` })),
+        { title: l10n.t(`Switch to connection`) }
+      ))?.label;
+
+      if (name) {
+        await instance.setActiveConnection(name);
+      }
+    }),
   ]
 }
\ No newline at end of file
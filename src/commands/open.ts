@@ -4,9 +4,11 @@ import { MemberItem, OpenEditableOptions, WithPath } from "../typings";
 import Instance from "../api/Instance";
 import { Tools } from "../api/Tools";
 import { getUriFromPath, parseFSOptions } from "../filesystems/qsys/QSysFs";
+import { MemberLocks } from "../filesystems/qsys/memberLocks";
 import { DefaultOpenMode, GlobalConfiguration } from "../api/Configuration";
 import path from "path";
 import { GetMemberInfo } from "../components/getMemberInfo";
+import { registerItemCommand } from "../instantiate";
 
 const CLEAR_RECENT = `$(trash) Clear recently opened`;
 const CLEAR_CACHED = `$(trash) Clear cached`;
@@ -29,6 +31,18 @@ export function registerOpenCommands(instance: Instance): Disposable[] {
           if (!writable) {
             options.readonly = true;
           }
+          else if (MemberLocks.isEnabled()) {
+            try {
+              const lock = await MemberLocks.acquire(connection, path);
+              if (!lock.locked) {
+                options.readonly = true;
+                window.showInformationMessage(l10n.t(`{0} is being edited by {1} in job {2}. It is opened read-only.`, path, lock.job.split(`/`)[1] || lock.job, lock.job));
+              }
+            }
+            catch (e: any) {
+              window.showWarningMessage(l10n.t(`{0} could not be locked for edit: {1}`, path, e.message || String(e)));
+            }
+          }
         }
       }
 
@@ -39,6 +53,10 @@ export function registerOpenCommands(instance: Instance): Disposable[] {
       if (existingUri) {
         const existingOptions = parseFSOptions(existingUri);
         if (existingOptions.readonly !== options.readonly) {
+          if (!options.readonly && uri.scheme === `member`) {
+            // Only opened read-only: the lock just taken is not needed
+            MemberLocks.release(uri).catch(() => undefined);
+          }
           window.showWarningMessage(`The file is already opened in another mode.`);
           window.showTextDocument(existingUri);
           return false;
@@ -70,15 +88,15 @@ export function registerOpenCommands(instance: Instance): Disposable[] {
       }
     }),
 
-    commands.registerCommand("code-for-ibmi.browse", (item: WithPath | MemberItem) => {
+    registerItemCommand("code-for-ibmi.browse", (item: WithPath | MemberItem) => {
       return commands.executeCommand("code-for-ibmi.openWithDefaultMode", item, "browse" as DefaultOpenMode);
     }),
 
-    commands.registerCommand("code-for-ibmi.edit", (item: WithPath | MemberItem) => {
+    registerItemCommand("code-for-ibmi.edit", (item: WithPath | MemberItem) => {
       return commands.executeCommand("code-for-ibmi.openWithDefaultMode", item, "edit" as DefaultOpenMode);
     }),
 
-    commands.registerCommand("code-for-ibmi.openWithDefaultMode", (item: WithPath, overrideMode?: DefaultOpenMode, position?: Range) => {
+    registerItemCommand("code-for-ibmi.openWithDefaultMode", (item: WithPath, overrideMode?: DefaultOpenMode, position?: Range) => {
       const readonly = (overrideMode || GlobalConfiguration.get<DefaultOpenMode>("defaultOpenMode")) === "browse";
       commands.executeCommand(`code-for-ibmi.openEditable`, item.path, { readonly, position } as OpenEditableOptions);
     }),
@@ -1,6 +1,15 @@
-import { commands, extensions, window, Disposable, ExtensionContext } from "vscode";
+import { commands, extensions, l10n, window, Disposable, ExtensionContext } from "vscode";
 import { ConnectionManager } from "../api/Configuration";
+import { CustomUI } from "../api/CustomUI";
 import Instance from "../api/Instance";
+import { Server } from "../typings";
+
+type ChangePasswordData = {
+  currentPassword: string
+  newPassword: string
+  confirmPassword: string
+  buttons: 'change' | 'cancel'
+}
 
 
 const passwordAttempts: { [extensionId: string]: number } = {}
@@ -82,6 +91,49 @@ export function registerPasswordCommands(context: ExtensionContext, instance: In
           }
         }
       }
+    }),
+
+    commands.registerCommand(`code-for-ibmi.changePassword`, async (server?: Server) => {
+      const connection = instance.getConnection(server?.name);
+      if (!connection) {
+        window.showErrorMessage(server ? l10n.t(`Connect to {0} to change its password.`, server.name) : l10n.t(`Not currently connected to any system.`));
+        return;
+      }
+
+      const name = connection.currentConnectionName;
+      const user = connection.currentUser.toUpperCase();
+      const page = await new CustomUI()
+        .addParagraph(l10n.t(`Change the password of {0} on {1}.`, user, connection.currentHost))
+        .addPassword(`currentPassword`, l10n.t(`Current password`))
+        .addPassword(`newPassword`, l10n.t(`New password`))
+        .addPassword(`confirmPassword`, l10n.t(`Confirm new password`))
+        .addButtons({ id: `change`, label: l10n.t(`Change password`), requiresValidation: true }, { id: `cancel`, label: l10n.t(`Cancel`) })
+        .loadPage<ChangePasswordData>(l10n.t(`Change password - {0}`, name));
+
+      if (page?.data) {
+        page.panel.dispose();
+        const data = page.data;
+        if (data.buttons === `change`) {
+          if (!data.currentPassword || !data.newPassword) {
+            window.showErrorMessage(l10n.t(`The current and new passwords are required.`));
+          }
+          else if (data.newPassword !== data.confirmPassword) {
+            window.showErrorMessage(l10n.t(`The new passwords do not match.`));
+          }
+          else {
+            try {
+              await connection.changePassword(data.currentPassword, data.newPassword);
+              if (await ConnectionManager.getStoredPassword(context, name)) {
+                await ConnectionManager.setStoredPassword(context, name, data.newPassword);
+              }
+              window.showInformationMessage(l10n.t(`The password of {0} has been changed.`, user));
+            }
+            catch (e: any) {
+              window.showErrorMessage(l10n.t(`Could not change the password of {0}: {1}`, user, e.message || String(e)));
+            }
+          }
+        }
+      }
     })
   ]
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { createPublicKey, generateKeyPairSync } from "crypto";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import * as node_ssh from "node-ssh";
+import os from "os";
+import path from "path";
+import { commands, Disposable, ExtensionContext, l10n, ProgressLocation, window } from "vscode";
+import { ConnectionManager } from "../api/Configuration";
+import IBMi from "../api/IBMi";
+import Instance from "../api/Instance";
+import { Tools } from "../api/Tools";
+import { Server } from "../typings";
+
+export function registerSSHKeyCommands(context: ExtensionContext, instance: Instance): Disposable[] {
+  return [
+    commands.registerCommand(`code-for-ibmi.setupSSHKey`, async (server?: Server) => {
+      const connection = instance.getConnection(server?.name);
+      if (!connection) {
+        window.showErrorMessage(server ? l10n.t(`Connect to {0} to set up its SSH key.`, server.name) : l10n.t(`Not currently connected to any system.`));
+        return;
+      }
+
+      const name = connection.currentConnectionName;
+      const stored = ConnectionManager.getByName(name);
+      if (!stored) {
+        return;
+      }
+      else if (stored.data.privateKeyPath) {
+        window.showInformationMessage(l10n.t(`{0} already uses the private key {1}.`, name, stored.data.privateKeyPath));
+        return;
+      }
+
+      const keyPath = await window.showInputBox({
+        title: l10n.t(`Set up an SSH key for {0}`, name),
+        prompt: l10n.t(`Where to save the private key; the public key is saved next to it with the .pub extension`),
+        value: path.join(os.homedir(), `.ssh`, `${name.replace(/[^\w.-]/g, `_`)}_rsa`),
+        validateInput: value => !value.trim() ? l10n.t(`The path is required`) :
+          existsSync(Tools.resolvePath(value.trim())) ? l10n.t(`{0} already exists`, value) :
+            undefined
+      });
+
+      if (keyPath) {
+        const privateKeyPath = Tools.resolvePath(keyPath.trim());
+        try {
+          await window.withProgress({ location: ProgressLocation.Notification, title: l10n.t(`Setting up an SSH key for {0}`, name) }, async progress => {
+            progress.report({ message: l10n.t(`Generating the key pair`) });
+            const { privateKey, publicKey } = generateKeyPair(`${connection.currentUser}@${connection.currentHost}`);
+            mkdirSync(path.dirname(privateKeyPath), { recursive: true, mode: 0o700 });
+            writeFileSync(privateKeyPath, privateKey, { mode: 0o600 });
+            writeFileSync(`${privateKeyPath}.pub`, `${publicKey}\n`);
+
+            progress.report({ message: l10n.t(`Authorizing the public key`) });
+            await authorizeKey(connection, publicKey);
+
+            progress.report({ message: l10n.t(`Checking the key`) });
+            await checkKey(connection, privateKeyPath);
+          });
+        }
+        catch (e: any) {
+          window.showErrorMessage(l10n.t(`Could not set up the SSH key for {0}: {1}`, name, e.message || String(e)));
+          return;
+        }
+
+        stored.data.privateKeyPath = Tools.normalizePath(privateKeyPath);
+        await ConnectionManager.updateByIndex(stored.index, stored.data);
+        await ConnectionManager.deleteStoredPassword(context, name);
+        commands.executeCommand(`code-for-ibmi.refreshConnections`);
+        window.showInformationMessage(l10n.t(`{0} now connects with the private key {1}; its password has been removed.`, name, stored.data.privateKeyPath));
+      }
+    })
+  ];
+}
+
+/**
+ * Generates an RSA key pair: the private key uses the PEM format and the public key the `authorized_keys` format
+ */
+function generateKeyPair(comment: string) {
+  const { privateKey, publicKey } = generateKeyPairSync(`rsa`, {
+    modulusLength: 4096,
+    privateKeyEncoding: { type: `pkcs1`, format: `pem` },
+    publicKeyEncoding: { type: `spki`, format: `pem` }
+  });
+  const { e, n } = createPublicKey(publicKey).export({ format: `jwk` });
+
+  const sshString = (value: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(value.length);
+    return Buffer.concat([length, value]);
+  };
+  //SSH integers are signed: a leading zero keeps them positive
+  const mpint = (value: string) => {
+    const bytes = Buffer.from(value, `base64url`);
+    return sshString(bytes[0] & 0x80 ? Buffer.concat([Buffer.alloc(1), bytes]) : bytes);
+  };
+
+  const blob = Buffer.concat([sshString(Buffer.from(`ssh-rsa`)), mpint(e!), mpint(n!)]);
+  return { privateKey, publicKey: `ssh-rsa ${blob.toString(`base64`)} ${comment}` };
+}
+
+/**
+ * Appends the key to `~/.ssh/authorized_keys` and sets the permissions sshd requires:
+ * neither the home directory nor `.ssh` or `authorized_keys` can be writable by the group or the others.
+ */
+async function authorizeKey(connection: IBMi, publicKey: string) {
+  const result = await connection.sendCommand({
+    command: [
+      `mkdir -p $HOME/.ssh`,
+      `echo '${publicKey}' >> $HOME/.ssh/authorized_keys`,
+      `chmod go-w $HOME`,
+      `chmod 700 $HOME/.ssh`,
+      `chmod 600 $HOME/.ssh/authorized_keys`
+    ].join(` && `)
+  });
+
+  if (result.code !== 0) {
+    throw new Error(result.stderr || l10n.t(`Could not update authorized_keys`));
+  }
+}
+
+/**
+ * Opens an SSH session with the key. It goes through the current connection, so it also works for systems behind a jump host.
+ */
+async function checkKey(connection: IBMi, privateKeyPath: string) {
+  const client = new node_ssh.NodeSSH;
+  try {
+    await client.connect({
+      sock: await connection.client!.forwardOut(`127.0.0.1`, 0, `127.0.0.1`, connection.currentPort),
+      username: connection.currentUser,
+      privateKeyPath
+    });
+  }
+  finally {
+    client.dispose();
+  }
+}
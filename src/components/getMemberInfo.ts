@@ -1,7 +1,6 @@
 import { posix } from "path";
 import IBMi from "../api/IBMi";
-import { Tools } from "../api/Tools";
-import { IBMiMember } from "../typings";
+import { IBMiMember, SqlRow, SqlValue } from "../typings";
 import { ComponentState, IBMiComponent } from "./component";
 
 export class GetMemberInfo implements IBMiComponent {
@@ -56,15 +55,17 @@ export class GetMemberInfo implements IBMiComponent {
   async getMemberInfo(connection: IBMi, library: string, sourceFile: string, member: string): Promise<IBMiMember | undefined> {
     const config = connection.config!;
     const tempLib = config.tempLibrary;
-    const statement = `select * from table(${tempLib}.${this.procedureName}('${library}', '${sourceFile}', '${member}'))`;
-
-    let results: Tools.DB2Row[] = [];
+    let results: SqlRow[] = [];
     if (config.enableSQL) {
       try {
-        results = await connection.runSQL(statement);
+        results = (await connection.runStatements({
+          sql: `select * from table(${tempLib}.${this.procedureName}(?, ?, ?))`,
+          parameters: [library, sourceFile, member]
+        })).rows;
       } catch (e) { } // Ignore errors, will return undefined.
     }
     else {
+      const statement = `select * from table(${tempLib}.${this.procedureName}('${library}', '${sourceFile}', '${member}'))`;
       results = await connection.content.getQTempTable([`create table QTEMP.MEMBERINFO as (${statement}) with data`], "MEMBERINFO");
     }
 
@@ -78,8 +79,8 @@ export class GetMemberInfo implements IBMiComponent {
         name: result.MEMBER,
         extension: result.EXTENSION,
         text: result.DESCRIPTION,
-        created: new Date(result.CREATED ? Number(result.CREATED) : 0),
-        changed: new Date(result.CHANGED ? Number(result.CHANGED) : 0)
+        created: toDate(result.CREATED),
+        changed: toDate(result.CHANGED)
       } as IBMiMember
     }
   }
@@ -87,17 +88,19 @@ export class GetMemberInfo implements IBMiComponent {
   async getMultipleMemberInfo(connection: IBMi, members: IBMiMember[]): Promise<IBMiMember[] | undefined> {
     const config = connection.config!;
     const tempLib = config.tempLibrary;
-    const statement = members
-      .map(member => `select * from table(${tempLib}.${this.procedureName}('${member.library}', '${member.file}', '${member.name}'))`)
-      .join(' union all ');
-
-    let results: Tools.DB2Row[] = [];
+    let results: SqlRow[] = [];
     if (config.enableSQL) {
       try {
-        results = await connection.runSQL(statement);
+        results = (await connection.runStatements({
+          sql: members.map(() => `select * from table(${tempLib}.${this.procedureName}(?, ?, ?))`).join(' union all '),
+          parameters: members.flatMap(member => [member.library, member.file, member.name])
+        })).rows;
       } catch (e) { }; // Ignore errors, will return undefined.
     }
     else {
+      const statement = members
+        .map(member => `select * from table(${tempLib}.${this.procedureName}('${member.library}', '${member.file}', '${member.name}'))`)
+        .join(' union all ');
       results = await connection.content.getQTempTable([`create table QTEMP.MEMBERINFO as (${statement}) with data`], "MEMBERINFO");
     }
 
@@ -110,13 +113,20 @@ export class GetMemberInfo implements IBMiComponent {
         name: result.MEMBER,
         extension: result.EXTENSION,
         text: result.DESCRIPTION,
-        created: new Date(result.CREATED ? Number(result.CREATED) : 0),
-        changed: new Date(result.CHANGED ? Number(result.CHANGED) : 0)
+        created: toDate(result.CREATED),
+        changed: toDate(result.CHANGED)
       } as IBMiMember
     });
   }
 }
 
+/**
+ * The dates are typed when they come from the SQL session
+ */
+function toDate(value: SqlValue) {
+  return value instanceof Date ? value : new Date(value ? Number(value) : 0);
+}
+
 function getSource(library: string, name: string, version: number) {
   return Buffer.from([
     `create or replace procedure ${library}.QUSRMBRD(`,
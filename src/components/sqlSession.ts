@@ -0,0 +1,411 @@
+import { posix } from "path";
+import type { ClientChannel } from "ssh2";
+import vscode from "vscode";
+import IBMi from "../api/IBMi";
+import { Tools } from "../api/Tools";
+import { SqlColumn, SqlParameter, SqlResult, SqlRow, SqlStatement, SqlValue } from "../typings";
+import { ComponentState, IBMiComponent } from "./component";
+
+/** Values as written by the job: decimals, dates and binary data are strings */
+type SqlJobValue = string | number | boolean | null;
+
+type SqlJobResult = {
+  columns: SqlColumn[]
+  rows: SqlJobValue[][]
+}
+
+type SqlRequest = {
+  id: number
+  statements: SqlStatement[]
+  resolve: (result: SqlJobResult) => void
+  reject: (error: Error) => void
+}
+
+type SqlResponse = Partial<SqlJobResult> & {
+  id: number
+  /** Sent with the request 0: the qualified name of the job */
+  job?: string
+  error?: { message: string, sqlstate: string }
+}
+
+/** Numeric types written as strings, to keep their precision */
+const EXACT_NUMERIC_TYPES = [`BIGINT`, `DECIMAL`, `DECFLOAT`];
+
+/**
+ * Runs SQL statements in a job that is kept open for the whole connection, instead of starting QZDFMDB2 for every call.
+ * It is used by `runStatements` and by the `runSQL` calls that opt in with the `sqlJob` option, since QTEMP and the session state are shared by all its statements.
+ * The job is a Python script using `ibm_db`: it requires the `python3-ibm_db` package.
+ */
+export class SqlSession implements IBMiComponent {
+  static ID = "SqlSession";
+  static readonly Python = `/QOpenSys/pkgs/bin/python3`;
+  installPath = "";
+
+  getIdentification() {
+    return { name: SqlSession.ID, version: 3 };
+  }
+
+  getFileName() {
+    const id = this.getIdentification();
+    return `${id.name.toLowerCase()}_${id.version}.py`;
+  }
+
+  async getRemoteState(connection: IBMi, installDirectory: string): Promise<ComponentState> {
+    this.installPath = posix.join(installDirectory, this.getFileName());
+    if (await this.canRun(connection) && await connection.content.testStreamFile(this.installPath, "r")) {
+      return `Installed`;
+    }
+
+    return `NotInstalled`;
+  }
+
+  async update(connection: IBMi): Promise<ComponentState> {
+    if (!await this.canRun(connection)) {
+      return `NotInstalled`;
+    }
+
+    await connection.content.writeStreamfileRaw(this.installPath, getSource());
+    return `Installed`;
+  }
+
+  /**
+   * Starts a new job: statements sent to it run one after the other until it is ended.
+   * The running statement is cancelled with `QSYS2.CANCEL_SQL`, which is run in a job of its own.
+   * @throws an Error if the job could not connect to the database
+   */
+  async start(connection: IBMi) {
+    const channel = await new Promise<ClientChannel>((resolve, reject) =>
+      connection.client!.connection!.exec(`LC_ALL=EN_US.UTF-8 PYTHONIOENCODING=utf-8 ${SqlSession.Python} -u ${this.installPath}`, (error, channel) => error ? reject(error) : resolve(channel))
+    );
+
+    const job = new SqlJob(channel, jobName => connection.runSQL(`CALL QSYS2.CANCEL_SQL('${jobName}')`));
+    await job.ready;
+    return job;
+  }
+
+  private async canRun(connection: IBMi) {
+    const result = await connection.sendCommand({ command: `${SqlSession.Python} -c "import ibm_db_dbi"` });
+    return result.code === 0;
+  }
+}
+
+/**
+ * The requests are sent to the job one at a time, so a cancelled request is either dropped before it is sent, or is the one running.
+ */
+export class SqlJob {
+  /** The requests that have not been answered, including the queued ones */
+  private readonly requests: Map<number, SqlRequest> = new Map;
+  private readonly queue: SqlRequest[] = [];
+  private current: SqlRequest | undefined;
+  /** The cancellation of the current request: the next one is only sent once it is over, so it cannot be cancelled instead */
+  private cancelling: Promise<unknown> | undefined;
+  private lastId = 0;
+  private output = ``;
+  private errors = ``;
+  private ended = false;
+  private jobName = ``;
+
+  /** Resolved once the job is connected to the database */
+  readonly ready: Promise<void>;
+
+  /**
+   * @param cancel cancels the statement running in the job, from another job
+   */
+  constructor(private readonly channel: ClientChannel, private readonly cancel: (jobName: string) => Promise<unknown>) {
+    // The job answers with the request 0 when it is connected
+    this.ready = new Promise((resolve, reject) => this.requests.set(0, { id: 0, statements: [], resolve: () => resolve(), reject }));
+
+    channel.stdout.on(`data`, (data: Buffer) => {
+      this.output += data.toString(`utf8`);
+      let end;
+      while ((end = this.output.indexOf(`\n`)) >= 0) {
+        const line = this.output.substring(0, end);
+        this.output = this.output.substring(end + 1);
+        if (line.trim()) {
+          let response: SqlResponse;
+          try {
+            response = JSON.parse(line);
+          }
+          catch {
+            // The requests cannot be told apart anymore: they all fail and the job is ended
+            this.fail(new Error(`Unexpected output from the SQL job: ${line}`));
+            this.end();
+            this.ended = true;
+            return;
+          }
+          this.receive(response);
+        }
+      }
+    });
+
+    channel.stderr.on(`data`, (data: Buffer) => this.errors += data.toString(`utf8`));
+
+    channel.on(`close`, () => {
+      this.ended = true;
+      this.fail(new Error(`The SQL job has ended${this.errors.trim() ? `: ${this.errors.trim()}` : `.`}`));
+    });
+  }
+
+  get running() {
+    return !this.ended;
+  }
+
+  /**
+   * Runs the statements in order, with their values typed like {@link IBMi.runSQL} does
+   * @param token cancels the statements, without ending the job
+   * @returns the rows of the last statement, or an empty array if it does not return a result set
+   * @throws a {@link Tools.SqlError} if a statement fails; the following ones are not run
+   * @throws a {@link vscode.CancellationError} if the token is cancelled
+   */
+  async execute(statements: (string | SqlStatement)[], token?: vscode.CancellationToken): Promise<Tools.DB2Row[]> {
+    const { columns, rows } = await this.send(statements, token);
+    return rows.map(values => toRow<Tools.DB2Row>(columns, values, (value, column) =>
+      typeof value === `string` && EXACT_NUMERIC_TYPES.includes(column.type) ? Number(value) : typeof value === `boolean` ? Number(value) : value
+    ));
+  }
+
+  /**
+   * Runs the statements in order, with their values typed from their column:
+   * - `DECIMAL` and `DECFLOAT` values are numbers up to a precision of 15, strings above
+   * - `BIGINT` values are bigints
+   * - `DATE` and `TIMESTAMP` values are local dates, `TIME` values are strings
+   * - binary values are buffers
+   * @param token cancels the statements, without ending the job
+   * @returns the rows and the columns of the last statement
+   * @throws a {@link Tools.SqlError} if a statement fails; the following ones are not run
+   * @throws a {@link vscode.CancellationError} if the token is cancelled
+   */
+  async query(statements: (string | SqlStatement)[], token?: vscode.CancellationToken): Promise<SqlResult> {
+    const { columns, rows } = await this.send(statements, token);
+    return {
+      columns,
+      rows: rows.map(values => toRow<SqlRow>(columns, values, toSqlValue))
+    };
+  }
+
+  private send(statements: (string | SqlStatement)[], token?: vscode.CancellationToken): Promise<SqlJobResult> {
+    if (this.ended) {
+      return Promise.reject(new Error(`The SQL job has ended.`));
+    }
+    else if (token?.isCancellationRequested) {
+      return Promise.reject(new vscode.CancellationError());
+    }
+
+    const id = ++this.lastId;
+    const sqlStatements = statements.map(statement => typeof statement === `string` ? { sql: statement } : statement);
+    let cancellation: vscode.Disposable | undefined;
+    return new Promise<SqlJobResult>((resolve, reject) => {
+      const request: SqlRequest = { id, statements: sqlStatements, resolve, reject };
+      this.requests.set(id, request);
+      this.queue.push(request);
+      cancellation = token?.onCancellationRequested(() => this.cancelRequest(request));
+      this.sendNext();
+    }).finally(() => cancellation?.dispose());
+  }
+
+  private sendNext() {
+    if (!this.current && !this.cancelling && !this.ended) {
+      this.current = this.queue.shift();
+      if (this.current) {
+        const { id, statements } = this.current;
+        this.channel.write(`${JSON.stringify({ id, statements: statements.map(({ sql, parameters }) => ({ sql, parameters: (parameters || []).map(toJobParameter) })) })}\n`);
+      }
+    }
+  }
+
+  /**
+   * Rejects the request right away: it is dropped if it is still queued, and its statement is cancelled if it is running
+   */
+  private cancelRequest(request: SqlRequest) {
+    if (this.requests.delete(request.id)) {
+      request.reject(new vscode.CancellationError());
+
+      const queued = this.queue.indexOf(request);
+      if (queued >= 0) {
+        this.queue.splice(queued, 1);
+      }
+      else if (request === this.current && !this.cancelling) {
+        this.cancelling = this.cancel(this.jobName)
+          .catch(() => undefined)
+          .finally(() => {
+            this.cancelling = undefined;
+            this.sendNext();
+          });
+      }
+    }
+  }
+
+  end() {
+    if (!this.ended) {
+      this.channel.end();
+    }
+  }
+
+  /**
+   * Rejects all the requests that have not been answered
+   */
+  private fail(error: Error) {
+    for (const request of this.requests.values()) {
+      request.reject(error);
+    }
+    this.requests.clear();
+    this.queue.length = 0;
+  }
+
+  private receive(response: SqlResponse) {
+    if (response.job) {
+      this.jobName = response.job;
+    }
+
+    if (response.id === this.current?.id) {
+      this.current = undefined;
+      this.sendNext();
+    }
+
+    const request = this.requests.get(response.id);
+    if (request) {
+      this.requests.delete(response.id);
+      if (response.error) {
+        const sqlError = new Tools.SqlError(`${response.error.message} (${response.error.sqlstate})`);
+        sqlError.sqlstate = response.error.sqlstate;
+        sqlError.cause = request.statements.map(statement => statement.sql).join(`;\n`);
+        request.reject(sqlError);
+      }
+      else {
+        request.resolve({ columns: response.columns || [], rows: response.rows || [] });
+      }
+    }
+  }
+}
+
+/**
+ * @returns the timestamp in the format of DB2, like `2024-12-31-23.59.59.000000`
+ */
+export function formatTimestamp(date: Date) {
+  const pad = (value: number, length = 2) => String(value).padStart(length, `0`);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}000`;
+}
+
+function toJobParameter(value: SqlParameter) {
+  if (typeof value === `bigint`) {
+    return { bigint: String(value) };
+  }
+  else if (Buffer.isBuffer(value)) {
+    return { binary: value.toString(`hex`) };
+  }
+  else if (value instanceof Date) {
+    return formatTimestamp(value);
+  }
+  else {
+    return value;
+  }
+}
+
+function toRow<T extends Record<string, unknown>>(columns: SqlColumn[], values: SqlJobValue[], convert: (value: SqlJobValue, column: SqlColumn) => T[string]) {
+  const row: Record<string, unknown> = {};
+  columns.forEach((column, index) => row[column.name] = values[index] === null ? null : convert(values[index], column));
+  return row as T;
+}
+
+function toSqlValue(value: SqlJobValue, column: SqlColumn): SqlValue {
+  if (typeof value !== `string`) {
+    return typeof value === `boolean` ? Number(value) : value;
+  }
+
+  switch (column.type) {
+    case `BIGINT`:
+      return BigInt(value);
+
+    case `DECIMAL`:
+    case `DECFLOAT`:
+      return column.length <= 15 ? Number(value) : value;
+
+    case `DATE`:
+    case `TIMESTAMP`:
+      const [year, month, day, hours, minutes, seconds, fraction] = value.split(/[-.]/);
+      return new Date(Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0), Number(seconds || 0), Number((fraction || ``).padEnd(3, `0`).substring(0, 3)));
+
+    case `BINARY`:
+    case `BLOB`:
+      return Buffer.from(value, `hex`);
+
+    default:
+      return value;
+  }
+}
+
+function getSource() {
+  return Buffer.from([
+    `import datetime, decimal, json, re, sys`,
+    `import ibm_db, ibm_db_dbi`,
+    ``,
+    `def to_parameter(value):`,
+    `    if isinstance(value, dict):`,
+    `        return bytes.fromhex(value['binary']) if 'binary' in value else int(value['bigint'])`,
+    `    return value`,
+    ``,
+    `def to_json(value, type):`,
+    `    # Trailing blanks are removed like QZDFMDB2 does; exact numerics are strings to keep their precision`,
+    `    if value is None or isinstance(value, (bool, float)):`,
+    `        return value`,
+    `    if isinstance(value, str):`,
+    `        return value.rstrip(' ')`,
+    `    if isinstance(value, (bytes, bytearray)):`,
+    `        return value.hex().upper()`,
+    `    if isinstance(value, datetime.datetime):`,
+    `        return value.strftime('%Y-%m-%d-%H.%M.%S.%f')`,
+    `    if isinstance(value, datetime.date):`,
+    `        return value.isoformat()`,
+    `    if isinstance(value, datetime.time):`,
+    `        return value.strftime('%H.%M.%S')`,
+    `    if isinstance(value, decimal.Decimal) or type in ('bigint', 'decimal', 'decfloat'):`,
+    `        return str(value)`,
+    `    return value`,
+    ``,
+    `def to_error(exception):`,
+    `    text = str(exception)`,
+    `    state = re.search(r'SQLSTATE=(\\w{5})', text)`,
+    `    message = re.sub(r'\\s*SQL(STATE|CODE)=.*$', '', re.sub(r'^.*\\]\\s*|^\\w+ \\w+ failed:\\s*', '', text, flags=re.S | re.I), flags=re.S).strip()`,
+    `    return {'message': message or text, 'sqlstate': state.group(1) if state else (ibm_db.stmt_error() or 'HY000')}`,
+    ``,
+    `def reply(response):`,
+    `    sys.stdout.write(json.dumps(response) + '\\n')`,
+    `    sys.stdout.flush()`,
+    ``,
+    `try:`,
+    `    connection = ibm_db_dbi.connect()`,
+    `    connection.set_autocommit(True)`,
+    `    # The name of the job is needed to cancel its statements with QSYS2.CANCEL_SQL`,
+    `    job = ibm_db.fetch_tuple(ibm_db.exec_immediate(connection.conn_handler, 'values qsys2.job_name'))[0]`,
+    `except Exception as exception:`,
+    `    reply({'id': 0, 'error': to_error(exception)})`,
+    `    sys.exit(1)`,
+    ``,
+    `reply({'id': 0, 'job': job})`,
+    `for line in sys.stdin:`,
+    `    request = json.loads(line)`,
+    `    try:`,
+    `        columns, rows = [], []`,
+    `        for statement in request['statements']:`,
+    `            handle = ibm_db.prepare(connection.conn_handler, statement['sql'])`,
+    `            ibm_db.execute(handle, tuple(map(to_parameter, statement['parameters'])))`,
+    `            count = ibm_db.num_fields(handle) or 0`,
+    `            types = [ibm_db.field_type(handle, index) for index in range(count)]`,
+    `            columns = [{`,
+    `                'name': ibm_db.field_name(handle, index),`,
+    `                'type': types[index].upper(),`,
+    `                'length': ibm_db.field_precision(handle, index),`,
+    `                'scale': ibm_db.field_scale(handle, index),`,
+    `                'nullable': bool(ibm_db.field_nullable(handle, index))`,
+    `            } for index in range(count)]`,
+    `            rows = []`,
+    `            row = ibm_db.fetch_tuple(handle) if count else False`,
+    `            while row:`,
+    `                rows.append([to_json(value, types[index]) for index, value in enumerate(row)])`,
+    `                row = ibm_db.fetch_tuple(handle)`,
+    `            ibm_db.free_stmt(handle)`,
+    `        reply({'id': request['id'], 'columns': columns, 'rows': rows})`,
+    `    except Exception as exception:`,
+    `        reply({'id': request['id'], 'error': to_error(exception)})`
+  ].join(`\n`), "utf8");
+}
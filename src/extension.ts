@@ -11,6 +11,7 @@ import { CompileTools } from "./api/CompileTools";
 import { ConnectionConfiguration, ConnectionManager, onCodeForIBMiConfigurationChange } from "./api/Configuration";
 import IBMi from "./api/IBMi";
 import { GlobalStorage } from "./api/Storage";
+import { extensionTestSuiteRegistry } from "./api/TestSuites";
 import { Tools } from "./api/Tools";
 import * as Debug from './api/debug';
 import { parseErrors } from "./api/errors/parser";
@@ -21,7 +22,11 @@ import { CustomQSh } from "./components/cqsh";
 import { GetMemberInfo } from "./components/getMemberInfo";
 import { GetNewLibl } from "./components/getNewLibl";
 import { extensionComponentRegistry } from "./components/manager";
+import { SqlSession } from "./components/sqlSession";
 import { IFSFS } from "./filesystems/ifsFs";
+import { LocalHistory } from "./filesystems/localHistory";
+import { WorkspaceSearch } from "./filesystems/workspaceSearch";
+import { SpooledFileFS } from "./filesystems/spooledFileFs";
 import { LocalActionCompletionItemProvider } from "./languages/actions/completion";
 import * as Sandbox from "./sandbox";
 import { initialise } from "./testing";
@@ -30,10 +35,19 @@ import { initializeConnectionBrowser } from "./views/ConnectionBrowser";
 import { LibraryListProvider } from "./views/LibraryListView";
 import { ProfilesView } from "./views/ProfilesView";
 import { initializeDebugBrowser } from "./views/debugView";
+import { initializeHistoryView } from "./views/historyView";
+import { initializeMemberHistoryView } from "./views/memberHistoryView";
 import { HelpView } from "./views/helpView";
 import { initializeIFSBrowser } from "./views/ifsBrowser";
+import { initializeJobBrowser } from "./views/jobBrowser";
+import { initializeMessageQueueBrowser } from "./views/messageQueueBrowser";
+import { initializeReferencesView } from "./views/referencesView";
 import { initializeObjectBrowser } from "./views/objectBrowser";
 import { initializeSearchView } from "./views/searchView";
+import { initializeSpooledFileBrowser } from "./views/spooledFileBrowser";
+import { AuthoritiesUI } from "./webviews/authorities";
+import { CommandPrompter } from "./webviews/commandPrompter";
+import { RecordsUI } from "./webviews/records";
 import { SettingsUI } from "./webviews/settings";
 
 export async function activate(context: ExtensionContext): Promise<CodeForIBMi> {
@@ -52,11 +66,22 @@ export async function activate(context: ExtensionContext): Promise<CodeForIBMi>
   };
 
   SettingsUI.init(context);
+  RecordsUI.init(context);
+  AuthoritiesUI.init(context);
+  CommandPrompter.init(context);
   initializeConnectionBrowser(context);
   initializeObjectBrowser(context)
   initializeIFSBrowser(context);
   initializeDebugBrowser(context);
   initializeSearchView(context);
+  initializeSpooledFileBrowser(context);
+  initializeJobBrowser(context);
+  initializeMessageQueueBrowser(context);
+  initializeReferencesView(context);
+  initializeHistoryView(context);
+  LocalHistory.initialize(context);
+  WorkspaceSearch.initialize(context);
+  initializeMemberHistoryView(context);
 
   context.subscriptions.push(
     window.registerTreeDataProvider(
@@ -73,17 +98,18 @@ export async function activate(context: ExtensionContext): Promise<CodeForIBMi>
     ),
     onCodeForIBMiConfigurationChange("connections", updateLastConnectionAndServerCache),
     onCodeForIBMiConfigurationChange("connectionSettings", async () => {
-      const connection = instance.getConnection();
-      if (connection) {
-        const config = instance.getConfig();
-        if (config) {
-          Object.assign(config, (await ConnectionConfiguration.load(config.name)));
-        }
+      for (const connection of instance.getConnections()) {
+        const config = connection.getConfig();
+        Object.assign(config, (await ConnectionConfiguration.load(config.name)));
       }
     }),
-    workspace.registerFileSystemProvider(`streamfile`, new IFSFS(), {
+    workspace.registerFileSystemProvider(`streamfile`, new IFSFS(context), {
       isCaseSensitive: false
     }),
+    workspace.registerFileSystemProvider(`spooledfile`, new SpooledFileFS(), {
+      isCaseSensitive: false,
+      isReadonly: true
+    }),
     languages.registerCompletionItemProvider({ language: 'json', pattern: "**/.vscode/actions.json" }, new LocalActionCompletionItemProvider(), "&")
   );
 
@@ -102,32 +128,39 @@ export async function activate(context: ExtensionContext): Promise<CodeForIBMi>
     initialise(context);
   }
 
-  instance.subscribe(
-    context,
-    'connected',
-    `Refresh views`,
-    () => {
-      commands.executeCommand("code-for-ibmi.refreshObjectBrowser");
-      commands.executeCommand("code-for-ibmi.refreshLibraryListView");
-      commands.executeCommand("code-for-ibmi.refreshIFSBrowser");
-      commands.executeCommand("code-for-ibmi.refreshProfileView");
-    });
+  // The views showing the active connection only
+  const refreshActiveViews = () => {
+    commands.executeCommand("code-for-ibmi.refreshLibraryListView");
+    commands.executeCommand("code-for-ibmi.refreshProfileView");
+    commands.executeCommand("code-for-ibmi.refreshSpooledFileBrowser");
+    commands.executeCommand("code-for-ibmi.messageQueues.refresh");
+  };
+  instance.subscribe(context, 'connected', `Refresh views`, () => {
+    commands.executeCommand("code-for-ibmi.refreshObjectBrowser");
+    commands.executeCommand("code-for-ibmi.refreshIFSBrowser");
+    refreshActiveViews();
+  });
+  instance.subscribe(context, 'switched', `Refresh views`, refreshActiveViews);
 
   extensionComponentRegistry.registerComponent(context, new CustomQSh());
   extensionComponentRegistry.registerComponent(context, new GetNewLibl);
   extensionComponentRegistry.registerComponent(context, new GetMemberInfo());
   extensionComponentRegistry.registerComponent(context, new CopyToImport());
+  extensionComponentRegistry.registerComponent(context, new SqlSession());
 
   return {
     instance, customUI: () => new CustomUI(),
     deployTools: DeployTools,
     evfeventParser: parseErrors,
     tools: Tools,
-    componentRegistry: extensionComponentRegistry
+    componentRegistry: extensionComponentRegistry,
+    testSuiteRegistry: extensionTestSuiteRegistry
   };
 }
 
 // this method is called when your extension is deactivated
 export async function deactivate() {
-  await commands.executeCommand(`code-for-ibmi.disconnect`, true);
+  for (const connection of instance.getConnections()) {
+    await instance.disconnect(connection.currentConnectionName);
+  }
 }
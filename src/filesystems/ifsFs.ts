@@ -1,21 +1,41 @@
 import vscode, { FileSystemError, FileType } from "vscode";
+import IBMi from "../api/IBMi";
 import { Tools } from "../api/Tools";
 import { instance } from "../instantiate";
-import { reconnectFS } from "./qsys/FSUtils";
-import { getFilePermission } from "./qsys/QSysFs";
+import { LocalHistory } from "./localHistory";
+import { getWorkspaceFolderChanges, reconnectFS, reconnectWorkspaceFolder } from "./qsys/FSUtils";
+import { checkWritable, getFilePermission } from "./qsys/QSysFs";
+import { RemoteChangeWatcher } from "./remoteChangeWatcher";
+import { StatCache } from "./statCache";
 
 export class IFSFS implements vscode.FileSystemProvider {
   private readonly savedAsFiles: Set<string> = new Set;
   private emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
   onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this.emitter.event;
+  private readonly remoteChanges: RemoteChangeWatcher;
+  private readonly statCache = new StatCache();
+
+  constructor(context: vscode.ExtensionContext) {
+    this.remoteChanges = new RemoteChangeWatcher(`streamfile`, uri => this.getModifyTime(uri), uris => this.fireChanges(...uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri }))));
+    context.subscriptions.push(this.remoteChanges);
+
+    instance.subscribe(context, 'connected', `Refresh streamfile workspace folders`, (connection: IBMi) => this.emitter.fire(getWorkspaceFolderChanges(`streamfile`, connection.currentConnectionName)));
+    instance.subscribe(context, 'disconnected', `Clear streamfile stat cache`, () => this.statCache.clear());
+  }
+
+  private async getModifyTime(uri: vscode.Uri) {
+    const attributes = await instance.getContent(uri.authority)?.getAttributes(uri.path, "MODIFY_TIME");
+    return attributes ? String(attributes.MODIFY_TIME) : undefined;
+  }
 
   watch(uri: vscode.Uri, options: { readonly recursive: boolean; readonly excludes: readonly string[]; }): vscode.Disposable {
     return { dispose: () => { } };
   }
 
   async readFile(uri: vscode.Uri, retrying?: boolean): Promise<Uint8Array> {
-    const contentApi = instance.getContent();
+    const contentApi = instance.getContent(uri.authority);
     if (contentApi) {
+      await this.remoteChanges.track(uri);
       const fileContent = await contentApi.downloadStreamfileRaw(uri.path);
       return fileContent;
     }
@@ -35,10 +55,11 @@ export class IFSFS implements vscode.FileSystemProvider {
   }
 
   async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
-    const content = instance.getContent();
+    const content = instance.getContent(uri.authority);
     if (content) {
-      const path = uri.path;
-      if (await content.testStreamFile(path, "e")) {
+      return this.statCache.get(uri, async () => {
+        const path = uri.path;
+        // attr fails when the file does not exist
         const attributes = await content.getAttributes(path, "CREATE_TIME", "MODIFY_TIME", "DATA_SIZE", "OBJTYPE");
         if (attributes) {
           const type = String(attributes.OBJTYPE) === "*DIR" ? vscode.FileType.Directory : vscode.FileType.File;
@@ -50,8 +71,14 @@ export class IFSFS implements vscode.FileSystemProvider {
             permissions: !this.savedAsFiles.has(path) && type !== FileType.Directory ? getFilePermission(uri) : undefined
           }
         }
+        throw FileSystemError.FileNotFound(uri);
+      });
+    }
+    else if (vscode.workspace.getWorkspaceFolder(uri)) {
+      if (await reconnectWorkspaceFolder(uri)) {
+        return this.stat(uri);
       }
-      throw FileSystemError.FileNotFound(uri);
+      throw FileSystemError.Unavailable(uri);
     }
     else {
       return {
@@ -65,17 +92,24 @@ export class IFSFS implements vscode.FileSystemProvider {
   }
 
   async writeFile(uri: vscode.Uri, content: Uint8Array, options: { readonly create: boolean; readonly overwrite: boolean; }) {
+    checkWritable(uri);
     const path = uri.path;
-    const contentApi = instance.getContent();
+    const contentApi = instance.getContent(uri.authority);
     if (contentApi) {
       if (!content.length) { //Coming from "Save as"    
         this.savedAsFiles.add(path);
         await contentApi.createStreamFile(path);
+        this.fireChanges({ type: vscode.FileChangeType.Created, uri });
         vscode.commands.executeCommand(`code-for-ibmi.refreshIFSBrowser`);
       }
       else {
+        await this.remoteChanges.checkBeforeSave(uri);
+        // A file created by "Save as" has no previous version
+        await LocalHistory.snapshot(uri, async () => this.savedAsFiles.has(path) ? undefined : contentApi.downloadStreamfileRaw(path));
         this.savedAsFiles.delete(path);
         await contentApi.writeStreamfileRaw(path, content);
+        this.statCache.invalidate(uri);
+        await this.remoteChanges.track(uri);
       }
     }
     else {
@@ -83,41 +117,134 @@ export class IFSFS implements vscode.FileSystemProvider {
     }
   }
 
-  copy(source: vscode.Uri, destination: vscode.Uri, options: { readonly overwrite: boolean; }): void | Thenable<void> {
-    //not used at the moment
+  async copy(source: vscode.Uri, destination: vscode.Uri, options: { readonly overwrite: boolean; }) {
+    const connection = instance.getConnection(source.authority);
+    if (connection) {
+      checkWritable(destination);
+      if (source.authority !== destination.authority) {
+        throw FileSystemError.NoPermissions(`Files can only be copied on their own system`);
+      }
+      if (!await connection.content.testStreamFile(source.path, "e")) {
+        throw FileSystemError.FileNotFound(source);
+      }
+      if (await connection.content.testStreamFile(destination.path, "e")) {
+        if (!options.overwrite) {
+          throw FileSystemError.FileExists(destination);
+        }
+        // cp would copy a directory inside the existing one
+        await this.remove(connection, destination.path, true);
+      }
+
+      const result = await connection.sendCommand({ command: `cp -r ${Tools.escapePath(source.path)} ${Tools.escapePath(destination.path)}` });
+      if (result.code !== 0) {
+        throw FileSystemError.NoPermissions(result.stderr);
+      }
+
+      this.fireChanges({ type: vscode.FileChangeType.Created, uri: destination });
+    }
+    else {
+      throw new FileSystemError("Not connected to IBM i");
+    }
   }
 
-  rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }): void | Thenable<void> {
-    //not used at the moment
+  async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }) {
+    const connection = instance.getConnection(oldUri.authority);
+    if (connection) {
+      checkWritable(oldUri, newUri);
+      if (oldUri.authority !== newUri.authority) {
+        throw FileSystemError.NoPermissions(`Files can only be renamed on their own system`);
+      }
+      if (!await connection.content.testStreamFile(oldUri.path, "e")) {
+        throw FileSystemError.FileNotFound(oldUri);
+      }
+      if (await connection.content.testStreamFile(newUri.path, "e")) {
+        if (!options.overwrite) {
+          throw FileSystemError.FileExists(newUri);
+        }
+        // mv would move a directory inside the existing one
+        await this.remove(connection, newUri.path, true);
+      }
+
+      const result = await connection.sendCommand({ command: `mv ${Tools.escapePath(oldUri.path)} ${Tools.escapePath(newUri.path)}` });
+      if (result.code !== 0) {
+        throw FileSystemError.NoPermissions(result.stderr);
+      }
+
+      this.savedAsFiles.delete(oldUri.path);
+      this.fireChanges({ type: vscode.FileChangeType.Deleted, uri: oldUri }, { type: vscode.FileChangeType.Created, uri: newUri });
+    }
+    else {
+      throw new FileSystemError("Not connected to IBM i");
+    }
   }
 
   async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
-    const content = instance.getContent();
+    const content = instance.getContent(uri.authority);
     if (content) {
       return (await content.getFileList(uri.path)).map(ifsFile => ([ifsFile.name, ifsFile.type === "directory" ? FileType.Directory : FileType.File]));
     }
+    else if (vscode.workspace.getWorkspaceFolder(uri)) {
+      if (await reconnectWorkspaceFolder(uri)) {
+        return this.readDirectory(uri);
+      }
+      throw FileSystemError.Unavailable(uri);
+    }
     else {
       throw new FileSystemError("Not connected to IBM i");
     }
   }
 
   async createDirectory(uri: vscode.Uri) {
-    const connection = instance.getConnection();
+    const connection = instance.getConnection(uri.authority);
     if (connection) {
+      checkWritable(uri);
       const path = uri.path;
       if (await connection.content.testStreamFile(path, "d")) {
         throw FileSystemError.FileExists(uri);
       }
       else {
-        const result = await connection.sendCommand({ command: `mkdir -p ${path}` });
+        const result = await connection.sendCommand({ command: `mkdir -p ${Tools.escapePath(path)}` });
         if (result.code !== 0) {
           throw FileSystemError.NoPermissions(result.stderr);
         }
+        this.fireChanges({ type: vscode.FileChangeType.Created, uri });
+      }
+    }
+    else {
+      throw new FileSystemError("Not connected to IBM i");
+    }
+  }
+
+  async delete(uri: vscode.Uri, options: { readonly recursive: boolean; }) {
+    const connection = instance.getConnection(uri.authority);
+    if (connection) {
+      checkWritable(uri);
+      if (!await connection.content.testStreamFile(uri.path, "e")) {
+        throw FileSystemError.FileNotFound(uri);
       }
+
+      await this.remove(connection, uri.path, options.recursive);
+      this.savedAsFiles.delete(uri.path);
+      this.fireChanges({ type: vscode.FileChangeType.Deleted, uri });
+    }
+    else {
+      throw new FileSystemError("Not connected to IBM i");
     }
   }
 
-  delete(uri: vscode.Uri, options: { readonly recursive: boolean; }): void | Thenable<void> {
-    throw new FileSystemError(`delete not implemented in IFSFS.`);
+  /**
+   * Fires the changes made to the files, once they are removed from the cache
+   */
+  private fireChanges(...changes: vscode.FileChangeEvent[]) {
+    this.statCache.invalidate(...changes.map(change => change.uri));
+    this.emitter.fire(changes);
+  }
+
+  private async remove(connection: IBMi, path: string, recursive: boolean) {
+    const command = recursive ? `rm -rf` : await connection.content.testStreamFile(path, "d") ? `rmdir` : `rm`;
+    const result = await connection.sendCommand({ command: `${command} ${Tools.escapePath(path)}` });
+    if (result.code !== 0) {
+      throw FileSystemError.NoPermissions(result.stderr);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import vscode from "vscode";
+import { GlobalConfiguration } from "../api/Configuration";
+import { instance } from "../instantiate";
+
+export interface Snapshot {
+  /** The local file holding the content */
+  uri: vscode.Uri
+  /** When the content was replaced by a save */
+  time: Date
+  size: number
+}
+
+/**
+ * Keeps a local copy of the previous version of the members and streamfiles, each time they are saved.
+ * The snapshots of a file are kept in their own directory of the extension storage, named after the file URI.
+ */
+export namespace LocalHistory {
+  const emitter = new vscode.EventEmitter<vscode.Uri>();
+  /** Fired with the file URI when a snapshot is added */
+  export const onDidChange = emitter.event;
+
+  let storage: string | undefined;
+
+  export function initialize(context: vscode.ExtensionContext) {
+    storage = path.join(context.globalStorageUri.fsPath, `history`);
+  }
+
+  function getMaximum() {
+    return GlobalConfiguration.get<number>(`localHistorySnapshots`) ?? 20;
+  }
+
+  /**
+   * Stores the content a file has before it is saved. Snapshots the same as the latest one are not stored again.
+   * Failing to store the snapshot does not prevent the save.
+   * @param read returns the content currently on the system
+   */
+  export async function snapshot(uri: vscode.Uri, read: () => Promise<string | Uint8Array | undefined>) {
+    const maximum = getMaximum();
+    const directory = getDirectory(uri);
+    if (maximum > 0 && directory) {
+      try {
+        const previous = await read();
+        if (previous !== undefined) {
+          const content = typeof previous === `string` ? Buffer.from(previous, `utf8`) : Buffer.from(previous);
+          const [latest] = await getSnapshots(uri);
+          if (!latest || !content.equals(await readFile(latest.uri.fsPath))) {
+            await mkdir(directory, { recursive: true });
+            await writeFile(path.join(directory, `${Date.now()}${path.extname(uri.path).toLowerCase()}`), content);
+          }
+
+          for (const old of (await getSnapshots(uri)).slice(maximum)) {
+            await rm(old.uri.fsPath, { force: true });
+          }
+          emitter.fire(uri);
+        }
+      }
+      catch (e) {
+        console.log(`Could not store the snapshot of ${uri.toString()}`, e);
+      }
+    }
+  }
+
+  /**
+   * @returns the snapshots of a file, the most recent first
+   */
+  export async function getSnapshots(uri: vscode.Uri): Promise<Snapshot[]> {
+    const directory = getDirectory(uri);
+    const files = directory ? await readdir(directory).catch(() => [] as string[]) : [];
+    const snapshots = await Promise.all(files.filter(file => /^\d+(\.|$)/.test(file)).map(async file => ({
+      uri: vscode.Uri.file(path.join(directory!, file)),
+      time: new Date(parseInt(file)),
+      size: (await stat(path.join(directory!, file))).size
+    })));
+    return snapshots.sort((a, b) => b.time.getTime() - a.time.getTime());
+  }
+
+  /**
+   * Members are named in any case, the streamfiles are not: the key of a member is upper cased
+   */
+  function getDirectory(uri: vscode.Uri) {
+    const authority = uri.authority || instance.getConnection()?.currentConnectionName;
+    if (storage && authority) {
+      const key = `${uri.scheme}://${authority}${uri.scheme === `member` ? uri.path.toUpperCase() : uri.path}`;
+      return path.join(storage, createHash(`sha1`).update(key).digest(`hex`));
+    }
+  }
+}
@@ -1,17 +1,39 @@
 import path from "path";
 import vscode, { l10n } from "vscode";
-import { GlobalConfiguration, ReconnectMode } from "../../api/Configuration";
+import { ConnectionManager, GlobalConfiguration, ReconnectMode } from "../../api/Configuration";
 import { GlobalStorage } from "../../api/Storage";
 import { Tools } from "../../api/Tools";
+import { instance } from "../../instantiate";
+
+let reconnecting: Promise<boolean> | undefined;
 
 /**
  * Called when a member/streamfile is left open when VS Code is closed and re-opened to reconnect (or not) to the previous IBM i, based on the `autoReconnect` global configuration value.
+ * The connection named in the uri authority is used when there is one.
  * If the user choses not to reconnect, the editor tab will be closed.
+ * The files opened at the same time, like the ones of a workspace folder, share the same question.
  * 
  * @param uri the uri of the file triggerring the reconnection attempt
  * @returns `true` if the user choses to reconnect, `false` otherwise.
  */
 export async function reconnectFS(uri: vscode.Uri) {
+  if (!reconnecting) {
+    reconnecting = askToReconnect(uri).finally(() => reconnecting = undefined);
+  }
+
+  if (await reconnecting) {
+    return true;
+  }
+  else {
+    for (const tab of Tools.findUriTabs(uri)) {
+      await vscode.window.tabGroups.close(tab);
+    }
+    return false;
+  }
+}
+
+async function askToReconnect(uri: vscode.Uri) {
+  const connectionName = uri.authority ? ConnectionManager.getAll().find(connection => connection.name.toLowerCase() === uri.authority.toLowerCase())?.name : undefined;
   const reconnect = GlobalConfiguration.get<ReconnectMode>("autoReconnect") || "ask";
   let doReconnect = false;
   switch (reconnect) {
@@ -20,7 +42,7 @@ export async function reconnectFS(uri: vscode.Uri) {
       break;
 
     case "ask":
-      const lastConnection = GlobalStorage.get().getLastConnections()?.at(0)?.name;
+      const lastConnection = connectionName || GlobalStorage.get().getLastConnections()?.at(0)?.name;
       if (lastConnection) {
         if (await vscode.window.showInformationMessage(l10n.t("Do you want to reconnect to {0} and open {1}?", lastConnection, path.basename(uri.path)), l10n.t("Reconnect"))) {
           doReconnect = true;
@@ -32,13 +54,47 @@ export async function reconnectFS(uri: vscode.Uri) {
   }
 
   if (doReconnect) {
-    await vscode.commands.executeCommand(`code-for-ibmi.connectToPrevious`);
+    if (connectionName) {
+      await vscode.commands.executeCommand(`code-for-ibmi.connectTo`, connectionName);
+    }
+    else {
+      await vscode.commands.executeCommand(`code-for-ibmi.connectToPrevious`);
+    }
     return true;
   }
   else {
-    for (const tab of Tools.findUriTabs(uri)) {
-      await vscode.window.tabGroups.close(tab);
-    }
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The files of the workspace folders are asked for as soon as VS Code starts, before any connection is made: only the root of the folders asks to reconnect.
+ * @returns `true` once connected to the system of the folder
+ */
+export async function reconnectWorkspaceFolder(uri: vscode.Uri) {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  return Boolean(folder && folder.uri.path === uri.path && await reconnectFS(uri) && instance.getConnection(uri.authority || undefined));
+}
+
+/**
+ * @returns the events refreshing the workspace folders of a file system, once their system is connected
+ */
+export function getWorkspaceFolderChanges(scheme: string, connectionName: string): vscode.FileChangeEvent[] {
+  return (vscode.workspace.workspaceFolders || [])
+    .filter(folder => folder.uri.scheme === scheme && (!folder.uri.authority || folder.uri.authority === connectionName))
+    .map(folder => ({ type: vscode.FileChangeType.Changed, uri: folder.uri }));
+}
+
+/**
+ * Adds a directory of the system as a workspace folder, unless it is already one
+ */
+export function openAsWorkspaceFolder(uri: vscode.Uri, name: string) {
+  const folders = vscode.workspace.workspaceFolders || [];
+  const existing = folders.find(folder => folder.uri.scheme === uri.scheme && folder.uri.authority === uri.authority && folder.uri.path === uri.path);
+  if (existing) {
+    vscode.window.showInformationMessage(l10n.t(`{0} is already a workspace folder.`, existing.name));
+  }
+  else if (!vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri, name })) {
+    vscode.window.showErrorMessage(l10n.t(`{0} could not be added to the workspace.`, name));
+  }
+}
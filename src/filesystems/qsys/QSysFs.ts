@@ -6,32 +6,50 @@ import IBMi from "../../api/IBMi";
 import { Tools } from "../../api/Tools";
 import { instance } from "../../instantiate";
 import { IBMiMember, QsysFsOptions, QsysPath } from "../../typings";
+import { LocalHistory } from "../localHistory";
 import { ExtendedIBMiContent } from "./extendedContent";
-import { reconnectFS } from "./FSUtils";
+import { MemberLocks } from "./memberLocks";
+import { RemoteChangeWatcher } from "../remoteChangeWatcher";
+import { StatCache } from "../statCache";
+import { getWorkspaceFolderChanges, reconnectFS, reconnectWorkspaceFolder } from "./FSUtils";
 import { SourceDateHandler } from "./sourceDateHandler";
 
-export function getMemberUri(member: IBMiMember, options?: QsysFsOptions) {
-    return getUriFromPath(`${member.asp ? `${member.asp}/` : ``}${member.library}/${member.file}/${member.name}.${member.extension}`, options);
+export function getMemberUri(member: IBMiMember, options?: QsysFsOptions, connectionName?: string) {
+    return getUriFromPath(`${member.asp ? `${member.asp}/` : ``}${member.library}/${member.file}/${member.name}.${member.extension}`, options, connectionName);
 }
 
-export function getUriFromPath(path: string, options?: QsysFsOptions) {
+/**
+ * @param connectionName the connection the file belongs to, kept as the URI authority; the active connection by default
+ */
+export function getUriFromPath(path: string, options?: QsysFsOptions, connectionName = instance.getConnection()?.currentConnectionName) {
     const query = stringify(options as ParsedUrlQueryInput);
+    const authority = connectionName || ``;
     if (path.startsWith(`/`)) {
         //IFS path
-        return vscode.Uri.parse(path).with({ scheme: `streamfile`, path, query });
+        return vscode.Uri.parse(path).with({ scheme: `streamfile`, authority, path, query });
     } else {
         //QSYS path
-        return vscode.Uri.parse(path).with({ scheme: `member`, path: `/${path}`, query });
+        return vscode.Uri.parse(path).with({ scheme: `member`, authority, path: `/${path}`, query });
     }
 }
 
 export function getFilePermission(uri: vscode.Uri): FilePermission | undefined {
     const fsOptions = parseFSOptions(uri);
-    if (instance.getConfig()?.readOnlyMode || fsOptions.readonly) {
+    if (instance.getConfig(uri.authority)?.readOnlyMode || fsOptions.readonly) {
         return FilePermission.Readonly;
     }
 }
 
+/**
+ * @throws a {@link FileSystemError} when one of the files is read only
+ */
+export function checkWritable(...uris: vscode.Uri[]) {
+    const readOnly = uris.find(uri => getFilePermission(uri) === FilePermission.Readonly);
+    if (readOnly) {
+        throw FileSystemError.NoPermissions(readOnly);
+    }
+}
+
 export function parseFSOptions(uri: vscode.Uri): QsysFsOptions {
     const parameters = parse(uri.query);
     return {
@@ -48,6 +66,8 @@ export class QSysFS implements vscode.FileSystemProvider {
     private readonly savedAsMembers: Set<string> = new Set;
     private readonly sourceDateHandler: SourceDateHandler;
     private readonly extendedContent: ExtendedIBMiContent;
+    private readonly remoteChanges: RemoteChangeWatcher;
+    private readonly statCache = new StatCache();
     private extendedMemberSupport = false;
     private emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
     onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this.emitter.event;
@@ -55,23 +75,40 @@ export class QSysFS implements vscode.FileSystemProvider {
     constructor(context: vscode.ExtensionContext) {
         this.sourceDateHandler = new SourceDateHandler(context);
         this.extendedContent = new ExtendedIBMiContent(this.sourceDateHandler);
+        this.remoteChanges = new RemoteChangeWatcher(`member`, uri => this.getModifyTime(uri), uris => this.fireChanges(...uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri }))));
 
         context.subscriptions.push(
+            this.remoteChanges,
             onCodeForIBMiConfigurationChange(["connectionSettings", "showDateSearchButton"], () => this.updateMemberSupport()),
         );
 
+        MemberLocks.initialize(context);
+
         instance.subscribe(
             context,
             'connected',
             `Update member support`,
             () => this.updateMemberSupport());
 
+        instance.subscribe(
+            context,
+            'connected',
+            `Refresh member workspace folders`,
+            (connection: IBMi) => this.emitter.fire(getWorkspaceFolderChanges(`member`, connection.currentConnectionName)));
+
         instance.subscribe(
             context,
             'disconnected',
             `Update member support & clear library ASP cache`,
-            () => {
-                this.libraryASP.clear();
+            (connection?: IBMi) => {
+                if (connection) {
+                    const prefix = `${connection.currentConnectionName}/`;
+                    Array.from(this.libraryASP.keys()).filter(key => key.startsWith(prefix)).forEach(key => this.libraryASP.delete(key));
+                }
+                else {
+                    this.libraryASP.clear();
+                }
+                this.statCache.clear();
                 this.updateMemberSupport();
             });
     }
@@ -100,22 +137,32 @@ export class QSysFS implements vscode.FileSystemProvider {
             throw new vscode.FileSystemError("Invalid member path");
         }
         const type = pathLength > 3 ? vscode.FileType.File : vscode.FileType.Directory;
-        const connection = instance.getConnection();
+        const connection = instance.getConnection(uri.authority);
         if (path !== '/' && connection) {
-            const member = type === vscode.FileType.File ? parsePath(path).name : undefined;
-            const qsysPath = { ...Tools.parseQSysPath(path), member };
-            const attributes = await this.getMemberAttributes(connection, qsysPath);
-            if (attributes) {
-                return {
-                    ctime: Tools.parseAttrDate(String(attributes.CREATE_TIME)),
-                    mtime: Tools.parseAttrDate(String(attributes.MODIFY_TIME)),
-                    size: Number(attributes.DATA_SIZE),
-                    type,
-                    permissions: member && !this.savedAsMembers.has(uri.path) ? getFilePermission(uri) : undefined
+            return this.statCache.get(uri, async () => {
+                const member = type === vscode.FileType.File ? parsePath(path).name : undefined;
+                const qsysPath = { ...Tools.parseQSysPath(path), member };
+                // VS Code looks for files like .vscode/settings.json, which cannot be members
+                const validNames = [qsysPath.asp, qsysPath.library, qsysPath.name, member].every(name => !name || connection.validQsysName(connection.upperCaseName(name)));
+                const attributes = validNames ? await this.getMemberAttributes(connection, qsysPath) : undefined;
+                if (attributes) {
+                    return {
+                        ctime: Tools.parseAttrDate(String(attributes.CREATE_TIME)),
+                        mtime: Tools.parseAttrDate(String(attributes.MODIFY_TIME)),
+                        size: Number(attributes.DATA_SIZE),
+                        type,
+                        permissions: member && !this.savedAsMembers.has(uri.path) ? getFilePermission(uri) : undefined
+                    }
+                } else {
+                    throw FileSystemError.FileNotFound(uri);
                 }
-            } else {
-                throw FileSystemError.FileNotFound(uri);
+            });
+        }
+        else if (!connection && vscode.workspace.getWorkspaceFolder(uri)) {
+            if (await reconnectWorkspaceFolder(uri)) {
+                return this.stat(uri);
             }
+            throw FileSystemError.Unavailable(uri);
         }
         else {
             return {
@@ -146,6 +193,14 @@ export class QSysFS implements vscode.FileSystemProvider {
         return attributes;
     }
 
+    private async getModifyTime(uri: vscode.Uri) {
+        const connection = instance.getConnection(uri.authority);
+        if (connection) {
+            const attributes = await this.getMemberAttributes(connection, { ...Tools.parseQSysPath(uri.path), member: parsePath(uri.path).name });
+            return attributes ? String(attributes.MODIFY_TIME) : undefined;
+        }
+    }
+
     parseMemberPath(connection: IBMi, path: string) {
         const memberParts = connection.parserMemberPath(path);
         memberParts.asp = memberParts.asp || this.getLibraryASP(connection, memberParts.library);
@@ -153,19 +208,20 @@ export class QSysFS implements vscode.FileSystemProvider {
     }
 
     setLibraryASP(connection: IBMi, library: string, asp: string) {
-        this.libraryASP.set(connection.upperCaseName(library), asp);
+        this.libraryASP.set(`${connection.currentConnectionName}/${connection.upperCaseName(library)}`, asp);
     }
 
     getLibraryASP(connection: IBMi, library: string) {
-        return this.libraryASP.get(connection.upperCaseName(library));
+        return this.libraryASP.get(`${connection.currentConnectionName}/${connection.upperCaseName(library)}`);
     }
 
     async readFile(uri: vscode.Uri, retrying?: boolean): Promise<Uint8Array> {
-        const contentApi = instance.getContent();
-        const connection = instance.getConnection();
+        const contentApi = instance.getContent(uri.authority);
+        const connection = instance.getConnection(uri.authority);
         if (connection && contentApi) {
             const { asp, library, file, name: member } = this.parseMemberPath(connection, uri.path);
 
+            await this.remoteChanges.track(uri);
             let memberContent;
             try {
                 memberContent = this.extendedMemberSupport ?
@@ -204,9 +260,10 @@ export class QSysFS implements vscode.FileSystemProvider {
     }
 
     async writeFile(uri: vscode.Uri, content: Uint8Array, options: { readonly create: boolean; readonly overwrite: boolean; }) {
+        checkWritable(uri);
         const path = uri.path;
-        const contentApi = instance.getContent();
-        const connection = instance.getConnection();
+        const contentApi = instance.getContent(uri.authority);
+        const connection = instance.getConnection(uri.authority);
         if (connection && contentApi) {
             const { asp, library, file, name: member, extension } = this.parseMemberPath(connection, uri.path);
             if (!content.length) { //Coming from "Save as"
@@ -216,25 +273,129 @@ export class QSysFS implements vscode.FileSystemProvider {
                 });
                 if (addMember.code === 0) {
                     this.savedAsMembers.add(uri.path);
+                    this.fireChanges({ type: vscode.FileChangeType.Created, uri });
                     vscode.commands.executeCommand(`code-for-ibmi.refreshObjectBrowser`);
                 } else {
                     throw new FileSystemError(addMember.stderr);
                 }
             }
             else {
+                await this.remoteChanges.checkBeforeSave(uri);
+                // A member created by "Save as" has no previous version
+                await LocalHistory.snapshot(uri, async () => this.savedAsMembers.has(uri.path) ? undefined : contentApi.downloadMemberContent(asp, library, file, member));
                 this.savedAsMembers.delete(uri.path);
-                this.extendedMemberSupport ?
-                    await this.extendedContent.uploadMemberContentWithDates(uri, content.toString()) :
-                    await contentApi.uploadMemberContent(asp, library, file, member, content);
+                // A member locked for edit is updated by the job holding the lock
+                const runCommand = MemberLocks.getCommandRunner(uri);
+                if (this.extendedMemberSupport) {
+                    await this.extendedContent.uploadMemberContentWithDates(uri, content.toString(), runCommand);
+                }
+                else {
+                    await contentApi.uploadMemberContent(asp, library, file, member, content, runCommand);
+                }
+                this.statCache.invalidate(uri);
+                await this.remoteChanges.track(uri);
+            }
+        }
+        else {
+            throw new FileSystemError("Not connected to IBM i");
+        }
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }) {
+        const connection = instance.getConnection(oldUri.authority);
+        if (connection) {
+            checkWritable(oldUri, newUri);
+            if (oldUri.authority !== newUri.authority) {
+                throw FileSystemError.NoPermissions(`Members can only be renamed on their own system`);
+            }
+
+            const depth = oldUri.path.split(`/`).length;
+            if (depth === 3 && newUri.path.split(`/`).length === 3) {
+                await this.renameSourceFile(connection, oldUri, newUri, options);
+            }
+            else if (depth > 3) {
+                await this.renameMember(connection, oldUri, newUri, options);
             }
+            else {
+                throw FileSystemError.NoPermissions(`Only members and source files can be renamed`);
+            }
+
+            this.savedAsMembers.delete(oldUri.path);
+            this.fireChanges({ type: vscode.FileChangeType.Deleted, uri: oldUri }, { type: vscode.FileChangeType.Created, uri: newUri });
         }
         else {
             throw new FileSystemError("Not connected to IBM i");
         }
     }
 
-    rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }): void | Thenable<void> {
-        //Not used at the moment
+    private async renameMember(connection: IBMi, oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }) {
+        const oldMember = this.parseMemberPath(connection, oldUri.path);
+        const newMember = this.parseMemberPath(connection, newUri.path);
+        if (oldMember.library !== newMember.library || oldMember.file !== newMember.file) {
+            throw FileSystemError.NoPermissions(`Members can only be renamed within their source file`);
+        }
+
+        const { library, file } = oldMember;
+        if (!await this.memberExists(connection, oldUri)) {
+            throw FileSystemError.FileNotFound(oldUri);
+        }
+
+        if (oldMember.name !== newMember.name) {
+            if (await this.memberExists(connection, newUri)) {
+                if (!options.overwrite) {
+                    throw FileSystemError.FileExists(newUri);
+                }
+                await MemberLocks.release(newUri);
+                await this.removeMember(connection, library, file, newMember.name);
+            }
+
+            await MemberLocks.release(oldUri);
+            const renameMember = await connection.runCommand({
+                command: `RNMM FILE(${library}/${file}) MBR(${oldMember.name}) NEWMBR(${newMember.name})`,
+                noLibList: true
+            });
+            if (renameMember.code !== 0) {
+                throw FileSystemError.NoPermissions(renameMember.stderr);
+            }
+        }
+
+        if (oldMember.extension !== newMember.extension) {
+            const changeType = await connection.runCommand({
+                command: `CHGPFM FILE(${library}/${file}) MBR(${newMember.name}) SRCTYPE(${newMember.extension || `*NONE`})`,
+                noLibList: true
+            });
+            if (changeType.code !== 0) {
+                throw FileSystemError.NoPermissions(changeType.stderr);
+            }
+        }
+    }
+
+    private async renameSourceFile(connection: IBMi, oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }) {
+        const oldFile = Tools.parseQSysPath(connection.upperCaseName(oldUri.path));
+        const newFile = Tools.parseQSysPath(connection.upperCaseName(newUri.path));
+        if (oldFile.library !== newFile.library) {
+            throw FileSystemError.NoPermissions(`Source files can only be renamed within their library`);
+        }
+        if (!await connection.content.checkObject({ library: oldFile.library, name: oldFile.name, type: `*FILE` })) {
+            throw FileSystemError.FileNotFound(oldUri);
+        }
+
+        if (oldFile.name !== newFile.name) {
+            if (await connection.content.checkObject({ library: newFile.library, name: newFile.name, type: `*FILE` })) {
+                if (!options.overwrite) {
+                    throw FileSystemError.FileExists(newUri);
+                }
+                await this.deleteSourceFile(connection, newFile.library, newFile.name);
+            }
+
+            const renameFile = await connection.runCommand({
+                command: `RNMOBJ OBJ(${oldFile.library}/${oldFile.name}) OBJTYPE(*FILE) NEWOBJ(${newFile.name})`,
+                noLibList: true
+            });
+            if (renameFile.code !== 0) {
+                throw FileSystemError.NoPermissions(renameFile.stderr);
+            }
+        }
     }
 
     watch(uri: vscode.Uri, options: { readonly recursive: boolean; readonly excludes: readonly string[]; }): vscode.Disposable {
@@ -242,7 +403,7 @@ export class QSysFS implements vscode.FileSystemProvider {
     }
 
     async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
-        const content = instance.getConnection()?.content;
+        const content = instance.getConnection(uri.authority)?.content;
         if (content) {
             const qsysPath = Tools.parseQSysPath(uri.path);
             if (qsysPath.name) {
@@ -257,13 +418,23 @@ export class QSysFS implements vscode.FileSystemProvider {
                 return (await content.getLibraries({ library: '*' })).map(library => [library.name, vscode.FileType.Directory]);
             }
         }
+        else if (vscode.workspace.getWorkspaceFolder(uri)) {
+            if (await reconnectWorkspaceFolder(uri)) {
+                return this.readDirectory(uri);
+            }
+            throw FileSystemError.Unavailable(uri);
+        }
         throw FileSystemError.FileNotFound(uri);
     }
 
     async createDirectory(uri: vscode.Uri) {
-        const connection = instance.getConnection();
+        const connection = instance.getConnection(uri.authority);
         if (connection) {
+            checkWritable(uri);
             const qsysPath = Tools.parseQSysPath(uri.path);
+            if (uri.path.split(`/`).length > 3) {
+                throw FileSystemError.NoPermissions(`Source files cannot contain directories`);
+            }
             if (qsysPath.library && !await connection.content.checkObject({ library: "QSYS", name: qsysPath.library, type: "*LIB" })) {
                 const createLibrary = await connection.runCommand({
                     command: `CRTLIB LIB(${qsysPath.library})`,
@@ -273,7 +444,13 @@ export class QSysFS implements vscode.FileSystemProvider {
                     throw FileSystemError.NoPermissions(createLibrary.stderr);
                 }
             }
+            else if (!qsysPath.name) {
+                throw FileSystemError.FileExists(uri);
+            }
             if (qsysPath.name) {
+                if (await connection.content.checkObject({ library: qsysPath.library, name: qsysPath.name, type: "*FILE" })) {
+                    throw FileSystemError.FileExists(uri);
+                }
                 const createFile = await connection.runCommand({
                     command: `CRTSRCPF FILE(${qsysPath.library}/${qsysPath.name}) RCDLEN(112)`,
                     noLibList: true
@@ -282,10 +459,77 @@ export class QSysFS implements vscode.FileSystemProvider {
                     throw FileSystemError.NoPermissions(createFile.stderr);
                 }
             }
+            this.fireChanges({ type: vscode.FileChangeType.Created, uri });
+        }
+        else {
+            throw new FileSystemError("Not connected to IBM i");
         }
     }
 
-    delete(uri: vscode.Uri, options: { readonly recursive: boolean; }): void | Thenable<void> {
-        throw new FileSystemError("Method not implemented.");
+    async delete(uri: vscode.Uri, options: { readonly recursive: boolean; }) {
+        const connection = instance.getConnection(uri.authority);
+        if (connection) {
+            checkWritable(uri);
+            const depth = uri.path.split(`/`).length;
+            if (depth === 3) {
+                const { library, name } = Tools.parseQSysPath(connection.upperCaseName(uri.path));
+                if (!await connection.content.checkObject({ library, name, type: `*FILE` })) {
+                    throw FileSystemError.FileNotFound(uri);
+                }
+                if (!options.recursive && await connection.content.countMembers({ library, name })) {
+                    throw FileSystemError.NoPermissions(`${library}/${name} is not empty`);
+                }
+                await this.deleteSourceFile(connection, library, name);
+            }
+            else if (depth > 3) {
+                const { library, file, name: member } = this.parseMemberPath(connection, uri.path);
+                if (!await this.memberExists(connection, uri)) {
+                    throw FileSystemError.FileNotFound(uri);
+                }
+                await MemberLocks.release(uri);
+                await this.removeMember(connection, library, file, member);
+            }
+            else {
+                throw FileSystemError.NoPermissions(`Only members and source files can be deleted`);
+            }
+
+            this.savedAsMembers.delete(uri.path);
+            this.fireChanges({ type: vscode.FileChangeType.Deleted, uri });
+        }
+        else {
+            throw new FileSystemError("Not connected to IBM i");
+        }
+    }
+
+    /**
+     * Fires the changes made to the files, once they are removed from the cache
+     */
+    private fireChanges(...changes: vscode.FileChangeEvent[]) {
+        this.statCache.invalidate(...changes.map(change => change.uri));
+        this.emitter.fire(changes);
+    }
+
+    private async memberExists(connection: IBMi, uri: vscode.Uri) {
+        return Boolean(await this.getMemberAttributes(connection, { ...Tools.parseQSysPath(uri.path), member: parsePath(uri.path).name }));
+    }
+
+    private async removeMember(connection: IBMi, library: string, file: string, member: string) {
+        const removeMember = await connection.runCommand({
+            command: `RMVM FILE(${library}/${file}) MBR(${member})`,
+            noLibList: true
+        });
+        if (removeMember.code !== 0) {
+            throw FileSystemError.NoPermissions(removeMember.stderr);
+        }
+    }
+
+    private async deleteSourceFile(connection: IBMi, library: string, file: string) {
+        const deleteFile = await connection.runCommand({
+            command: `DLTF FILE(${library}/${file})`,
+            noLibList: true
+        });
+        if (deleteFile.code !== 0) {
+            throw FileSystemError.NoPermissions(deleteFile.stderr);
+        }
     }
-}
\ No newline at end of file
+}
@@ -3,7 +3,9 @@ import tmp from "tmp";
 import util from "util";
 import vscode from "vscode";
 import { GlobalConfiguration } from "../../api/Configuration";
+import { Tools } from "../../api/Tools";
 import { instance } from "../../instantiate";
+import { CommandResult } from "../../typings";
 import { getAliasName, SourceDateHandler } from "./sourceDateHandler";
 
 const tmpFile = util.promisify(tmp.file);
@@ -29,9 +31,9 @@ export class ExtendedIBMiContent {
    * @param {string} mbr 
    */
   async downloadMemberContentWithDates(uri: vscode.Uri) {
-    const content = instance.getContent();
-    const config = instance.getConfig();
-    const connection = instance.getConnection();
+    const content = instance.getContent(uri.authority);
+    const config = instance.getConfig(uri.authority);
+    const connection = instance.getConnection(uri.authority);
     if (connection && config && content) {
       const sourceColourSupport = GlobalConfiguration.get<boolean>(`showSeuColors`);
       const tempLib = config.tempLibrary;
@@ -45,7 +47,7 @@ export class ExtendedIBMiContent {
       }
 
       if (!this.sourceDateHandler.recordLengths.has(alias)) {
-        let recordLength = await this.getRecordLength(aliasPath, library, file);
+        let recordLength = await this.getRecordLength(uri, aliasPath, library, file);
         this.sourceDateHandler.recordLengths.set(alias, recordLength);
       }
 
@@ -85,12 +87,13 @@ export class ExtendedIBMiContent {
 
   /**
    * Determine the member record length 
+   * @param {vscode.Uri} uri
    * @param {string} aliasPath member sql alias path e.g. ILEDITOR.QGPL_QRPGLESC_MYRPGPGM
    * @param {string} lib
    * @param {string} spf
    */
-  private async getRecordLength(aliasPath: string, lib: string, spf: string): Promise<number> {
-    const content = instance.getContent();
+  private async getRecordLength(uri: vscode.Uri, aliasPath: string, lib: string, spf: string): Promise<number> {
+    const content = instance.getContent(uri.authority);
     let recordLength: number = DEFAULT_RECORD_LENGTH;
 
     if (content) {
@@ -115,10 +118,11 @@ export class ExtendedIBMiContent {
    * Upload to a member with source dates 
    * @param {vscode.Uri} uri
    * @param {string} body 
+   * @param runCommand runs the CL commands updating the member, in a new job by default
    */
-  async uploadMemberContentWithDates(uri: vscode.Uri, body: string) {
-    const connection = instance.getConnection();
-    const config = instance.getConfig();
+  async uploadMemberContentWithDates(uri: vscode.Uri, body: string, runCommand?: (command: string) => Promise<CommandResult>) {
+    const connection = instance.getConnection(uri.authority);
+    const config = instance.getConfig(uri.authority);
     if (connection && config) {
       const setccsid = connection.remoteFeatures.setccsid;
 
@@ -137,7 +141,7 @@ export class ExtendedIBMiContent {
         const tmpobj = await tmpFile();
 
         const sourceData = body.split(`\n`);
-        const recordLength = this.sourceDateHandler.recordLengths.get(alias) || await this.getRecordLength(aliasPath, library, file);
+        const recordLength = this.sourceDateHandler.recordLengths.get(alias) || await this.getRecordLength(uri, aliasPath, library, file);
 
         const decimalSequence = sourceData.length >= 10000;
 
@@ -164,7 +168,8 @@ export class ExtendedIBMiContent {
         }
 
         //We assume the alias still exists....
-        const tempTable = `QTEMP.NEWMEMBER`;
+        // Dropped at the end, as the job running the statements may be used again
+        const tempTable = `QTEMP.${Tools.makeid().toUpperCase()}`;
         const query: string[] = [
           `CREATE TABLE ${tempTable} LIKE "${library}"."${file}";`,
         ];
@@ -181,7 +186,8 @@ export class ExtendedIBMiContent {
 
         query.push(
           `CALL QSYS2.QCMDEXC('CLRPFM FILE(${library}/${file}) MBR(${name})');`,
-          `insert into ${aliasPath} (select * from ${tempTable});`
+          `insert into ${aliasPath} (select * from ${tempTable});`,
+          `drop table ${tempTable};`
         )
 
         await writeFileAsync(tmpobj, query.join(`\n`), `utf8`);
@@ -191,10 +197,8 @@ export class ExtendedIBMiContent {
           await connection.sendCommand({ command: `${setccsid} 1208 ${tempRmt}` });
         }
 
-        const insertResult = await connection.runCommand({
-          command: `QSYS/RUNSQLSTM SRCSTMF('${tempRmt}') COMMIT(*NONE) NAMING(*SQL)`,
-          noLibList: true
-        });
+        const command = `QSYS/RUNSQLSTM SRCSTMF('${tempRmt}') COMMIT(*NONE) NAMING(*SQL)`;
+        const insertResult = runCommand ? await runCommand(command) : await connection.runCommand({ command, noLibList: true });
 
         if (insertResult.code !== 0) {
           throw new Error(`Failed to save member: ` + insertResult.stderr);
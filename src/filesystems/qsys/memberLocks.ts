@@ -0,0 +1,180 @@
+import vscode, { l10n } from "vscode";
+import { GlobalConfiguration } from "../../api/Configuration";
+import IBMi, { MemberParts } from "../../api/IBMi";
+import { SqlJob, SqlSession } from "../../components/sqlSession";
+import { instance } from "../../instantiate";
+import { CommandResult } from "../../typings";
+
+export type LockResult = {
+  locked: true
+} | {
+  locked: false
+  /** The job holding the member, like `123456/USER/QPADEV0001` */
+  job: string
+}
+
+type MemberLock = {
+  uri: vscode.Uri
+  member: MemberParts
+}
+
+type ConnectionLocks = {
+  /** A job kept open to hold the locks: they are released by the system when it ends */
+  job: Promise<SqlJob>
+  members: Map<string, MemberLock>
+}
+
+/**
+ * Keeps an `*EXCLRD` lock on the members opened for edit, so they can be read but not changed by other jobs, like SEU does.
+ * The locks are allocated by a SQL job started for them, which also saves the members, and released when the last editor of the member is closed or when the connection ends.
+ */
+export namespace MemberLocks {
+  const connections: Map<string, ConnectionLocks> = new Map;
+
+  export function initialize(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      vscode.window.tabGroups.onDidChangeTabs(({ closed }) => {
+        if (closed.length) {
+          releaseClosed();
+        }
+      })
+    );
+
+    instance.subscribe(context, 'disconnected', `Forget member locks`, (connection?: IBMi) => {
+      for (const [name, locks] of connections) {
+        if (!connection || connection.currentConnectionName === name) {
+          // Ending the job releases its locks
+          locks.job.then(job => job.end(), () => undefined);
+          connections.delete(name);
+        }
+      }
+    });
+  }
+
+  export function isEnabled() {
+    return GlobalConfiguration.get<boolean>(`exclusiveMemberEditing`) === true;
+  }
+
+  /**
+   * Locks a member for this connection, unless it is already
+   * @param path the path of the member, like `LIB/FILE/MEMBER.EXT`
+   * @returns `locked: false` with the job holding the member when another job is using it
+   * @throws an Error if the member cannot be locked for another reason, like when the locks cannot be held on this system
+   */
+  export async function acquire(connection: IBMi, path: string): Promise<LockResult> {
+    const member = connection.parserMemberPath(path);
+    const key = toKey(member);
+    const locks = getLocks(connection);
+    if (locks.members.has(key)) {
+      return { locked: true };
+    }
+
+    const job = await locks.job;
+    try {
+      await job.execute([{ sql: `CALL QSYS2.QCMDEXC(?)`, parameters: [`ALCOBJ OBJ((${member.library}/${member.file} *FILE *EXCLRD ${member.name})) WAIT(0)`] }]);
+    }
+    catch (error: any) {
+      const holder = job.running ? await findHolder(job, member) : undefined;
+      if (holder) {
+        return { locked: false, job: holder };
+      }
+      if (!job.running) {
+        connections.delete(connection.currentConnectionName);
+      }
+      throw error;
+    }
+
+    locks.members.set(key, { uri: vscode.Uri.from({ scheme: `member`, authority: connection.currentConnectionName, path: path.startsWith(`/`) ? path : `/${path}` }), member });
+    return { locked: true };
+  }
+
+  /**
+   * Releases the lock of a member, for it to be changed by the jobs of this connection
+   */
+  export async function release(uri: vscode.Uri) {
+    const connection = instance.getConnection(uri.authority || undefined);
+    const locks = connection ? connections.get(connection.currentConnectionName) : undefined;
+    if (connection && locks) {
+      const key = toKey(connection.parserMemberPath(uri.path));
+      const lock = locks.members.get(key);
+      if (lock) {
+        locks.members.delete(key);
+        await deallocate(await locks.job, lock.member);
+      }
+    }
+  }
+
+  /**
+   * Gives the way to update a member without releasing its lock: the jobs of the connection cannot change it while it is locked
+   * @returns a function running a CL command in the job locking the member, or `undefined` when this connection does not lock it
+   */
+  export function getCommandRunner(uri: vscode.Uri): ((command: string) => Promise<CommandResult>) | undefined {
+    const connection = instance.getConnection(uri.authority || undefined);
+    const locks = connection ? connections.get(connection.currentConnectionName) : undefined;
+    if (connection && locks?.members.has(toKey(connection.parserMemberPath(uri.path)))) {
+      return async command => {
+        try {
+          await (await locks.job).execute([{ sql: `CALL QSYS2.QCMDEXC(?)`, parameters: [command] }]);
+          return { code: 0, stdout: ``, stderr: `` };
+        }
+        catch (error: any) {
+          return { code: 1, stdout: ``, stderr: error.message || String(error) };
+        }
+      };
+    }
+  }
+
+  function getLocks(connection: IBMi) {
+    let locks = connections.get(connection.currentConnectionName);
+    if (!locks) {
+      const sqlSession = IBMi.backend.sqlJob ? connection.getComponent<SqlSession>(SqlSession.ID) : undefined;
+      const job = sqlSession ? sqlSession.start(connection) : Promise.reject(new Error(l10n.t(`Locking members requires the {0} component.`, SqlSession.ID)));
+      locks = { job, members: new Map };
+      connections.set(connection.currentConnectionName, locks);
+      job.catch(() => connections.delete(connection.currentConnectionName));
+    }
+    return locks;
+  }
+
+  /**
+   * Releases the locks of the members that are no longer opened in an editor
+   */
+  function releaseClosed() {
+    const opened = new Set<string>();
+    for (const tab of vscode.window.tabGroups.all.flatMap(group => group.tabs)) {
+      const uri = tab.input instanceof vscode.TabInputText ? tab.input.uri : tab.input instanceof vscode.TabInputTextDiff ? tab.input.modified : undefined;
+      // The members opened read-only do not need the lock
+      const connection = uri?.scheme === `member` && !/(^|&)readonly=true(&|$)/.test(uri.query) ? instance.getConnection(uri.authority || undefined) : undefined;
+      if (uri && connection) {
+        opened.add(`${connection.currentConnectionName}/${toKey(connection.parserMemberPath(uri.path))}`);
+      }
+    }
+
+    for (const [name, locks] of connections) {
+      for (const [key, lock] of locks.members) {
+        if (!opened.has(`${name}/${key}`)) {
+          release(lock.uri).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  async function deallocate(job: SqlJob, member: MemberParts) {
+    if (job.running) {
+      await job.execute([{ sql: `CALL QSYS2.QCMDEXC(?)`, parameters: [`DLCOBJ OBJ((${member.library}/${member.file} *FILE *EXCLRD ${member.name}))`] }]);
+    }
+  }
+
+  async function findHolder(job: SqlJob, member: MemberParts) {
+    // The lock may have been released in the meantime
+    const [holder] = await job.execute([{
+      sql: `select JOB_NAME from QSYS2.OBJECT_LOCK_INFO where SYSTEM_OBJECT_SCHEMA = ? and SYSTEM_OBJECT_NAME = ? and OBJECT_TYPE = '*FILE' and SYSTEM_TABLE_MEMBER = ? and LOCK_STATE <> '*SHRRD' fetch first row only`,
+      parameters: [member.library, member.file, member.name]
+    }]).catch(() => []);
+    return holder?.JOB_NAME ? String(holder.JOB_NAME) : undefined;
+  }
+
+  function toKey(member: MemberParts) {
+    return `${member.library}/${member.file}/${member.name}`;
+  }
+}
@@ -0,0 +1,145 @@
+import path from "path";
+import vscode, { FileSystemError, l10n } from "vscode";
+import { GlobalConfiguration, onCodeForIBMiConfigurationChange } from "../api/Configuration";
+import { Tools } from "../api/Tools";
+
+interface ModifyTime {
+  /** Only used to compare the times: `attr` writes the time of the system, which is read as GMT */
+  time: number
+  /** As written by `attr`, to show it */
+  text: string
+}
+
+/**
+ * Polls the modification time of the open documents of a file system, to find the changes made on the system by other users or jobs.
+ * The documents that are not modified are reloaded by VS Code; the others are only reported, and saving them asks before overwriting the remote changes.
+ */
+export class RemoteChangeWatcher implements vscode.Disposable {
+  /** The modification time of the version opened in the editors, by URI */
+  private readonly opened: Map<string, number> = new Map;
+  /** The modification time already reported, by URI */
+  private readonly reported: Map<string, number> = new Map;
+  private readonly subscriptions: vscode.Disposable[] = [];
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  /**
+   * @param getModifyTime returns the `MODIFY_TIME` attribute of a file on the system, or `undefined` when it cannot be found
+   * @param onChanged fires the `onDidChangeFile` event of the file system
+   */
+  constructor(private readonly scheme: string, private readonly getModifyTime: (uri: vscode.Uri) => Promise<string | undefined>, private readonly onChanged: (uris: vscode.Uri[]) => void) {
+    this.subscriptions.push(
+      onCodeForIBMiConfigurationChange(`remoteChangeInterval`, () => this.schedule()),
+      vscode.workspace.onDidOpenTextDocument(document => {
+        // The reads made for other purposes, like a diff or a search, are not tracked
+        if (document.uri.scheme === this.scheme && !this.opened.has(document.uri.toString())) {
+          this.track(document.uri);
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.opened.delete(document.uri.toString());
+        this.reported.delete(document.uri.toString());
+      })
+    );
+    this.schedule();
+  }
+
+  /**
+   * Keeps the modification time of the version being reloaded or saved in an editor. It is read before the content, so a change made in between is found by the next check.
+   * The documents being opened are tracked once they are open.
+   */
+  async track(uri: vscode.Uri) {
+    if (this.enabled() && vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString())) {
+      const modifyTime = await this.readModifyTime(uri);
+      if (modifyTime) {
+        this.opened.set(uri.toString(), modifyTime.time);
+        this.reported.delete(uri.toString());
+      }
+    }
+  }
+
+  /**
+   * Asks before saving over a version newer than the one opened
+   * @throws a {@link FileSystemError} when the remote version must be kept
+   */
+  async checkBeforeSave(uri: vscode.Uri) {
+    const opened = this.opened.get(uri.toString());
+    if (opened && this.enabled()) {
+      const modifyTime = await this.readModifyTime(uri);
+      if (modifyTime && modifyTime.time > opened) {
+        const overwrite = l10n.t(`Overwrite`);
+        if (await vscode.window.showWarningMessage(l10n.t(`{0} was changed on the system at {1}, after it was opened.`, path.basename(uri.path), modifyTime.text), {
+          modal: true,
+          detail: l10n.t(`Saving it will overwrite those changes.`)
+        }, overwrite) !== overwrite) {
+          throw FileSystemError.Unavailable(l10n.t(`{0} was not saved to keep the changes made on the system.`, path.basename(uri.path)));
+        }
+      }
+    }
+  }
+
+  dispose() {
+    clearTimeout(this.timer);
+    this.subscriptions.forEach(subscription => subscription.dispose());
+  }
+
+  private async readModifyTime(uri: vscode.Uri): Promise<ModifyTime | undefined> {
+    const text = await this.getModifyTime(uri).catch(() => undefined);
+    const time = text ? Tools.parseAttrDate(text) : 0;
+    return text && time ? { time, text } : undefined;
+  }
+
+  private enabled() {
+    return this.getInterval() > 0;
+  }
+
+  private getInterval() {
+    return GlobalConfiguration.get<number>(`remoteChangeInterval`) ?? 30;
+  }
+
+  private schedule() {
+    clearTimeout(this.timer);
+    if (this.enabled()) {
+      this.timer = setTimeout(() => this.check().finally(() => this.schedule()), this.getInterval() * 1000);
+    }
+  }
+
+  private async check() {
+    // Not worth the commands while VS Code is in the background
+    if (this.checking || !vscode.window.state.focused) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      const documents = vscode.workspace.textDocuments.filter(document => document.uri.scheme === this.scheme);
+      // Forget the files read without being opened in an editor
+      const openKeys = new Set(documents.map(document => document.uri.toString()));
+      Array.from(this.opened.keys()).filter(key => !openKeys.has(key)).forEach(key => this.opened.delete(key));
+
+      const changed: vscode.Uri[] = [];
+      for (const document of documents) {
+        const key = document.uri.toString();
+        const opened = this.opened.get(key);
+        if (opened) {
+          const modifyTime = await this.readModifyTime(document.uri);
+          if (modifyTime && modifyTime.time > opened && modifyTime.time !== this.reported.get(key)) {
+            this.reported.set(key, modifyTime.time);
+            changed.push(document.uri);
+
+            if (document.isDirty) {
+              vscode.window.showWarningMessage(l10n.t(`{0} was changed on the system at {1}. You will be asked before saving over those changes.`, path.basename(document.uri.path), modifyTime.text));
+            }
+          }
+        }
+      }
+
+      if (changed.length) {
+        this.onChanged(changed);
+      }
+    }
+    finally {
+      this.checking = false;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import vscode, { FileSystemError } from "vscode";
+import { instance } from "../instantiate";
+import { IBMiSpooledFile } from "../typings";
+import { reconnectFS } from "./qsys/FSUtils";
+
+const SPOOLED_FILE_PATH = /^\/(?<job>[^/]+\/[^/]+\/[^/]+)\/(?<name>.+)\.(?<number>\d+)\.splf$/i;
+
+/**
+ * Spooled files are opened using `spooledfile://<connection>/<job number>/<job user>/<job name>/<spooled file name>.<spooled file number>.splf`
+ * @param connectionName the connection the spooled file belongs to, kept as the URI authority; the active connection by default
+ */
+export function getSpooledFileUri(spooledFile: Pick<IBMiSpooledFile, "job" | "name" | "number">, connectionName = instance.getConnection()?.currentConnectionName) {
+  return vscode.Uri.from({
+    scheme: `spooledfile`,
+    authority: connectionName || ``,
+    path: `/${spooledFile.job}/${spooledFile.name}.${spooledFile.number}.splf`
+  });
+}
+
+export function parseSpooledFileUri(uri: vscode.Uri): Pick<IBMiSpooledFile, "job" | "name" | "number"> {
+  const parsed = SPOOLED_FILE_PATH.exec(uri.path)?.groups;
+  if (parsed) {
+    return {
+      job: parsed.job.toUpperCase(),
+      name: parsed.name.toUpperCase(),
+      number: Number(parsed.number)
+    };
+  }
+  else {
+    throw FileSystemError.FileNotFound(uri);
+  }
+}
+
+/**
+ * Read-only file system used to browse spooled files content
+ */
+export class SpooledFileFS implements vscode.FileSystemProvider {
+  private emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this.emitter.event;
+
+  watch(uri: vscode.Uri, options: { readonly recursive: boolean; readonly excludes: readonly string[]; }): vscode.Disposable {
+    return { dispose: () => { } };
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    return {
+      ctime: 0,
+      mtime: 0,
+      size: 0,
+      type: vscode.FileType.File,
+      permissions: vscode.FilePermission.Readonly
+    }
+  }
+
+  async readFile(uri: vscode.Uri, retrying?: boolean): Promise<Uint8Array> {
+    const spooledFile = parseSpooledFileUri(uri);
+    const contentApi = instance.getContent(uri.authority || undefined);
+    if (contentApi) {
+      return Buffer.from(await contentApi.getSpooledFileContent(spooledFile), `utf8`);
+    }
+    else {
+      if (retrying) {
+        throw new FileSystemError("Not connected to IBM i");
+      }
+      else {
+        if (await reconnectFS(uri)) {
+          return this.readFile(uri, true);
+        }
+        else {
+          return Buffer.alloc(0);
+        }
+      }
+    }
+  }
+
+  writeFile(uri: vscode.Uri, content: Uint8Array, options: { readonly create: boolean; readonly overwrite: boolean; }) {
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+    throw FileSystemError.FileNotADirectory(uri);
+  }
+
+  createDirectory(uri: vscode.Uri) {
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean; }) {
+    throw FileSystemError.NoPermissions(oldUri);
+  }
+
+  delete(uri: vscode.Uri, options: { readonly recursive: boolean; }) {
+    throw FileSystemError.NoPermissions(uri);
+  }
+}
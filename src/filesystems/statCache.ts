@@ -0,0 +1,53 @@
+import vscode, { FileSystemError } from "vscode";
+
+/**
+ * Keeps the results of `stat` for a few seconds: VS Code asks for the same files many times when they are shown in the Explorer.
+ * The files that were not found are kept too, as VS Code looks for many of them, like the `.vscode` folder of the workspace folders.
+ */
+export class StatCache {
+  private readonly entries: Map<string, { uri: vscode.Uri, stat: Promise<vscode.FileStat>, expires: number }> = new Map;
+
+  constructor(private readonly duration = 10000) { }
+
+  get(uri: vscode.Uri, load: () => Promise<vscode.FileStat>) {
+    const key = uri.toString();
+    const cached = this.entries.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.stat;
+    }
+
+    const stat = load();
+    this.entries.set(key, { uri, stat, expires: Date.now() + this.duration });
+    stat.catch(error => {
+      // Only the files not found are kept: the other errors may not happen again
+      if (!(error instanceof FileSystemError && error.code === `FileNotFound`)) {
+        this.entries.delete(key);
+      }
+    });
+
+    if (this.entries.size > 1000) {
+      this.entries.forEach((entry, key) => entry.expires <= Date.now() ? this.entries.delete(key) : undefined);
+    }
+    return stat;
+  }
+
+  /**
+   * Forgets the files, their content when they are directories and their parent directory, whose modification time changes with them
+   */
+  invalidate(...uris: vscode.Uri[]) {
+    for (const uri of uris) {
+      const path = uri.path.toLowerCase().replace(/\/$/, ``);
+      const parent = path.substring(0, path.lastIndexOf(`/`)) || `/`;
+      this.entries.forEach((entry, key) => {
+        const entryPath = entry.uri.path.toLowerCase().replace(/\/$/, ``) || `/`;
+        if (entry.uri.authority === uri.authority && (entryPath === path || entryPath === parent || entryPath.startsWith(`${path}/`))) {
+          this.entries.delete(key);
+        }
+      });
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,192 @@
+import path from "path";
+import vscode, { l10n } from "vscode";
+import IBMi from "../api/IBMi";
+import { Search } from "../api/Search";
+import { GlobalStorage } from "../api/Storage";
+import { instance } from "../instantiate";
+import { SearchHit, SearchResults } from "../typings";
+import { parseFSOptions } from "./qsys/QSysFs";
+
+const SCHEMES = [`member`, `streamfile`];
+
+type FileItem = vscode.QuickPickItem & { uri: vscode.Uri };
+
+/**
+ * Goes to the files of the member and streamfile workspace folders, and searches their content.
+ * The Quick Open and the search of VS Code only cover the file systems with a search provider, which is a proposed API.
+ */
+export namespace WorkspaceSearch {
+  /** Walking a folder stops past this number of files */
+  const MAXIMUM_FILES = 10000;
+
+  export function initialize(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`code-for-ibmi.workspaceFolder.goToFile`, async (uri?: vscode.Uri) => {
+        const folder = await pickFolder(uri);
+        const connection = folder ? getConnection(folder) : undefined;
+        if (folder && connection) {
+          await goToFile(folder, connection);
+        }
+      }),
+
+      vscode.commands.registerCommand(`code-for-ibmi.workspaceFolder.search`, async (uri?: vscode.Uri) => {
+        const folder = await pickFolder(uri);
+        const connection = folder ? getConnection(folder) : undefined;
+        if (folder && connection) {
+          const term = await vscode.window.showInputBox({
+            title: l10n.t(`Search {0}`, folder.name),
+            prompt: l10n.t(`Enter search term.`),
+            value: GlobalStorage.get().getPreviousSearchTerms()[0]
+          });
+
+          if (term) {
+            GlobalStorage.get().addPreviousSearchTerm(term);
+            await search(folder, connection, term);
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * @returns the files of a member or streamfile folder and of its subfolders
+   * @throws a `CancellationError` if the token is cancelled
+   */
+  export async function listFiles(connection: IBMi, root: vscode.Uri, token?: vscode.CancellationToken): Promise<vscode.Uri[]> {
+    if (root.scheme === `streamfile` && connection.remoteFeatures.find) {
+      // A single command finds all the streamfiles, skipping the directories the search ignores
+      const results = await instance.runWith(connection, () => Search.findIFS(instance, root.path, ``, token));
+      return (results?.hits || []).filter(hit => hit.path).map(hit => root.with({ path: hit.path }));
+    }
+
+    const files: vscode.Uri[] = [];
+    const directories = [root];
+    for (let directory = directories.shift(); directory && files.length < MAXIMUM_FILES; directory = directories.shift()) {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+
+      for (const [name, type] of await vscode.workspace.fs.readDirectory(directory)) {
+        const uri = vscode.Uri.joinPath(directory, name);
+        (type & vscode.FileType.Directory ? directories : files).push(uri);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * @returns the files of a member or streamfile folder that contain the term
+   * @throws a `CancellationError` if the token is cancelled
+   */
+  export async function searchFiles(connection: IBMi, root: vscode.Uri, term: string, token?: vscode.CancellationToken): Promise<SearchHit[]> {
+    const readonly = parseFSOptions(root).readonly;
+    if (root.scheme === `streamfile`) {
+      const results = await instance.runWith(connection, () => Search.searchIFS(instance, root.path, term, token));
+      return (results?.hits || []).map(hit => ({ ...hit, readonly: readonly || hit.readonly }));
+    }
+
+    // A library folder lists its source files, a source file folder lists its members
+    const parts = root.path.split(`/`).filter(Boolean);
+    const library = parts.length > 1 ? parts[parts.length - 2] : parts[0];
+    const sourceFiles = parts.length > 1 ? [parts[parts.length - 1]] : (await vscode.workspace.fs.readDirectory(root))
+      .filter(([, type]) => type & vscode.FileType.Directory)
+      .map(([name]) => name);
+
+    const hits: SearchHit[] = [];
+    for (const sourceFile of sourceFiles) {
+      const results = await instance.runWith(connection, () => Search.searchMembers(instance, library, sourceFile, term, `*`, readonly, token));
+      hits.push(...results.hits);
+    }
+    return hits;
+  }
+
+  async function goToFile(folder: vscode.WorkspaceFolder, connection: IBMi) {
+    const source = new vscode.CancellationTokenSource();
+    const quickPick = vscode.window.createQuickPick<FileItem>();
+    quickPick.title = l10n.t(`Go to File in {0}`, folder.name);
+    quickPick.placeholder = l10n.t(`Search files by name`);
+    quickPick.matchOnDescription = true;
+    quickPick.busy = true;
+
+    quickPick.onDidAccept(() => {
+      const [item] = quickPick.selectedItems;
+      if (item) {
+        quickPick.hide();
+        vscode.commands.executeCommand(`vscode.open`, item.uri);
+      }
+    });
+    quickPick.onDidHide(() => {
+      source.cancel();
+      quickPick.dispose();
+    });
+    quickPick.show();
+
+    try {
+      const files = await listFiles(connection, folder.uri, source.token);
+      quickPick.items = files.map(uri => ({
+        uri,
+        label: path.posix.basename(uri.path),
+        description: path.posix.relative(folder.uri.path, path.posix.dirname(uri.path)) || undefined
+      }));
+      quickPick.busy = false;
+    }
+    catch (e: any) {
+      if (!(e instanceof vscode.CancellationError)) {
+        quickPick.hide();
+        vscode.window.showErrorMessage(l10n.t(`Error listing the files of {0}: {1}`, folder.name, e.message || String(e)));
+      }
+    }
+  }
+
+  async function search(folder: vscode.WorkspaceFolder, connection: IBMi, term: string) {
+    try {
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: l10n.t(`Searching`),
+        cancellable: true
+      }, async (progress, token) => {
+        progress.report({ message: l10n.t(`"{0}" in {1}.`, term, folder.name) });
+        const hits = await searchFiles(connection, folder.uri, term, token);
+        if (hits.length) {
+          await vscode.commands.executeCommand(`code-for-ibmi.setSearchResults`, { term, hits, connection: connection.currentConnectionName } as SearchResults);
+        }
+        else {
+          vscode.window.showInformationMessage(l10n.t(`No results found searching for "{0}" in {1}.`, term, folder.name));
+        }
+      });
+    }
+    catch (e: any) {
+      if (!(e instanceof vscode.CancellationError)) {
+        vscode.window.showErrorMessage(l10n.t(`Error searching {0}: {1}`, folder.name, e.message || String(e)));
+      }
+    }
+  }
+
+  /**
+   * @param uri a workspace folder, when the command is run from the Explorer
+   * @returns the member or streamfile workspace folder to search, asked for when there are several of them
+   */
+  async function pickFolder(uri?: vscode.Uri) {
+    const folders = (vscode.workspace.workspaceFolders || []).filter(folder => SCHEMES.includes(folder.uri.scheme));
+    const folder = uri ? folders.find(folder => folder.uri.toString() === uri.toString()) : undefined;
+    if (folder || folders.length === 1) {
+      return folder || folders[0];
+    }
+    else if (folders.length) {
+      return (await vscode.window.showQuickPick(folders.map(folder => ({ label: folder.name, description: folder.uri.authority, folder })), {
+        title: l10n.t(`Select a workspace folder`)
+      }))?.folder;
+    }
+    else {
+      vscode.window.showInformationMessage(l10n.t(`There is no member or streamfile workspace folder. Use Open as Workspace Folder in the Object Browser or the IFS Browser to add one.`));
+    }
+  }
+
+  function getConnection(folder: vscode.WorkspaceFolder) {
+    const connection = instance.getConnection(folder.uri.authority || undefined);
+    if (!connection) {
+      vscode.window.showErrorMessage(l10n.t(`Connect to {0} to search {1}.`, folder.uri.authority, folder.name));
+    }
+    return connection;
+  }
+}
@@ -1,6 +1,8 @@
 
 import * as vscode from "vscode";
+import { CommandHistory } from "./api/CommandHistory";
 import { GlobalConfiguration, onCodeForIBMiConfigurationChange } from "./api/Configuration";
+import IBMi from "./api/IBMi";
 import Instance from "./api/Instance";
 import { Terminal } from './api/Terminal';
 import { getDebugServiceDetails } from './api/debug/config';
@@ -11,6 +13,7 @@ import { registerCompareCommands } from './commands/compare';
 import { registerConnectionCommands } from './commands/connection';
 import { registerOpenCommands } from './commands/open';
 import { registerPasswordCommands } from './commands/password';
+import { registerSSHKeyCommands } from './commands/sshKey';
 import { QSysFS } from "./filesystems/qsys/QSysFs";
 import { SEUColorProvider } from "./languages/general/SEUColorProvider";
 import { ActionsUI } from './webviews/actions';
@@ -32,12 +35,17 @@ connectedBarItem.command = {
   title: `Show connection settings`
 };
 
-export async function safeDisconnect(): Promise<boolean> {
+/**
+ * Ends a connection, unless some of its sources have not been saved and the user chooses to keep it
+ * @param name the name of the connection to end, the active connection by default
+ */
+export async function safeDisconnect(name?: string): Promise<boolean> {
   let doDisconnect = true;
+  const connectionName = instance.getConnection(name)?.currentConnectionName;
 
   for (const document of vscode.workspace.textDocuments) {
     // This code will check that sources are saved before closing
-    if (!document.isClosed && [`member`, `streamfile`, `object`].includes(document.uri.scheme)) {
+    if (!document.isClosed && [`member`, `streamfile`, `object`].includes(document.uri.scheme) && isFromConnection(document.uri, connectionName)) {
       if (document.isDirty) {
         if (doDisconnect) {
           if (await vscode.window.showTextDocument(document).then(() => vscode.window.showErrorMessage(`Cannot disconnect while files have not been saved.`, 'Disconnect anyway'))) {
@@ -52,12 +60,32 @@ export async function safeDisconnect(): Promise<boolean> {
   }
 
   if (doDisconnect) {
-    await instance.disconnect();
+    await instance.disconnect(connectionName);
   }
 
   return doDisconnect;
 }
 
+/**
+ * Registers a command receiving a tree item, like a browser item: the command runs for the connection of the item, without changing the active one,
+ * so it applies to the system the item comes from. The calls it makes are recorded in the command history with the command as their caller.
+ */
+export function registerItemCommand(command: string, callback: (...args: any[]) => any) {
+  return vscode.commands.registerCommand(command, (item?: unknown, ...args: any[]) => {
+    const connectionName = item instanceof vscode.TreeItem ? (item as { connectionName?: unknown }).connectionName : undefined;
+    const connection = typeof connectionName === `string` && connectionName ? instance.getConnection(connectionName) : undefined;
+    const run = () => CommandHistory.withCaller(command, () => callback(item, ...args));
+    return connection ? instance.runWith(connection, run) : run();
+  });
+}
+
+/**
+ * URIs without an authority belong to the active connection
+ */
+function isFromConnection(uri: vscode.Uri, connectionName?: string) {
+  return connectionName !== undefined && instance.getConnection(uri.authority)?.currentConnectionName === connectionName;
+}
+
 export async function loadAllofExtension(context: vscode.ExtensionContext) {
   // No connection when the extension is first activated
   vscode.commands.executeCommand(`setContext`, `code-for-ibmi:connected`, false);
@@ -81,6 +109,7 @@ export async function loadAllofExtension(context: vscode.ExtensionContext) {
     ...Terminal.registerTerminalCommands(context),
 
     ...registerPasswordCommands(context, instance),
+    ...registerSSHKeyCommands(context, instance),
 
     vscode.commands.registerCommand("code-for-ibmi.updateConnectedBar", updateConnectedBar),
   );
@@ -89,6 +118,7 @@ export async function loadAllofExtension(context: vscode.ExtensionContext) {
   VariablesUI.initialize(context);
   instance.subscribe(context, 'connected', 'Load status bars', onConnected);
   instance.subscribe(context, 'disconnected', 'Unload status bars', onDisconnected);
+  instance.subscribe(context, 'switched', 'Update status bars', onConnected);
 
   context.subscriptions.push(
     vscode.workspace.registerFileSystemProvider(`member`, new QSysFS(context), {
@@ -110,7 +140,8 @@ export async function loadAllofExtension(context: vscode.ExtensionContext) {
 async function updateConnectedBar() {
   const config = instance.getConnection()?.getConfig();
   if (config) {
-    connectedBarItem.text = `$(${config.readOnlyMode ? "lock" : "settings-gear"}) ${config.name}`;
+    const others = instance.getConnections().length - 1;
+    connectedBarItem.text = `$(${config.readOnlyMode ? "lock" : "settings-gear"}) ${config.name}${others ? ` (+${others})` : ``}`;
   }
 
   const debugRunning = await isDebugEngineRunning();
@@ -118,6 +149,7 @@ async function updateConnectedBar() {
     `[$(settings-gear) Settings](command:code-for-ibmi.showAdditionalSettings)`,
     `[$(file-binary) Actions](command:code-for-ibmi.showActionsMaintenance)`,
     `[$(terminal) Terminals](command:code-for-ibmi.launchTerminalPicker)`,
+    ...instance.getConnections().length > 1 ? [`[$(arrow-swap) Switch connection](command:code-for-ibmi.switchConnection)`] : [],
     debugPTFInstalled() ?
       `[$(${debugRunning ? "bug" : "debug"}) Debugger ${((await getDebugServiceDetails()).version)} (${debugRunning ? "on" : "off"})](command:ibmiDebugBrowser.focus)`
       :
@@ -139,25 +171,30 @@ async function onConnected() {
   vscode.commands.executeCommand(`setContext`, `code-for-ibmi:hasProfiles`, (config?.connectionProfiles || []).length > 0);
 }
 
-async function onDisconnected() {
-  // Close the tabs with no dirty editors
+async function onDisconnected(connection?: IBMi) {
+  // Close the tabs of the connection with no dirty editors
+  const connectionName = connection?.currentConnectionName;
   vscode.window.tabGroups.all
     .filter(group => !group.tabs.some(tab => tab.isDirty))
     .forEach(group => {
       group.tabs.forEach(tab => {
         if (tab.input instanceof vscode.TabInputText) {
           const uri = tab.input.uri;
-          if ([`member`, `streamfile`, `object`].includes(uri.scheme)) {
+          if ([`member`, `streamfile`, `object`, `spooledfile`].includes(uri.scheme) && (!instance.getConnection() || uri.authority.toLowerCase() === connectionName?.toLowerCase())) {
             vscode.window.tabGroups.close(tab);
           }
         }
       })
     });
 
-  // Hide the bar items
-  [
-    disconnectBarItem,
-    connectedBarItem,
-  ].forEach(barItem => barItem.hide())
+  if (instance.getConnection()) {
+    updateConnectedBar();
+  }
+  else {
+    // Hide the bar items
+    [
+      disconnectBarItem,
+      connectedBarItem,
+    ].forEach(barItem => barItem.hide())
+  }
 }
-
@@ -3,6 +3,7 @@ import { TestSuite } from ".";
 import { Tools } from "../api/Tools";
 import { GetMemberInfo } from "../components/getMemberInfo";
 import { GetNewLibl } from "../components/getNewLibl";
+import { SqlSession } from "../components/sqlSession";
 import { instance } from "../instantiate";
 
 export const ComponentSuite: TestSuite = {
@@ -60,5 +61,38 @@ export const ComponentSuite: TestSuite = {
         }
       }
     },
+    {
+      name: `Check SQL session`, test: async () => {
+        const connection = instance.getConnection()!;
+        const component = connection.getComponent<SqlSession>(SqlSession.ID);
+        if (!component) {
+          // The session requires the python3-ibm_db package
+          return;
+        }
+
+        const job = await component.start(connection);
+        try {
+          const rows = await job.execute([`select 1 as NUMBER, 'A  ' as TEXT, cast(null as char(1)) as NOTHING from sysibm.sysdummy1`]);
+          assert.deepStrictEqual(rows, [{ NUMBER: 1, TEXT: `A`, NOTHING: null }]);
+
+          await assert.rejects(job.execute([`select * from QSYS2.OH_NONO`]), (error: any) => error instanceof Tools.SqlError && error.sqlstate === `42704`);
+
+          // The job keeps running after an error
+          const { columns, rows: [typed] } = await job.query([{
+            sql: `select cast(? as char(5)) as DIGITS, cast(? as decimal(7, 2)) as AMOUNT, date('2024-02-29') as DAY from sysibm.sysdummy1`,
+            parameters: [`00042`, 12.5]
+          }]);
+          assert.deepStrictEqual(columns.map(column => column.name), [`DIGITS`, `AMOUNT`, `DAY`]);
+          assert.strictEqual(columns[1].scale, 2);
+          assert.strictEqual(typed.DIGITS, `00042`);
+          assert.strictEqual(typed.AMOUNT, 12.5);
+          assert.ok(typed.DAY instanceof Date);
+          assert.strictEqual(typed.DAY.getDate(), 29);
+        }
+        finally {
+          job.end();
+        }
+      }
+    },
   ]
 };
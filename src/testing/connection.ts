@@ -1,11 +1,51 @@
 import assert from "assert";
+import net from "net";
+import vscode from "vscode";
 import { TestSuite } from ".";
 import { instance } from "../instantiate";
+import { CommandHistory } from "../api/CommandHistory";
+import IBMi from "../api/IBMi";
 import { Tools } from "../api/Tools";
+import { SqlSession } from "../components/sqlSession";
+import { getUriFromPath } from "../filesystems/qsys/QSysFs";
 
 export const ConnectionSuite: TestSuite = {
   name: `Connection tests`,
   tests: [
+    {
+      name: `Test getConnection by name`, test: async () => {
+        const connection = instance.getConnection()!;
+        const name = connection.currentConnectionName;
+
+        assert.strictEqual(instance.getConnection(name), connection);
+        assert.strictEqual(instance.getConnection(name.toLowerCase()), connection);
+        assert.ok(instance.getConnections().includes(connection));
+        assert.strictEqual(instance.getConnection(`${name}_not_connected`), undefined);
+
+        const uri = getUriFromPath(`QSYSINC/H/STDIO.C`);
+        assert.strictEqual(instance.getConnection(uri.authority), connection);
+      }
+    },
+
+    {
+      name: `Test running for a connection`, test: async () => {
+        const connection = instance.getConnection()!;
+
+        await instance.runWith(connection, async () => {
+          await connection.sendCommand({ command: `echo` });
+          assert.strictEqual(instance.getConnection(), connection);
+        });
+
+        // A task for a connection that ended does not run against the active one
+        await instance.runWith(new IBMi(), async () => {
+          await connection.sendCommand({ command: `echo` });
+          assert.strictEqual(instance.getConnection(), undefined);
+          assert.strictEqual(instance.getConnection(connection.currentConnectionName), connection);
+        });
+        assert.strictEqual(instance.getConnection(), connection);
+      }
+    },
+
     {
       name: `Test sendCommand`, test: async () => {
         const connection = instance.getConnection();
@@ -19,6 +59,27 @@ export const ConnectionSuite: TestSuite = {
       }
     },
 
+    {
+      name: `Test port forwarding`, test: async () => {
+        const connection = instance.getConnection()!;
+        const localPort = await connection.forwardPort(connection.currentPort);
+
+        assert.strictEqual(await connection.forwardPort(connection.currentPort), localPort);
+        assert.deepStrictEqual(connection.getServiceAddress(connection.currentPort), { host: `localhost`, port: localPort });
+
+        //The SSH daemon greets its clients with its version
+        const banner = await new Promise<string>((resolve, reject) => {
+          const socket = net.connect(localPort, `127.0.0.1`);
+          socket.once(`data`, data => {
+            socket.destroy();
+            resolve(data.toString());
+          });
+          socket.once(`error`, reject);
+        });
+        assert.ok(banner.startsWith(`SSH-`));
+      }
+    },
+
     {
       name: `Test sendCommand home directory`, test: async () => {
         const connection = instance.getConnection();
@@ -66,6 +127,72 @@ export const ConnectionSuite: TestSuite = {
       }
     },
 
+    {
+      name: `Test sendCommand cancellation`, test: async () => {
+        const connection = instance.getConnection()!;
+        const source = new vscode.CancellationTokenSource();
+        setTimeout(() => source.cancel(), 500);
+
+        const start = Date.now();
+        await assert.rejects(connection.sendCommand({ command: `sleep 60`, token: source.token }), vscode.CancellationError);
+        assert.ok(Date.now() - start < 30000);
+
+        const result = await connection.sendCommand({ command: `echo "still connected"` });
+        assert.strictEqual(result.stdout, `still connected`);
+      }
+    },
+
+    {
+      name: `Test runSQL cancellation`, test: async () => {
+        const connection = instance.getConnection()!;
+        const source = new vscode.CancellationTokenSource();
+        setTimeout(() => source.cancel(), 500);
+
+        // Cancelling a statement does not end the job shared by the other ones
+        const [before] = (await connection.runStatements({ sql: `values qsys2.job_name` })).rows;
+        const shared = connection.runStatements({ sql: `select 1 as ONE from sysibm.sysdummy1` });
+        await assert.rejects(connection.runSQL(`CALL QSYS2.QCMDEXC('DLYJOB DLY(60)')`, { sqlJob: true, token: source.token }), vscode.CancellationError);
+        assert.strictEqual((await shared).rows[0].ONE, 1);
+
+        const [row] = (await connection.runStatements({ sql: `select 2 as TWO, qsys2.job_name as JOB from sysibm.sysdummy1` })).rows;
+        assert.strictEqual(row.TWO, 2);
+        if (connection.getComponent<SqlSession>(SqlSession.ID)) {
+          assert.strictEqual(row.JOB, Object.values(before)[0]);
+        }
+      }
+    },
+
+    {
+      name: `Test command history`, test: async () => {
+        const connection = instance.getConnection()!;
+        await connection.sendQsh({ command: `echo "history"` });
+
+        const entry = CommandHistory.getEntries().filter(entry => entry.command === `echo "history"`).pop();
+        assert.ok(entry);
+        assert.strictEqual(entry.api, `sendQsh`);
+        assert.strictEqual(entry.environment, `qsh`);
+        assert.strictEqual(entry.code, 0);
+        assert.strictEqual(entry.outputSize, Buffer.byteLength(`history`));
+        assert.ok(entry.duration !== undefined);
+        assert.deepStrictEqual(entry.children.map(child => child.api), [`sendCommand`]);
+      }
+    },
+
+    {
+      name: `Test command history callers`, test: async () => {
+        const connection = instance.getConnection()!;
+        await connection.sendQsh({ command: `echo "caller"`, caller: `Test` });
+        await CommandHistory.withCaller(`Scope`, () => connection.sendQsh({ command: `echo "scope"` }));
+
+        const entry = CommandHistory.getEntries().filter(entry => entry.command === `echo "caller"`).pop();
+        assert.strictEqual(entry?.caller, `Test`);
+        assert.deepStrictEqual(entry.children.map(child => child.caller), [`Test`]);
+
+        const scoped = CommandHistory.getEntries().filter(entry => entry.command === `echo "scope"`).pop();
+        assert.strictEqual(scoped?.caller, `Scope`);
+      }
+    },
+
     {
       name: `Test getTempRemote`, test: async () => {
         const connection = instance.getConnection();
@@ -190,6 +317,30 @@ export const ConnectionSuite: TestSuite = {
       }
     },
 
+    {
+      name: `Test runCommand (with job log)`, test: async () => {
+        const connection = instance.getConnection();
+
+        const result = await connection?.runCommand({
+          command: `CHKOBJ OBJ(QSYS/NOEXIST) OBJTYPE(*DTAARA)`,
+          noLibList: true,
+          captureJobLog: true
+        });
+
+        assert.notStrictEqual(result?.code, 0);
+        assert.ok(result?.jobLog?.some(message => message.id === `CPF9801` && message.secondLevelText));
+
+        const successful = await connection?.runCommand({
+          command: `CHKOBJ OBJ(QSYS/QSYSINC) OBJTYPE(*LIB)`,
+          noLibList: true,
+          captureJobLog: true
+        });
+
+        assert.strictEqual(successful?.code, 0);
+        assert.strictEqual(successful?.jobLog, undefined);
+      }
+    },
+
     {
       name: `Test runCommand (ILE, custom libl)`, test: async () => {
         const connection = instance.getConnection();
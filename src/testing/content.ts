@@ -3,10 +3,15 @@ import { randomInt } from "crypto";
 import { posix } from "path";
 import tmp from 'tmp';
 import util, { TextDecoder } from 'util';
-import { Uri, workspace } from "vscode";
+import { FileType, Uri, workspace } from "vscode";
 import { TestSuite } from ".";
+import { CLCommand } from "../api/CLCommand";
 import { Tools } from "../api/Tools";
-import { getMemberUri } from "../filesystems/qsys/QSysFs";
+import { SqlSession } from "../components/sqlSession";
+import { LocalHistory } from "../filesystems/localHistory";
+import { MemberLocks } from "../filesystems/qsys/memberLocks";
+import { getMemberUri, getUriFromPath } from "../filesystems/qsys/QSysFs";
+import { WorkspaceSearch } from "../filesystems/workspaceSearch";
 import { instance } from "../instantiate";
 import { CommandResult } from "../typings";
 
@@ -338,6 +343,24 @@ export const ContentSuite: TestSuite = {
       }
     },
 
+    {
+      name: `Test runStatements`, test: async () => {
+        const connection = instance.getConnection()!;
+
+        const { columns, rows: [row] } = await connection.runStatements({
+          sql: `select cast(? as varchar(20)) as TEXT, cast(? as integer) + 1 as NEXT, '?' as MARK, cast(? as char(5)) as CODE from sysibm.sysdummy1`,
+          parameters: [`It's 007`, 41, `00042`]
+        });
+
+        assert.deepStrictEqual(columns.map(column => column.name), [`TEXT`, `NEXT`, `MARK`, `CODE`]);
+        assert.strictEqual(row.TEXT, `It's 007`);
+        assert.strictEqual(row.NEXT, 42);
+        assert.strictEqual(row.MARK, `?`);
+        // Digits in a character column stay a string, with or without the SQL job
+        assert.strictEqual(row.CODE, `00042`);
+      }
+    },
+
     {
       name: `Test getTable`, test: async () => {
         const connection = instance.getConnection();
@@ -578,8 +601,84 @@ export const ContentSuite: TestSuite = {
         assert.notStrictEqual(qrpglesrc, undefined);
         assert.strictEqual(qrpglesrc?.attribute === "PF", true);
         assert.strictEqual(qrpglesrc?.type === "*FILE", true);
+
+        // Each call has its own job and QTEMP: the tables can be created again
+        const again = await content?.getQTempTable(queries, "OBJECTS");
+        assert.strictEqual(again?.length, nosqlContent?.length);
       },
     },
+    {
+      name: `Test save files`, test: async () => {
+        const config = instance.getConfig()!;
+        const content = instance.getContent()!;
+        const tempLib = config.tempLibrary;
+        const sourceFile = Tools.makeid(6).toUpperCase();
+        const saveFile = { library: tempLib, name: Tools.makeid(6).toUpperCase() };
+        const uploadedSaveFile = { library: tempLib, name: Tools.makeid(6).toUpperCase() };
+        const localFile = await util.promisify(tmp.file)();
+
+        await instance.getConnection()!.runCommand({ command: `CRTSRCPF FILE(${tempLib}/${sourceFile}) RCDLEN(112)`, noLibList: true });
+        try {
+          await content.saveToSaveFile(saveFile, { library: tempLib, objects: [sourceFile], types: [`*FILE`] });
+          const saved = await content.getSaveFileObjects(saveFile);
+          assert.ok(saved.some(object => object.name === sourceFile && object.library === tempLib));
+
+          await content.downloadSaveFile(saveFile, localFile);
+          assert.ok((await workspace.fs.stat(Uri.file(localFile))).size > 0);
+
+          await content.uploadSaveFile(localFile, uploadedSaveFile);
+          await instance.getConnection()!.runCommand({ command: `DLTF FILE(${tempLib}/${sourceFile})`, noLibList: true });
+          assert.strictEqual(await content.checkObject({ library: tempLib, name: sourceFile, type: `*FILE` }), false);
+
+          await content.restoreFromSaveFile(uploadedSaveFile, { savedLibrary: tempLib, objects: [sourceFile] });
+          assert.ok(await content.checkObject({ library: tempLib, name: sourceFile, type: `*FILE` }));
+        }
+        finally {
+          for (const file of [sourceFile, saveFile.name, uploadedSaveFile.name]) {
+            await instance.getConnection()!.runCommand({ command: `DLTF FILE(${tempLib}/${file})`, noLibList: true });
+          }
+        }
+      }
+    },
+    {
+      name: `Test database file records`, test: async () => {
+        const config = instance.getConfig()!;
+        const content = instance.getContent()!;
+        const tempLib = config.tempLibrary;
+        const file = Tools.makeid(6).toUpperCase();
+
+        await content.runStatements(`create table ${tempLib}.${file} (ID integer not null, NAME varchar(20), AMOUNT decimal(7, 2))`);
+        try {
+          const columns = await content.getColumns(tempLib, file);
+          assert.deepStrictEqual(columns.map(column => column.name), [`ID`, `NAME`, `AMOUNT`]);
+          assert.strictEqual(columns[0].nullable, false);
+          assert.strictEqual(columns[2].scale, 2);
+
+          for (let id = 1; id <= 5; id++) {
+            await content.insertRecord(tempLib, file, { ID: id, NAME: `Name; it's ${id}`, AMOUNT: id * 1.5 });
+          }
+          await content.insertRecord(tempLib, file, { ID: 6, NAME: null });
+
+          assert.strictEqual(await content.countRecords(tempLib, file), 6);
+          assert.strictEqual(await content.countRecords(tempLib, file, `NAME is null`), 1);
+
+          const page = await content.getRecords(tempLib, file, { offset: 2, limit: 2 });
+          assert.deepStrictEqual(page.map(record => record.values.ID), [3, 4]);
+          assert.strictEqual(page[0].values.NAME, `Name; it's 3`);
+
+          await content.updateRecord(tempLib, file, page[0].rrn, { NAME: `Updated`, AMOUNT: null });
+          const [updated] = await content.getRecords(tempLib, file, { where: `ID = 3` });
+          assert.strictEqual(updated.values.NAME, `Updated`);
+          assert.strictEqual(updated.values.AMOUNT, null);
+
+          await content.deleteRecord(tempLib, file, updated.rrn);
+          assert.strictEqual(await content.countRecords(tempLib, file), 5);
+        }
+        finally {
+          await content.runStatements(`drop table ${tempLib}.${file}`);
+        }
+      }
+    },
     {
       name: `To CL`, test: async () => {
         const command = instance.getContent()!.toCl("TEST", {
@@ -782,6 +881,164 @@ export const ContentSuite: TestSuite = {
         });
       }
     },
+    {
+      name: `Rename and delete members through the file system`, test: async () => {
+        const connection = instance.getConnection()!;
+        const tempLib = instance.getConfig()!.tempLibrary;
+        const file = Tools.makeid(6).toUpperCase();
+        await connection.runCommand({ command: `CRTSRCPF FILE(${tempLib}/${file}) RCDLEN(112)`, noLibList: true });
+        try {
+          await connection.runCommand({ command: `ADDPFM FILE(${tempLib}/${file}) MBR(OLDNAME) SRCTYPE(TXT)`, noLibList: true });
+          const oldUri = getMemberUri({ library: tempLib, file, name: `OLDNAME`, extension: `TXT` });
+          const newUri = getMemberUri({ library: tempLib, file, name: `NEWNAME`, extension: `CLLE` });
+
+          await workspace.fs.rename(oldUri, newUri);
+          assert.strictEqual(await connection.content.checkObject({ library: tempLib, name: file, type: `*FILE`, member: `OLDNAME` }), false);
+          const [member] = await connection.content.getMemberList({ library: tempLib, sourceFile: file, members: `NEWNAME` });
+          assert.strictEqual(member?.extension, `CLLE`);
+
+          await assert.rejects(async () => workspace.fs.rename(newUri, getMemberUri({ library: tempLib, file: `QCLSRC`, name: `NEWNAME`, extension: `CLLE` })));
+          await assert.rejects(async () => workspace.fs.delete(newUri.with({ query: `readonly=true` })));
+          await assert.rejects(async () => workspace.fs.writeFile(newUri.with({ query: `readonly=true` }), Buffer.from(`Changed`, `utf8`)));
+
+          await workspace.fs.delete(newUri);
+          assert.strictEqual(await connection.content.checkObject({ library: tempLib, name: file, type: `*FILE`, member: `NEWNAME` }), false);
+          await assert.rejects(async () => workspace.fs.delete(newUri));
+        }
+        finally {
+          await connection.runCommand({ command: `DLTF FILE(${tempLib}/${file})`, noLibList: true });
+        }
+      }
+    },
+    {
+      name: `Rename and delete streamfiles through the file system`, test: async () => {
+        const content = instance.getContent()!;
+        await instance.getConnection()!.withTempDirectory(async dir => {
+          const oldUri = getUriFromPath(posix.join(dir, `old.txt`));
+          const newUri = getUriFromPath(posix.join(dir, `new.txt`));
+          await workspace.fs.writeFile(oldUri, Buffer.from(`Hello`, `utf8`));
+
+          await workspace.fs.rename(oldUri, newUri);
+          assert.strictEqual(await content.testStreamFile(oldUri.path, "e"), false);
+          assert.strictEqual(new TextDecoder().decode(await workspace.fs.readFile(newUri)), `Hello`);
+
+          await workspace.fs.writeFile(oldUri, Buffer.from(`World`, `utf8`));
+          await assert.rejects(async () => workspace.fs.rename(oldUri, newUri, { overwrite: false }));
+          await workspace.fs.rename(oldUri, newUri, { overwrite: true });
+          assert.strictEqual(new TextDecoder().decode(await workspace.fs.readFile(newUri)), `World`);
+
+          const subdirectory = getUriFromPath(posix.join(dir, `sub`));
+          await workspace.fs.createDirectory(subdirectory);
+          await workspace.fs.writeFile(subdirectory.with({ path: posix.join(subdirectory.path, `file.txt`) }), Buffer.from(`Hello`, `utf8`));
+          await workspace.fs.delete(newUri);
+          await workspace.fs.delete(subdirectory, { recursive: true });
+          assert.strictEqual(await content.testStreamFile(newUri.path, "e"), false);
+          assert.strictEqual(await content.testStreamFile(subdirectory.path, "e"), false);
+        });
+      }
+    },
+    {
+      name: `Create, list and delete source files through the file system`, test: async () => {
+        const connection = instance.getConnection()!;
+        const tempLib = instance.getConfig()!.tempLibrary;
+        const file = Tools.makeid(6).toUpperCase();
+        const fileUri = getUriFromPath(`${tempLib}/${file}`);
+        try {
+          await workspace.fs.createDirectory(fileUri);
+          assert.strictEqual((await workspace.fs.stat(fileUri)).type, FileType.Directory);
+          await assert.rejects(async () => workspace.fs.createDirectory(fileUri));
+          assert.ok((await workspace.fs.readDirectory(getUriFromPath(tempLib))).some(([name, type]) => name === file && type === FileType.Directory));
+
+          const memberUri = getMemberUri({ library: tempLib, file, name: `MEMBER`, extension: `TXT` });
+          await workspace.fs.writeFile(memberUri, Buffer.from(`Hello`, `utf8`));
+          assert.deepStrictEqual(await workspace.fs.readDirectory(fileUri), [[`MEMBER.TXT`, FileType.File]]);
+
+          await assert.rejects(async () => workspace.fs.delete(fileUri, { recursive: false }));
+          await workspace.fs.delete(fileUri, { recursive: true });
+          assert.strictEqual(await connection.content.checkObject({ library: tempLib, name: file, type: `*FILE` }), false);
+          await assert.rejects(async () => workspace.fs.stat(fileUri));
+        }
+        finally {
+          if (await connection.content.checkObject({ library: tempLib, name: file, type: `*FILE` })) {
+            await connection.runCommand({ command: `DLTF FILE(${tempLib}/${file})`, noLibList: true });
+          }
+        }
+      }
+    },
+    {
+      name: `Find and search the members of a workspace folder`, test: async () => {
+        const connection = instance.getConnection()!;
+        const tempLib = instance.getConfig()!.tempLibrary;
+        const file = Tools.makeid(6).toUpperCase();
+        const fileUri = getUriFromPath(`${tempLib}/${file}`);
+        await connection.runCommand({ command: `CRTSRCPF FILE(${tempLib}/${file}) RCDLEN(112)`, noLibList: true });
+        try {
+          await workspace.fs.writeFile(getMemberUri({ library: tempLib, file, name: `FIRST`, extension: `TXT` }), Buffer.from(`Hello`, `utf8`));
+          await workspace.fs.writeFile(getMemberUri({ library: tempLib, file, name: `SECOND`, extension: `TXT` }), Buffer.from(`Goodbye`, `utf8`));
+
+          const files = await WorkspaceSearch.listFiles(connection, fileUri);
+          assert.deepStrictEqual(files.map(uri => posix.basename(uri.path)).sort(), [`FIRST.TXT`, `SECOND.TXT`]);
+
+          const hits = await WorkspaceSearch.searchFiles(connection, fileUri, `goodbye`);
+          assert.deepStrictEqual(hits.map(hit => posix.parse(hit.path).name), [`SECOND`]);
+        }
+        finally {
+          await connection.runCommand({ command: `DLTF FILE(${tempLib}/${file})`, noLibList: true });
+        }
+      }
+    },
+    {
+      name: `Keep the previous versions of the saved streamfiles`, test: async () => {
+        await instance.getConnection()!.withTempDirectory(async dir => {
+          const uri = getUriFromPath(posix.join(dir, `history.txt`));
+          await workspace.fs.writeFile(uri, Buffer.from(`First`, `utf8`));
+          await workspace.fs.writeFile(uri, Buffer.from(`Second`, `utf8`));
+          await workspace.fs.writeFile(uri, Buffer.from(`Third`, `utf8`));
+          // Saving the same content again does not add a snapshot
+          await workspace.fs.writeFile(uri, Buffer.from(`Third`, `utf8`));
+          await workspace.fs.writeFile(uri, Buffer.from(`Third`, `utf8`));
+
+          const snapshots = await LocalHistory.getSnapshots(uri);
+          const contents = await Promise.all(snapshots.map(async snapshot => new TextDecoder().decode(await workspace.fs.readFile(snapshot.uri))));
+          assert.deepStrictEqual(contents, [`Third`, `Second`, `First`]);
+        });
+      }
+    },
+    {
+      name: `Lock members opened for edit`, test: async () => {
+        const connection = instance.getConnection()!;
+        if (!connection.getComponent<SqlSession>(SqlSession.ID)) {
+          // The locks are held by a SQL job
+          return;
+        }
+
+        const tempLib = instance.getConfig()!.tempLibrary;
+        const file = Tools.makeid(6).toUpperCase();
+        await connection.runCommand({ command: `CRTSRCPF FILE(${tempLib}/${file}) RCDLEN(112)`, noLibList: true });
+        try {
+          await connection.runCommand({ command: `ADDPFM FILE(${tempLib}/${file}) MBR(LOCKED) SRCTYPE(TXT)`, noLibList: true });
+          const uri = getMemberUri({ library: tempLib, file, name: `LOCKED`, extension: `TXT` });
+          const allocate = `ALCOBJ OBJ((${tempLib}/${file} *FILE *SHRUPD LOCKED)) WAIT(0)`;
+
+          assert.deepStrictEqual(await MemberLocks.acquire(connection, `${tempLib}/${file}/LOCKED.TXT`), { locked: true });
+          assert.notStrictEqual((await connection.runCommand({ command: allocate, noLibList: true })).code, 0);
+
+          // Saving keeps the lock: the member is updated by the job holding it, each time it is saved
+          for (const content of [`Hello`, `Hello again`]) {
+            await workspace.fs.writeFile(uri, Buffer.from(content, `utf8`));
+            assert.strictEqual(new TextDecoder().decode(await workspace.fs.readFile(uri)).trim(), content);
+            assert.notStrictEqual((await connection.runCommand({ command: allocate, noLibList: true })).code, 0);
+          }
+
+          await MemberLocks.release(uri);
+          assert.strictEqual((await connection.runCommand({ command: allocate, noLibList: true })).code, 0);
+        }
+        finally {
+          await MemberLocks.release(getMemberUri({ library: tempLib, file, name: `LOCKED`, extension: `TXT` }));
+          await connection.runCommand({ command: `DLTF FILE(${tempLib}/${file})`, noLibList: true });
+        }
+      }
+    },
     {
       name: `Test long library name`, test: async () => {
         const connection = instance.getConnection()!;
@@ -811,6 +1068,174 @@ export const ContentSuite: TestSuite = {
           throw new Error(`Failed to create schema "${longName}"`);
         }
       }
+    },
+    {
+      name: `Test spooled files`, test: async () => {
+        const connection = instance.getConnection()!;
+        const content = instance.getContent()!;
+        const userData = Tools.makeid(8);
+
+        const printResult = await connection.runCommand({ command: `OVRPRTF FILE(QPRTLIBL) USRDTA('${userData}') OVRSCOPE(*JOB)\nDSPLIBL OUTPUT(*PRINT)`, noLibList: true });
+        assert.strictEqual(printResult.code, 0);
+
+        const spooledFile = (await content.getSpooledFileList({ type: `user`, name: connection.currentUser }))
+          .find(spooledFile => spooledFile.userData === userData);
+        assert.ok(spooledFile);
+        assert.strictEqual(spooledFile.name, `QPRTLIBL`);
+
+        try {
+          const spooledData = await content.getSpooledFileContent(spooledFile);
+          assert.ok(spooledData.includes(`QSYS`));
+
+          await content.holdSpooledFile(spooledFile);
+          const held = (await content.getSpooledFileList({ type: `user`, name: connection.currentUser })).find(spooledFile => spooledFile.userData === userData);
+          assert.strictEqual(held?.status, `HELD`);
+
+          await content.releaseSpooledFile(spooledFile);
+        }
+        finally {
+          await content.deleteSpooledFile(spooledFile);
+        }
+
+        const deleted = (await content.getSpooledFileList({ type: `user`, name: connection.currentUser })).find(spooledFile => spooledFile.userData === userData);
+        assert.strictEqual(deleted, undefined);
+      }
+    },
+    {
+      name: `Test active jobs`, test: async () => {
+        const connection = instance.getConnection()!;
+        const content = instance.getContent()!;
+
+        const jobs = await content.getActiveJobs({ user: connection.currentUser });
+        assert.ok(jobs.length > 0);
+        assert.ok(jobs.every(job => job.currentUser === connection.currentUser.toUpperCase()));
+
+        const [job] = jobs;
+        assert.strictEqual(job.job, `${job.number}/${job.user}/${job.name}`);
+
+        const jobLog = await content.getJobLog(job.job);
+        assert.ok(Array.isArray(jobLog));
+      }
+    },
+    {
+      name: `Test message queue`, test: async () => {
+        const connection = instance.getConnection()!;
+        const content = instance.getContent()!;
+        const queue = { library: `QUSRSYS`, name: connection.currentUser };
+        const text = `Message ${Tools.makeid(8)} from a 'test'`;
+
+        await content.sendMessage(text, connection.currentUser);
+
+        const message = (await content.getMessageQueueMessages(queue)).find(message => message.text === text);
+        assert.ok(message);
+        assert.strictEqual(message.fromUser, connection.currentUser.toUpperCase());
+        assert.strictEqual(message.key.length, 8);
+
+        await content.removeMessage(queue, message.key);
+        assert.ok(!(await content.getMessageQueueMessages(queue)).some(message => message.text === text));
+      }
+    },
+    {
+      name: `Test program references`, test: async () => {
+        const connection = instance.getConnection()!;
+        const content = instance.getContent()!;
+        const tempLib = instance.getConfig()!.tempLibrary;
+        const sourceFile = Tools.makeid(6).toUpperCase();
+        const table = Tools.makeid(6).toUpperCase();
+        const program = Tools.makeid(6).toUpperCase();
+
+        await content.runStatements(`create table ${tempLib}.${table} (ID integer not null)`);
+        await connection.runCommand({ command: `CRTSRCPF FILE(${tempLib}/${sourceFile}) RCDLEN(112)`, noLibList: true });
+        try {
+          await content.uploadMemberContent(undefined, tempLib, sourceFile, program, [`PGM`, `DCLF FILE(${tempLib}/${table})`, `ENDPGM`].join(`\n`));
+          const compiled = await connection.runCommand({ command: `CRTBNDCL PGM(${tempLib}/${program}) SRCFILE(${tempLib}/${sourceFile}) SRCMBR(${program})`, noLibList: true });
+          assert.strictEqual(compiled.code, 0);
+
+          const references = await content.getProgramReferences({ library: tempLib, name: program, type: `*PGM` });
+          const reference = references.find(reference => reference.name === table);
+          assert.ok(reference);
+          assert.strictEqual(reference.library, tempLib);
+          assert.strictEqual(reference.type, `*FILE`);
+          assert.strictEqual(reference.usage, `I`);
+
+          const users = await content.getObjectUsers({ library: tempLib, name: table, type: `*FILE` }, [tempLib]);
+          assert.ok(users.some(user => user.library === tempLib && user.name === program && user.type === `*PGM`));
+        }
+        finally {
+          await connection.runCommand({ command: `DLTPGM PGM(${tempLib}/${program})`, noLibList: true });
+          for (const file of [sourceFile, table]) {
+            await connection.runCommand({ command: `DLTF FILE(${tempLib}/${file})`, noLibList: true });
+          }
+        }
+      }
+    },
+    {
+      name: `Test object authorities`, test: async () => {
+        const connection = instance.getConnection()!;
+        const content = instance.getContent()!;
+        const tempLib = instance.getConfig()!.tempLibrary;
+        const table = { library: tempLib, name: Tools.makeid(6).toUpperCase(), type: `*FILE` };
+
+        await content.runStatements(`create table ${tempLib}.${table.name} (ID integer not null)`);
+        try {
+          let authorities = await content.getAuthorities(table);
+          assert.strictEqual(authorities.owner, connection.currentUser.toUpperCase());
+
+          await content.grantAuthority(table, [`*PUBLIC`], [`*USE`]);
+          await content.grantAuthority(table, [`QPGMR`], [`*CHANGE`]);
+          authorities = await content.getAuthorities(table);
+          assert.strictEqual(authorities.publicAuthority, `*USE`);
+          assert.strictEqual(authorities.privateAuthorities.find(authority => authority.user === `QPGMR`)?.authority, `*CHANGE`);
+
+          await content.revokeAuthority(table, [`QPGMR`]);
+          authorities = await content.getAuthorities(table);
+          assert.ok(!authorities.privateAuthorities.some(authority => authority.user === `QPGMR`));
+        }
+        finally {
+          await connection.runCommand({ command: `DLTF FILE(${tempLib}/${table.name})`, noLibList: true });
+        }
+
+        await connection.withTempDirectory(async directory => {
+          const file = `${directory}/authorities.txt`;
+          await connection.sendCommand({ command: `echo "authorities" > ${file}` });
+          await content.grantAuthority(file, [`QPGMR`], [`*RX`]);
+          const authorities = await content.getAuthorities(file);
+          assert.strictEqual(authorities.owner, connection.currentUser.toUpperCase());
+          assert.strictEqual(authorities.privateAuthorities.find(authority => authority.user === `QPGMR`)?.authority, `*RX`);
+        });
+      }
+    },
+    {
+      name: `Test command definition`, test: async () => {
+        const content = instance.getContent()!;
+        const definition = await content.getCommandDefinition(`QSYS/CRTBNDCL`);
+        assert.strictEqual(definition.name, `CRTBNDCL`);
+
+        const program = definition.parameters.find(parameter => parameter.keyword === `PGM`);
+        assert.ok(program);
+        assert.strictEqual(program.position, 1);
+        assert.strictEqual(program.qualifiers.length, 2);
+        assert.ok(program.qualifiers[1].values.includes(`*CURLIB`));
+
+        const parsed = CLCommand.parse(`CRTBNDCL MYLIB/MYPGM +\n  SRCFILE(MYLIB/QCLSRC)`, definition);
+        assert.strictEqual(parsed.parameters.PGM, `MYLIB/MYPGM`);
+        assert.strictEqual(parsed.parameters.SRCFILE, `MYLIB/QCLSRC`);
+
+        await assert.rejects(content.getCommandDefinition(`QSYS/NOTACMD`));
+      }
+    },
+    {
+      name: `Test command definition from the library list`, test: async () => {
+        const content = instance.getContent()!;
+        const definition = await content.getCommandDefinition(`dsplib`);
+        assert.strictEqual(definition.name, `DSPLIB`);
+        assert.ok(definition.prompt);
+
+        const library = definition.parameters.find(parameter => parameter.keyword === `LIB`);
+        assert.ok(library);
+        assert.strictEqual(library.position, 1);
+        assert.ok(definition.parameters.some(parameter => parameter.keyword === `OUTPUT`));
+      }
     }
   ]
 };
@@ -1,5 +1,13 @@
+import { AssertionError } from "assert";
+import { existsSync, readFileSync } from "fs";
 import { env } from "process";
+import inspector from "inspector";
+import { inspect } from "util";
 import vscode from "vscode";
+import { ConnectionConfiguration } from "../api/Configuration";
+import IBMi from "../api/IBMi";
+import { GlobalStorage } from "../api/Storage";
+import { extensionTestSuiteRegistry, TestCase, TestSuite } from "../api/TestSuites";
 import { instance } from "../instantiate";
 import { ActionSuite } from "./action";
 import { ComponentSuite } from "./components";
@@ -10,9 +18,11 @@ import { DeployToolsSuite } from "./deployTools";
 import { EncodingSuite } from "./encoding";
 import { FilterSuite } from "./filter";
 import { ILEErrorSuite } from "./ileErrors";
+import { OfflineSuite } from "./offline";
+import { OfflineBackend, Recording, RecordingBackend } from "./recording";
 import { SearchSuite } from "./search";
+import { SSHConfigSuite } from "./sshConfig";
 import { StorageSuite } from "./storage";
-import { TestSuitesTreeProvider } from "./testCasesTree";
 import { ToolsSuite } from "./tools";
 import { Server } from "../typings";
 
@@ -26,28 +36,14 @@ const suites: TestSuite[] = [
   ILEErrorSuite,
   FilterSuite,
   SearchSuite,
+  SSHConfigSuite,
+  OfflineSuite,
   StorageSuite,
   EncodingSuite,
   ComponentSuite
 ]
 
-export type TestSuite = {
-  name: string
-  notConcurrent?: boolean
-  tests: TestCase[]
-  before?: () => Promise<void>
-  after?: () => Promise<void>
-  failure?: string
-  status?: "running" | "done"
-}
-
-export interface TestCase {
-  name: string,
-  status?: "running" | "failed" | "pass"
-  failure?: string
-  test: () => Promise<void>
-  duration?: number
-}
+export type { TestCase, TestSuite } from "../api/TestSuites";
 
 export interface ConnectionFixture { name: string, user: { [parm: string]: string | number }, commands?: string[] };
 
@@ -67,35 +63,78 @@ const testingEnabled = env.base_testing === `true`;
 const testSuitesSimultaneously = env.simultaneous === `true`;
 const testIndividually = env.individual === `true`;
 const testSpecific = env.specific;
+// Where to save the commands run by the tests, or where to replay them from without a system
+const recordTo = env.record;
+const replayFrom = env.offline;
 
-let testSuitesTreeProvider: TestSuitesTreeProvider;
+const OFFLINE_CONNECTION = `Offline`;
+const OFFLINE_USER = `TESTER`;
+
+let recorder: RecordingBackend | undefined;
+let controller: vscode.TestController;
+const testData = new WeakMap<vscode.TestItem, TestSuite | TestCase>();
 export function initialise(context: vscode.ExtensionContext) {
   if (testingEnabled) {
     vscode.commands.executeCommand(`setContext`, `code-for-ibmi:testing`, true);
 
-    if (!testIndividually) {
-      instance.subscribe(context, 'connected', 'Run tests', () => configuringFixture ? console.log(`Not running tests as configuring fixture`) : runTests(testSuitesSimultaneously));
+    if (recordTo) {
+      recorder = new RecordingBackend();
+      IBMi.backend = recorder;
     }
+    else if (replayFrom) {
+      connectOffline(context, replayFrom);
+    }
+
+    controller = vscode.tests.createTestController(`code-for-ibmi`, `Code for IBM i`);
+    controller.createRunProfile(`Run`, vscode.TestRunProfileKind.Run, (request, token) => runTests(request, token), true);
+    controller.createRunProfile(`Debug`, vscode.TestRunProfileKind.Debug, (request, token) => debugTests(request, token), true);
 
-    instance.subscribe(context, 'disconnected', 'Reset tests', resetTests);
-    testSuitesTreeProvider = new TestSuitesTreeProvider(suites);
     context.subscriptions.push(
-      vscode.window.createTreeView("testingView", { treeDataProvider: testSuitesTreeProvider, showCollapseAll: true }),
-      vscode.commands.registerCommand(`code-for-ibmi.testing.specific`, (suiteName: string, testName: string) => {
-        if (suiteName && testName) {
-          const suite = suites.find(suite => suite.name === suiteName);
-
-          if (suite) {
-            const testCase = suite.tests.find(testCase => testCase.name === testName);
-
-            if (testCase) {
-              runTest(testCase);
-            }
-          }
-        }
-      }),
+      controller,
+      ...suites.map(suite => extensionTestSuiteRegistry.registerSuite(context, suite)),
+      extensionTestSuiteRegistry.onDidChange(() => loadSuites(context)),
       vscode.commands.registerCommand(`code-for-ibmi.testing.connectWithFixture`, connectWithFixture),
     );
+    loadSuites(context);
+
+    if (!testIndividually) {
+      instance.subscribe(context, 'connected', 'Run tests', () => configuringFixture ? console.log(`Not running tests as configuring fixture`) : runTests(new vscode.TestRunRequest(getSpecificSuites())));
+    }
+
+    instance.subscribe(context, 'disconnected', 'Reset tests', () => controller.invalidateTestResults());
+  }
+}
+
+/**
+ * Lists the registered suites and their tests; the suites of the other extensions show their extension
+ */
+function loadSuites(context: vscode.ExtensionContext) {
+  const items: vscode.TestItem[] = [];
+  for (const [extensionId, extensionSuites] of extensionTestSuiteRegistry.getSuites()) {
+    for (const suite of extensionSuites) {
+      const suiteItem = controller.createTestItem(`${extensionId}/${suite.name}`, suite.name);
+      suiteItem.description = extensionId !== context.extension.id ? extensionId : undefined;
+      testData.set(suiteItem, suite);
+
+      for (const test of suite.tests) {
+        const testItem = controller.createTestItem(`${suiteItem.id}/${test.name}`, test.name);
+        testData.set(testItem, test);
+        suiteItem.children.add(testItem);
+      }
+      items.push(suiteItem);
+    }
+  }
+  controller.items.replace(items);
+}
+
+/**
+ * @returns the suites whose name contains the `specific` variable, or `undefined` for all the suites
+ */
+function getSpecificSuites() {
+  if (testSpecific) {
+    const suiteItems: vscode.TestItem[] = [];
+    controller.items.forEach(item => item.label.toLowerCase().includes(testSpecific.toLowerCase()) ? suiteItems.push(item) : undefined);
+    return suiteItems;
   }
 }
 
@@ -158,18 +197,104 @@ async function setupUserFixture(connectionName: string, fixture: ConnectionFixtu
   return error;
 }
 
-async function runTests(simultaneously?: boolean) {
+/**
+ * Connects to a system answering from a recording made with the `record` variable. The commands that were not recorded
+ * run in an emulated file system, which is all there is when there is no recording.
+ */
+async function connectOffline(context: vscode.ExtensionContext, file: string) {
+  const recorded = existsSync(file);
+  if (!recorded) {
+    vscode.window.showWarningMessage(`No recording found in ${file}: only the tests that need no more than an IFS will pass. Record one by running the tests with the record variable set to this path.`);
+  }
+
+  const recording: Recording = recorded ? JSON.parse(readFileSync(file, `utf8`)) : { user: OFFLINE_USER, settings: { name: OFFLINE_CONNECTION } as ConnectionConfiguration.Parameters, commands: [], downloads: [] };
+  const backend = new OfflineBackend(recording, true);
+  IBMi.backend = backend;
+  context.subscriptions.push(backend);
+
+  // The connection starts as the recorded one did
+  await ConnectionConfiguration.load(OFFLINE_CONNECTION);
+  if (recorded) {
+    await ConnectionConfiguration.update({ ...recording.settings, name: OFFLINE_CONNECTION });
+  }
+  await GlobalStorage.get().setServerSettingsCache(OFFLINE_CONNECTION, recording.serverSettings ? { ...recording.serverSettings, lastCheckedOnVersion: process.env.VSCODEIBMI_VERSION } : undefined);
+
+  await vscode.commands.executeCommand(`code-for-ibmi.connectDirect`, { name: OFFLINE_CONNECTION, host: `offline`, port: 22, username: recording.user, password: `offline` });
+}
+
+/**
+ * Attaches a debugger to the extension host, where the tests run, then runs the tests and stops the debugger
+ */
+async function debugTests(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
+  // The extension host only listens to debuggers when it is started with an inspect flag
+  if (!inspector.url()) {
+    inspector.open(0);
+  }
+
+  const name = `Code for IBM i tests`;
+  let session: vscode.DebugSession | undefined;
+  const listener = vscode.debug.onDidStartDebugSession(started => session = started.name === name ? started : session);
+  try {
+    const attached = await vscode.debug.startDebugging(undefined, {
+      type: `node`,
+      request: `attach`,
+      name,
+      port: Number(new URL(inspector.url()!).port),
+      skipFiles: [`<node_internals>/**`]
+    });
+
+    if (attached) {
+      await runTests(request, token);
+    }
+    else {
+      vscode.window.showErrorMessage(`Could not attach a debugger to the extension host: the tests were not run.`);
+    }
+  }
+  finally {
+    listener.dispose();
+    if (session) {
+      await vscode.debug.stopDebugging(session);
+    }
+  }
+}
+
+async function runTests(request: vscode.TestRunRequest, token?: vscode.CancellationToken) {
+  const run = controller.createTestRun(request);
+  const cancelled = () => Boolean(token?.isCancellationRequested || run.token.isCancellationRequested);
+  const connection = instance.getConnection();
+  if (recorder && connection) {
+    Object.assign(recorder.recording, {
+      user: connection.currentUser,
+      settings: JSON.parse(JSON.stringify(connection.getConfig())),
+      serverSettings: GlobalStorage.get().getServerSettingsCache(connection.currentConnectionName)
+    });
+  }
+
+  // The tests to run, by suite
+  const selected = new Map<vscode.TestItem, vscode.TestItem[]>();
+  const excluded = (item: vscode.TestItem) => request.exclude?.includes(item);
+  const include: vscode.TestItem[] = [];
+  (request.include || controller.items).forEach(item => include.push(item));
+  for (const item of include.filter(item => !excluded(item))) {
+    const suiteItem = item.parent || item;
+    const testItems = selected.get(suiteItem) || [];
+    if (item.parent) {
+      testItems.push(item);
+    }
+    else {
+      item.children.forEach(testItem => excluded(testItem) ? undefined : testItems.push(testItem));
+    }
+    selected.set(suiteItem, testItems);
+  }
+
   let nonConcurrentSuites: Function[] = [];
   let concurrentSuites: Function[] = [];
 
-  for (const suite of suites) {
-    if (testSpecific) {
-      if (!suite.name.toLowerCase().includes(testSpecific.toLowerCase())) {
-        continue;
-      }
-    }
+  for (const [suiteItem, testItems] of selected) {
+    const suite = testData.get(suiteItem) as TestSuite;
+    testItems.forEach(testItem => run.enqueued(testItem));
 
-    const runner = async () => testSuiteRunner(suite, true);
+    const runner = async () => testSuiteRunner(run, suiteItem, testItems, cancelled);
 
     if (suite.notConcurrent) {
       nonConcurrentSuites.push(runner);
@@ -178,7 +303,12 @@ async function runTests(simultaneously?: boolean) {
     }
   }
 
-  if (simultaneously) {
+  if (!connection) {
+    selected.forEach(testItems => testItems.forEach(testItem => run.skipped(testItem)));
+    run.appendOutput(`Not connected to a system: no tests were run.\r\n`);
+  }
+
+  else if (testSuitesSimultaneously) {
     await Promise.all(concurrentSuites.map(async suite => suite()));
   }
 
@@ -188,41 +318,51 @@ async function runTests(simultaneously?: boolean) {
     }
   }
 
-  for (const suite of nonConcurrentSuites) {
-    await suite();
+  if (connection) {
+    for (const suite of nonConcurrentSuites) {
+      await suite();
+    }
   }
 
   console.log(`All tests completed`);
+  run.end();
+
+  if (recorder && recordTo) {
+    recorder.save(recordTo);
+    console.log(`Recording saved to ${recordTo}`);
+  }
 }
 
-async function testSuiteRunner(suite: TestSuite, withGap?: boolean) {
+async function testSuiteRunner(run: vscode.TestRun, suiteItem: vscode.TestItem, testItems: vscode.TestItem[], cancelled: () => boolean) {
+  const suite = testData.get(suiteItem) as TestSuite;
+  const pending = new Set(testItems);
   try {
-    suite.status = "running";
-    testSuitesTreeProvider.refresh(suite);
     if (suite.before) {
       console.log(`Pre-processing suite ${suite.name}`);
       await suite.before();
     }
 
-    console.log(`Running suite ${suite.name} (${suite.tests.length})`);
+    console.log(`Running suite ${suite.name} (${testItems.length})`);
     console.log();
-    for (const test of suite.tests) {
-      await runTest(test);
-      testSuitesTreeProvider.refresh(suite);
-
-      if (withGap) {
-        // Add a little break as to not overload the system
-        await new Promise(resolve => setTimeout(resolve, 500));
+    for (const testItem of testItems) {
+      if (cancelled()) {
+        break;
       }
+
+      pending.delete(testItem);
+      await runTest(run, testItem);
+
+      // Add a little break as to not overload the system
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
   }
   catch (error: any) {
     console.log(error);
-    suite.failure = `${error.message ? error.message : error}`;
+    pending.forEach(testItem => run.errored(testItem, toTestMessage(error)));
+    pending.clear();
   }
   finally {
-    suite.status = "done";
-    testSuitesTreeProvider.refresh(suite);
+    pending.forEach(testItem => run.skipped(testItem));
     if (suite.after) {
       console.log();
       console.log(`Post-processing suite ${suite.name}`);
@@ -231,45 +371,33 @@ async function testSuiteRunner(suite: TestSuite, withGap?: boolean) {
       }
       catch (error: any) {
         console.log(error);
-        suite.failure = `${error.message ? error.message : error}`;
+        run.errored(suiteItem, toTestMessage(error));
       }
     }
-    testSuitesTreeProvider.refresh(suite);
   }
 };
 
-async function runTest(test: TestCase) {
-  const connection = instance.getConnection();
-
-  if (connection) {
-    console.log(`Running ${test.name}`);
-    test.status = "running";
-    testSuitesTreeProvider.refresh(test);
-    const start = +(new Date());
-    try {
-      await test.test();
-      test.status = "pass";
-    }
+async function runTest(run: vscode.TestRun, testItem: vscode.TestItem) {
+  const test = testData.get(testItem) as TestCase;
+  console.log(`Running ${test.name}`);
+  run.started(testItem);
+  const start = +(new Date());
+  try {
+    await test.test();
+    run.passed(testItem, +(new Date()) - start);
+  }
 
-    catch (error: any) {
-      console.log(error);
-      test.status = "failed";
-      test.failure = `${error.message ? error.message : error}`;
-    }
-    finally {
-      test.duration = +(new Date()) - start;
-      testSuitesTreeProvider.refresh(test);
-    }
-  } else {
-    test.status = undefined;
-    test.failure = undefined;
-    test.duration = undefined;
+  catch (error: any) {
+    console.log(error);
+    run.failed(testItem, toTestMessage(error), +(new Date()) - start);
   }
 }
 
-function resetTests() {
-  suites.flatMap(ts => ts.tests).forEach(tc => {
-    tc.status = undefined;
-    tc.failure = undefined;
-  });
-}
\ No newline at end of file
+function toTestMessage(error: any) {
+  if (error instanceof AssertionError) {
+    return vscode.TestMessage.diff(error.message, inspect(error.expected), inspect(error.actual));
+  }
+  else {
+    return new vscode.TestMessage(`${error.message ? error.message : error}`);
+  }
+}
@@ -0,0 +1,127 @@
+import assert from "assert";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { TestSuite } from ".";
+import { OfflineBackend, Recording } from "./recording";
+import offlineRecording from "./recordings/offline.json";
+
+// Replayed by the tests of the backend itself: the recordings of the other suites are made on a system, see the `record` variable;
+// without them, the suites run against the emulated file system
+const RECORDING = offlineRecording as Recording;
+
+export const OfflineSuite: TestSuite = {
+  name: `Offline backend tests`,
+  tests: [
+    {
+      name: `Replay commands with other temporary names`, test: async () => {
+        const backend = new OfflineBackend(RECORDING);
+        try {
+          const client = await backend.createClient().connect({});
+          const created = await client.execCommand(`mkdir /tmp/vscodetemp-O_Zz98Yy76`, { cwd: `/home/TESTER` });
+          assert.strictEqual(created.code, 0);
+
+          const listed = await client.execCommand(`ls /tmp/vscodetemp-O_Zz98Yy76`, { cwd: `/home/TESTER` });
+          assert.strictEqual(listed.stdout, `O_ZZ98YY76.txt`);
+
+          // The recorded name is bound to the first one used
+          const other = await client.execCommand(`ls /tmp/vscodetemp-O_Xx00Ww11`, { cwd: `/home/TESTER` });
+          assert.strictEqual(other.code, 1);
+          assert.ok(other.stderr.startsWith(`No recorded command`));
+        }
+        finally {
+          backend.dispose();
+        }
+      }
+    },
+    {
+      name: `Replay repeated commands in order`, test: async () => {
+        const backend = new OfflineBackend(RECORDING);
+        try {
+          const client = await backend.createClient().connect({});
+          const outputs = [];
+          for (let i = 0; i < 3; i++) {
+            outputs.push((await client.execCommand(`echo "first"`)).stdout);
+          }
+          assert.deepStrictEqual(outputs, [`first`, `second`, `second`]);
+        }
+        finally {
+          backend.dispose();
+        }
+      }
+    },
+    {
+      name: `Replay killed commands until they are killed`, test: async () => {
+        const backend = new OfflineBackend(RECORDING);
+        try {
+          const client = await backend.createClient().connect({});
+          let killed = false;
+          const result = await client.execCommand(`sleep 60`, {
+            onChannel: channel => setTimeout(() => {
+              killed = true;
+              channel.close();
+            }, 100)
+          });
+          assert.ok(killed);
+          assert.strictEqual(result.code, null);
+        }
+        finally {
+          backend.dispose();
+        }
+      }
+    },
+    {
+      name: `Transfer files`, test: async () => {
+        const backend = new OfflineBackend(RECORDING);
+        const local = mkdtempSync(path.join(os.tmpdir(), `vscodeibmi-test-`));
+        try {
+          const client = await backend.createClient().connect({});
+          await client.execCommand(`mkdir /tmp/vscodetemp-O_Zz98Yy76`, { cwd: `/home/TESTER` });
+
+          await client.getFile(path.join(local, `recorded.txt`), `/tmp/vscodetemp-O_Zz98Yy76/file.txt`);
+          assert.strictEqual(readFileSync(path.join(local, `recorded.txt`), `utf8`), `Recorded content`);
+
+          writeFileSync(path.join(local, `upload.txt`), `Uploaded content`);
+          await client.putFile(path.join(local, `upload.txt`), `/home/TESTER/upload.txt`);
+          await client.getFile(path.join(local, `download.txt`), `/home/TESTER/upload.txt`);
+          assert.strictEqual(readFileSync(path.join(local, `download.txt`), `utf8`), `Uploaded content`);
+
+          await assert.rejects(client.getFile(path.join(local, `missing.txt`), `/home/TESTER/missing.txt`));
+        }
+        finally {
+          rmSync(local, { recursive: true, force: true });
+          backend.dispose();
+        }
+      }
+    },
+    {
+      name: `Emulate the commands that were not recorded`, test: async () => {
+        const backend = new OfflineBackend(RECORDING, true);
+        const local = mkdtempSync(path.join(os.tmpdir(), `vscodeibmi-test-`));
+        try {
+          const client = await backend.createClient().connect({});
+          const home = await client.execCommand(`echo $HOME && cd && test -w $HOME`, { cwd: `.` });
+          assert.strictEqual(home.stdout, `/home/TESTER`);
+
+          // The recorded commands still answer first
+          assert.strictEqual((await client.execCommand(`echo "first"`)).stdout, `first`);
+
+          const created = await client.execCommand(`mkdir -p /tmp/emulated && echo "Emulated content" > /tmp/emulated/file.txt`);
+          assert.strictEqual(created.code, 0);
+          assert.strictEqual((await client.execCommand(`/QOpenSys/pkgs/bin/find /tmp/emulated -type f`)).stdout, `/tmp/emulated/file.txt`);
+
+          await client.getFile(path.join(local, `file.txt`), `/tmp/emulated/file.txt`);
+          assert.strictEqual(readFileSync(path.join(local, `file.txt`), `utf8`), `Emulated content\n`);
+
+          // Only the tools of the emulated file system are found
+          const system = await client.execCommand(`/QOpenSys/usr/bin/system "DSPLIBL"`);
+          assert.notStrictEqual(system.code, 0);
+        }
+        finally {
+          rmSync(local, { recursive: true, force: true });
+          backend.dispose();
+        }
+      }
+    }
+  ]
+};
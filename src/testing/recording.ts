@@ -0,0 +1,427 @@
+import { spawn } from "child_process";
+import { copyFileSync, cpSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, realpathSync, rmSync, statSync, symlinkSync, writeFileSync } from "fs";
+import * as node_ssh from "node-ssh";
+import os from "os";
+import path from "path";
+import { Client, ClientChannel } from "ssh2";
+import { Duplex, PassThrough } from "stream";
+import { ConnectionConfiguration } from "../api/Configuration";
+import { IBMiBackend } from "../api/IBMi";
+import { CachedServerSettings } from "../api/Storage";
+
+/**
+ * What a test run did on a system, to run the tests again without it.
+ */
+export interface Recording {
+  user: string
+  settings: ConnectionConfiguration.Parameters
+  serverSettings?: CachedServerSettings
+  commands: RecordedCommand[]
+  downloads: RecordedDownload[]
+}
+
+export interface RecordedCommand {
+  command: string
+  cwd?: string
+  stdin?: string
+  /** `null` when the process was killed */
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+export interface RecordedDownload {
+  remote: string
+  /** Base64 */
+  content: string
+}
+
+// Parts of the commands that change on every run: the names from Tools.makeid and the Date.now() timestamps
+const VOLATILE = /(?<![A-Za-z0-9])O_[A-Za-z0-9]+|(?<!\d)\d{13}(?!\d)/g;
+
+// The absolute paths of the emulated commands, which are moved into the emulated file system; the devices are left alone
+const ABSOLUTE_PATH = /(?<=^|[\s'"=(:<>|;&`])\/(?!dev\/)/g;
+
+// The local tools the emulated commands can run, by the directory of the system they are found in
+const EMULATED_TOOLS: Record<string, string[]> = {
+  [`/usr/bin`]: [`ls`, `tar`],
+  [`/QOpenSys/pkgs/bin`]: [`bash`, `find`, `grep`, `ls`, `md5sum`, `sort`, `stat`, `tar`],
+  [`/QOpenSys/usr/bin`]: [`basename`, `cat`, `chmod`, `cp`, `dirname`, `env`, `expr`, `getconf`, `head`, `ls`, `mkdir`, `mv`, `rm`, `rmdir`, `sed`, `sleep`, `tail`, `touch`, `tr`, `wc`]
+};
+
+/**
+ * Records the commands run and the files downloaded through the connections.
+ */
+export class RecordingBackend implements IBMiBackend {
+  readonly sqlJob = false;
+  readonly recording: Recording = { user: ``, settings: { name: `` } as ConnectionConfiguration.Parameters, serverSettings: undefined, commands: [], downloads: [] };
+
+  createClient() {
+    return new RecordingClient(this.recording);
+  }
+
+  save(file: string) {
+    writeFileSync(file, JSON.stringify(this.recording, null, 2));
+  }
+}
+
+class RecordingClient extends node_ssh.NodeSSH {
+  constructor(private readonly recording: Recording) {
+    super();
+  }
+
+  async execCommand(command: string, options?: node_ssh.SSHExecCommandOptions) {
+    const result = await super.execCommand(command, options);
+    this.recording.commands.push({
+      command,
+      cwd: options?.cwd,
+      stdin: typeof options?.stdin === `string` ? options.stdin : undefined,
+      code: result.code,
+      stdout: result.stdout,
+      stderr: result.stderr
+    });
+    return result;
+  }
+
+  async getFile(...parameters: Parameters<node_ssh.NodeSSH[`getFile`]>) {
+    await super.getFile(...parameters);
+    const [localFile, remoteFile] = parameters;
+    this.recording.downloads.push({ remote: remoteFile, content: readFileSync(localFile).toString(`base64`) });
+  }
+
+  async getDirectory(localDirectory: string, remoteDirectory: string, options?: node_ssh.SSHGetPutDirectoryOptions) {
+    const result = await super.getDirectory(localDirectory, remoteDirectory, options);
+    for (const file of listFiles(localDirectory)) {
+      this.recording.downloads.push({ remote: path.posix.join(remoteDirectory, file), content: readFileSync(path.join(localDirectory, file)).toString(`base64`) });
+    }
+    return result;
+  }
+}
+
+/**
+ * Answers the commands and the downloads from a {@link Recording}. The uploaded files are kept in a local directory,
+ * the emulated file system, which also answers the downloads that were not recorded.
+ *
+ * The commands do not need to match the recording exactly: the {@link VOLATILE} parts are bound to the ones of the recording
+ * the first time they are seen, and are replaced in the recorded output.
+ *
+ * When `emulate` is set, the commands that were not recorded run with the local shell in the emulated file system, so the tests working
+ * with the IFS run without a recording. Only the {@link EMULATED_TOOLS} are found: the commands of the system, like `system` or `qsh`, fail.
+ */
+export class OfflineBackend implements IBMiBackend {
+  readonly sqlJob = false;
+  readonly fileSystem = realpathSync(mkdtempSync(path.join(os.tmpdir(), `vscodeibmi-offline-`)));
+  private readonly used = new Set<RecordedCommand | RecordedDownload>();
+  /** Recorded volatile part (uppercase) to the one used in this run */
+  private readonly bindings = new Map<string, string>();
+  private readonly reverseBindings = new Map<string, string>();
+
+  constructor(readonly recording: Recording, readonly emulate = false) {
+    mkdirSync(this.toLocal(this.getHome()), { recursive: true });
+    mkdirSync(this.toLocal(`/tmp`), { recursive: true });
+
+    if (emulate) {
+      for (const [directory, tools] of Object.entries(EMULATED_TOOLS)) {
+        mkdirSync(this.toLocal(directory), { recursive: true });
+        for (const tool of tools) {
+          const local = [`/usr/bin`, `/bin`].map(bin => path.posix.join(bin, tool)).find(existsSync);
+          if (local) {
+            symlinkSync(local, this.toLocal(path.posix.join(directory, tool)));
+          }
+        }
+      }
+    }
+  }
+
+  getHome() {
+    return `/home/${this.recording.user}`;
+  }
+
+  createClient() {
+    return new OfflineClient(this);
+  }
+
+  dispose() {
+    rmSync(this.fileSystem, { recursive: true, force: true });
+  }
+
+  findCommand(command: string, cwd?: string, stdin?: string) {
+    const actual = [command, cwd, stdin];
+    return this.find(this.recording.commands, entry => [entry.command, entry.cwd, entry.stdin], actual);
+  }
+
+  findDownload(remote: string) {
+    return this.find(this.recording.downloads, entry => [entry.remote], [remote]);
+  }
+
+  /**
+   * @returns the recorded downloads of the files in a directory, with their path relative to it
+   */
+  findDirectory(remoteDirectory: string) {
+    const recordedDirectory = this.toRecorded(remoteDirectory).replace(/\/$/, ``).toUpperCase() + `/`;
+    const files = new Map<string, RecordedDownload>();
+    for (const download of this.recording.downloads) {
+      if (download.remote.toUpperCase().startsWith(recordedDirectory)) {
+        // The latest download of a file wins
+        files.set(this.toActual(download.remote.substring(recordedDirectory.length)), download);
+      }
+    }
+    return files;
+  }
+
+  toActual(recorded: string) {
+    return recorded.replace(VOLATILE, token => {
+      const actual = this.bindings.get(token.toUpperCase());
+      return actual === undefined ? token : token === token.toUpperCase() ? actual.toUpperCase() : actual;
+    });
+  }
+
+  toRecorded(actual: string) {
+    return actual.replace(VOLATILE, token => this.reverseBindings.get(token.toUpperCase()) || token);
+  }
+
+  toLocal(remote: string) {
+    return path.join(this.fileSystem, remote);
+  }
+
+  /**
+   * Runs a command with the local shell in the emulated file system
+   * @returns `undefined` when the commands are not emulated, or when there is no local shell to run them
+   */
+  runEmulated(command: string, options: { cwd?: string, stdin?: string, channel: OfflineChannel }): Promise<node_ssh.SSHExecCommandResponse> | undefined {
+    if (!this.emulate || !existsSync(`/bin/sh`)) {
+      return;
+    }
+
+    const toEmulated = (text: string) => text.replace(ABSOLUTE_PATH, `${this.fileSystem}/`);
+    const fromEmulated = (text: string) => text.replaceAll(this.fileSystem, ``);
+    const home = this.toLocal(this.getHome());
+    return new Promise((resolve, reject) => {
+      // Like the SSH client, the command runs from the home directory after changing to `cwd`
+      const script = options.cwd ? `cd '${options.cwd.replaceAll(`'`, `'\\''`)}' ; ${command}` : command;
+      const child = spawn(`/bin/sh`, [`-c`, toEmulated(script)], {
+        cwd: home,
+        // In its own process group, so killing it also kills the processes started by the shell
+        detached: true,
+        env: {
+          HOME: home,
+          SHELL: `/QOpenSys/pkgs/bin/bash`,
+          PATH: Object.keys(EMULATED_TOOLS).map(directory => this.toLocal(directory)).join(`:`)
+        }
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      child.stdout.on(`data`, data => stdout.push(data));
+      child.stderr.on(`data`, data => stderr.push(data));
+      child.on(`error`, reject);
+      child.on(`close`, (code, signal) => resolve({
+        code,
+        signal,
+        stdout: fromEmulated(Buffer.concat(stdout).toString()).trim(),
+        stderr: fromEmulated(Buffer.concat(stderr).toString()).trim()
+      }));
+      options.channel.once(`close`, () => child.pid && child.exitCode === null ? process.kill(-child.pid, `SIGKILL`) : undefined);
+      child.stdin.end(options.stdin ? toEmulated(options.stdin) : undefined);
+    });
+  }
+
+  /**
+   * Looks for the first unused entry matching the values, or the last used one when they have all been used.
+   */
+  private find<T extends RecordedCommand | RecordedDownload>(entries: T[], valuesOf: (entry: T) => (string | undefined)[], actual: (string | undefined)[]) {
+    const shape = (values: (string | undefined)[]) => JSON.stringify(values.map(value => value?.replace(VOLATILE, `\0`)));
+    const tokens = (values: (string | undefined)[]) => values.flatMap(value => value?.match(VOLATILE) || []);
+
+    const actualShape = shape(actual);
+    const actualTokens = tokens(actual);
+    let lastUsed: { entry: T, pairs: [string, string][] } | undefined;
+    for (const entry of entries) {
+      const recorded = valuesOf(entry);
+      if (shape(recorded) === actualShape) {
+        const pairs = tokens(recorded).map((token, index): [string, string] => [token.toUpperCase(), actualTokens[index]]);
+        if (pairs.every(([recordedToken, actualToken]) => this.canBind(recordedToken, actualToken))) {
+          if (!this.used.has(entry)) {
+            return this.use(entry, pairs);
+          }
+          lastUsed = { entry, pairs };
+        }
+      }
+    }
+
+    return lastUsed ? this.use(lastUsed.entry, lastUsed.pairs) : undefined;
+  }
+
+  private canBind(recorded: string, actual: string) {
+    const bound = this.bindings.get(recorded);
+    const reverse = this.reverseBindings.get(actual.toUpperCase());
+    return (bound === undefined || bound.toUpperCase() === actual.toUpperCase()) && (reverse === undefined || reverse === recorded);
+  }
+
+  private use<T extends RecordedCommand | RecordedDownload>(entry: T, pairs: [string, string][]) {
+    this.used.add(entry);
+    for (const [recorded, actual] of pairs) {
+      if (!this.bindings.has(recorded)) {
+        this.bindings.set(recorded, actual);
+        this.reverseBindings.set(actual.toUpperCase(), recorded);
+      }
+    }
+    return entry;
+  }
+}
+
+class OfflineClient extends node_ssh.NodeSSH {
+  constructor(private readonly backend: OfflineBackend) {
+    super();
+  }
+
+  /** The credentials are not checked */
+  async connect(config: node_ssh.Config) {
+    this.connection = new OfflineConnection();
+    return this;
+  }
+
+  async execCommand(command: string, options: node_ssh.SSHExecCommandOptions = {}): Promise<node_ssh.SSHExecCommandResponse> {
+    const stdin = typeof options.stdin === `string` ? options.stdin : undefined;
+    const recorded = this.backend.findCommand(command, options.cwd, stdin);
+    const channel = new OfflineChannel();
+    options.onChannel?.(channel);
+
+    const emulated = recorded ? undefined : this.backend.runEmulated(command, { cwd: options.cwd, stdin, channel });
+    if (emulated) {
+      const result = await emulated;
+      if (result.stdout) {
+        options.onStdout?.(Buffer.from(result.stdout));
+      }
+      if (result.stderr) {
+        options.onStderr?.(Buffer.from(result.stderr));
+      }
+      return result;
+    }
+
+    if (!recorded) {
+      const stderr = `No recorded command for ${options.cwd ? `cd ${options.cwd} ; ` : ``}${command}`;
+      options.onStderr?.(Buffer.from(stderr));
+      return { code: 1, signal: null, stdout: ``, stderr };
+    }
+
+    if (recorded.code === null) {
+      // The process was killed while it was recorded: this one runs until it is killed too
+      await new Promise(resolve => channel.once(`close`, resolve));
+    }
+
+    const stdout = this.backend.toActual(recorded.stdout);
+    const stderr = this.backend.toActual(recorded.stderr);
+    if (stdout) {
+      options.onStdout?.(Buffer.from(stdout));
+    }
+    if (stderr) {
+      options.onStderr?.(Buffer.from(stderr));
+    }
+    return { code: recorded.code, signal: recorded.code === null ? `KILL` : null, stdout, stderr };
+  }
+
+  async getFile(localFile: string, remoteFile: string) {
+    const recorded = this.backend.findDownload(remoteFile);
+    if (recorded) {
+      writeFileSync(localFile, Buffer.from(recorded.content, `base64`));
+    }
+    else if (existsSync(this.backend.toLocal(remoteFile))) {
+      copyFileSync(this.backend.toLocal(remoteFile), localFile);
+    }
+    else {
+      throw new Error(`No such file: ${remoteFile}`);
+    }
+  }
+
+  async putFile(localFile: string, remoteFile: string) {
+    const target = this.backend.toLocal(remoteFile);
+    mkdirSync(path.dirname(target), { recursive: true });
+    copyFileSync(localFile, target);
+  }
+
+  async putFiles(files: { local: string, remote: string }[]) {
+    for (const file of files) {
+      await this.putFile(file.local, file.remote);
+    }
+  }
+
+  async putDirectory(localDirectory: string, remoteDirectory: string) {
+    cpSync(localDirectory, this.backend.toLocal(remoteDirectory), { recursive: true });
+    return true;
+  }
+
+  async getDirectory(localDirectory: string, remoteDirectory: string) {
+    const uploaded = this.backend.toLocal(remoteDirectory);
+    if (existsSync(uploaded)) {
+      cpSync(uploaded, localDirectory, { recursive: true });
+    }
+
+    for (const [file, download] of this.backend.findDirectory(remoteDirectory)) {
+      const target = path.join(localDirectory, file);
+      mkdirSync(path.dirname(target), { recursive: true });
+      writeFileSync(target, Buffer.from(download.content, `base64`));
+    }
+    return true;
+  }
+
+  async requestShell(): Promise<ClientChannel> {
+    throw new Error(`Shells are not available offline`);
+  }
+
+  async forwardOut(): Promise<ClientChannel> {
+    throw new Error(`Port forwarding is not available offline`);
+  }
+}
+
+/**
+ * A client that is never connected: ending it only tells the listeners it is closed
+ */
+class OfflineConnection extends Client {
+  end() {
+    this.emit(`close`);
+    return this;
+  }
+}
+
+/**
+ * The channel of a replayed command: the output is sent through the command result, and closing it kills the command
+ */
+class OfflineChannel extends Duplex implements ClientChannel {
+  readonly stdin = this;
+  readonly stdout = this;
+  readonly stderr = new PassThrough();
+  readonly server = false;
+  readonly type = `session`;
+  readonly subtype = `exec`;
+  incoming: unknown = {};
+  outgoing: unknown = {};
+
+  _read() { }
+
+  _write(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+    callback();
+  }
+
+  eof() { }
+
+  setWindow() { }
+
+  signal() { }
+
+  exit() { }
+
+  close() {
+    this.emit(`close`);
+  }
+}
+
+/**
+ * @returns the paths of the files in a directory and its subdirectories, relative to it and using `/`
+ */
+function listFiles(directory: string): string[] {
+  return readdirSync(directory).flatMap(name => {
+    const file = path.join(directory, name);
+    return statSync(file).isDirectory() ? listFiles(file).map(child => `${name}/${child}`) : [name];
+  });
+}
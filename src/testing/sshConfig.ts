@@ -0,0 +1,59 @@
+import assert from "assert";
+import { TestSuite } from ".";
+import { parseSSHConfig, toConnectionData } from "../api/SSHConfig";
+
+const CONFIG = [
+  `# Bastion of the IBM i partitions`,
+  `Host bastion`,
+  `  HostName bastion.example.com`,
+  `  User jumper`,
+  `  Port 2222`,
+  `  IdentityFile ~/.ssh/id_bastion`,
+  ``,
+  `Host dev test`,
+  `  HostName %h.ibmi.example.com`,
+  `  ProxyJump bastion`,
+  ``,
+  `Host prod`,
+  `  HostName=prod.ibmi.example.com`,
+  `  IdentityFile "~/.ssh/id prod"`,
+  `  ProxyJump admin@gateway:2200`,
+  ``,
+  `Host * !bastion`,
+  `  User developer`,
+  `  IdentityFile ~/.ssh/id_ed25519`
+].join(`\n`);
+
+export const SSHConfigSuite: TestSuite = {
+  name: `SSH config tests`,
+  tests: [
+    {
+      name: `Parse hosts`, test: async () => {
+        const hosts = parseSSHConfig(CONFIG);
+        assert.deepStrictEqual(hosts.map(host => host.alias), [`bastion`, `dev`, `test`, `prod`]);
+
+        const [bastion, dev, , prod] = hosts;
+        assert.deepStrictEqual(bastion, { alias: `bastion`, hostName: `bastion.example.com`, port: 2222, user: `jumper`, identityFile: `~/.ssh/id_bastion`, proxyJump: undefined });
+        assert.deepStrictEqual(dev, { alias: `dev`, hostName: `dev.ibmi.example.com`, port: 22, user: `developer`, identityFile: `~/.ssh/id_ed25519`, proxyJump: `bastion` });
+        assert.strictEqual(prod.hostName, `prod.ibmi.example.com`);
+        assert.strictEqual(prod.identityFile, `~/.ssh/id prod`);
+      }
+    },
+    {
+      name: `Convert hosts to connections`, test: async () => {
+        const hosts = parseSSHConfig(CONFIG);
+        const dev = toConnectionData(hosts[1], hosts);
+        assert.strictEqual(dev.name, `dev`);
+        assert.strictEqual(dev.username, `developer`);
+        assert.strictEqual(dev.privateKeyPath, `~/.ssh/id_ed25519`);
+        assert.strictEqual(dev.jumpHost, `jumper@bastion.example.com:2222`);
+        assert.strictEqual(dev.jumpHostPrivateKeyPath, `~/.ssh/id_bastion`);
+
+        const prod = toConnectionData(hosts[3], hosts);
+        assert.strictEqual(prod.jumpHost, `admin@gateway:2200`);
+        assert.strictEqual(prod.jumpHostPrivateKeyPath, undefined);
+        assert.throws(() => toConnectionData({ ...hosts[1], proxyJump: `bastion,gateway` }, hosts));
+      }
+    }
+  ]
+};
@@ -346,6 +346,14 @@ export const ToolsSuite: TestSuite = {
         assert.strictEqual(date2.getUTCMinutes(), 47);
         assert.strictEqual(date2.getUTCSeconds(), 2);
       }
+    },
+    {
+      name: `formatSize tests`, test: async () => {
+        assert.strictEqual(Tools.formatSize(0), `0 B`);
+        assert.strictEqual(Tools.formatSize(1023), `1023 B`);
+        assert.strictEqual(Tools.formatSize(1536), `1.5 KB`);
+        assert.strictEqual(Tools.formatSize(5 * 1024 * 1024), `5.0 MB`);
+      }
     }
   ]
 };
@@ -1,8 +1,9 @@
 import { Ignore } from 'ignore';
-import { MarkdownString, ProviderResult, Range, ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState, WorkspaceFolder } from "vscode";
+import { CancellationToken, MarkdownString, ProviderResult, Range, ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState, WorkspaceFolder } from "vscode";
 import { ConnectionConfiguration } from './api/Configuration';
 import { CustomUI } from "./api/CustomUI";
 import Instance from "./api/Instance";
+import { TestSuiteRegistry } from "./api/TestSuites";
 import { Tools } from "./api/Tools";
 import { DeployTools } from "./api/local/deployTools";
 import { ComponentRegistry } from './components/manager';
@@ -14,6 +15,7 @@ export interface CodeForIBMi {
   evfeventParser: (lines: string[]) => Map<string, FileError[]>,
   tools: typeof Tools,
   componentRegistry: ComponentRegistry
+  testSuiteRegistry: TestSuiteRegistry
 }
 
 export type DeploymentMethod = "all" | "staged" | "unstaged" | "changed" | "compare";
@@ -50,12 +52,20 @@ export interface RemoteCommand {
   cwd?: string;
   env?: Record<string, string>;
   noLibList?: boolean
+  /** For `ile` commands: keep the job log messages in the result when the command fails */
+  captureJobLog?: boolean
+  /** The feature running the command, shown in the command history */
+  caller?: string
 }
 
 export interface CommandData extends StandardIO {
   command: string;
   directory?: string;
   env?: Record<string, string>;
+  /** Kills the remote process when cancelled */
+  token?: CancellationToken;
+  /** The feature running the command, shown in the command history */
+  caller?: string;
 }
 
 export interface CommandResult {
@@ -63,6 +73,7 @@ export interface CommandResult {
   stdout: string;
   stderr: string;
   command?: string;
+  jobLog?: IBMiJobLogMessage[];
 }
 
 export interface Action {
@@ -85,6 +96,12 @@ export interface ConnectionData {
   password?: string;
   privateKeyPath?: string;
   keepaliveInterval?: number;
+  /** Host the system is reached through, as `[user@]host[:port]` like the SSH `ProxyJump` option */
+  jumpHost?: string;
+  /** Private key used on the jump host; the connection's password or private key is used otherwise */
+  jumpHostPrivateKeyPath?: string;
+  /** Forward the Debug Service ports over the SSH connection */
+  forwardDebugPorts?: boolean;
 }
 
 export interface Server {
@@ -136,6 +153,153 @@ export interface IFSFile {
   owner?: string
 }
 
+export interface IBMiSpooledFile {
+  name: string
+  number: number
+  user: string
+  job: string
+  queue: QsysPath
+  status: string
+  userData?: string
+  formType?: string
+  size?: number
+  pages?: number
+  created?: Date
+}
+
+export type SpooledFileSource = {
+  type: "user" | "outputQueue"
+  name: string
+  library?: string
+}
+
+export interface IBMiJob {
+  /** Qualified job name: `number/user/name` */
+  job: string
+  name: string
+  user: string
+  number: string
+  type: string
+  status: string
+  subsystem?: string
+  currentUser?: string
+  function?: string
+  cpuPercentage?: number
+  threads?: number
+}
+
+export interface IBMiJobLogMessage {
+  id: string
+  type: string
+  severity: number
+  timestamp?: Date
+  fromProgram: string
+  fromLibrary?: string
+  text: string
+  secondLevelText?: string
+}
+
+export interface IBMiCallStackEntry {
+  type: string
+  program: string
+  library: string
+  module?: string
+  procedure?: string
+  statements?: string
+  thread?: number
+}
+
+export interface IBMiQueuedMessage {
+  /** Message key, as an hexadecimal string */
+  key: string
+  id: string
+  type: string
+  severity: number
+  text: string
+  secondLevelText?: string
+  timestamp?: Date
+  fromUser?: string
+  fromJob?: string
+  fromProgram?: string
+  /** Reply sent to an inquiry message */
+  reply?: string
+}
+
+export interface IBMiColumn {
+  /** SQL column name */
+  name: string
+  systemName: string
+  type: string
+  length: number
+  scale?: number
+  nullable: boolean
+  identity?: boolean
+  text?: string
+}
+
+export interface IBMiRecord {
+  /** Relative record number */
+  rrn: number
+  values: Tools.DB2Row
+}
+
+export interface IBMiObjectReference extends QsysPath {
+  type: string
+  text?: string
+  /** How a file is used by a program: `I`nput, `O`utput, `U`pdate... */
+  usage?: string
+}
+
+export interface CommandElement {
+  /** `CHAR`, `NAME`, `DEC`, `QUAL`, `ELEM`... */
+  type: string
+  prompt: string
+  min: number
+  max: number
+  length?: string
+  default?: string
+  /** Only the listed values are allowed */
+  restricted: boolean
+  values: string[]
+  /** Values replacing the whole list or the whole qualified name, like `*ALL` */
+  singleValues: string[]
+  qualifiers: CommandElement[]
+  elements: CommandElement[]
+}
+
+export interface CommandParameter extends CommandElement {
+  keyword: string
+  position?: number
+  /** Constant parameters cannot be specified */
+  constant: boolean
+}
+
+export interface CommandDefinition {
+  name: string
+  library: string
+  prompt: string
+  parameters: CommandParameter[]
+}
+
+/** An IFS path or a QSYS object whose authorities are displayed or changed */
+export type AuthorityTarget = string | (QsysPath & { type: string });
+
+export interface IBMiPrivateAuthority {
+  user: string
+  /** `*ALL`, `*CHANGE`, `*USE`, `*EXCLUDE`, `USER DEF`... for QSYS objects, `*RWX`, `*RX`... for IFS objects */
+  authority: string
+  objectAuthorities: string[]
+  dataAuthorities: string[]
+}
+
+export interface IBMiObjectAuthorities {
+  owner: string
+  primaryGroup?: string
+  authorizationList?: string
+  publicAuthority?: string
+  privateAuthorities: IBMiPrivateAuthority[]
+}
+
 export interface IBMiError {
   code: string
   text: string
@@ -155,7 +319,7 @@ export interface QsysFsOptions {
   readonly?: boolean
 }
 
-export type IBMiEvent = "connected" | "disconnected" | "deployLocation" | "deploy"
+export type IBMiEvent = "connected" | "disconnected" | "switched" | "deployLocation" | "deploy"
 
 export interface WithPath {
   path: string
@@ -172,6 +336,8 @@ export type BrowserItemParameters = {
   color?: string
   state?: TreeItemCollapsibleState
   parent?: BrowserItem
+  /** The name of the connection the item belongs to, inherited from the parent when not set */
+  connection?: string
 }
 
 export class BrowserItem extends TreeItem {
@@ -184,6 +350,10 @@ export class BrowserItem extends TreeItem {
     return this.params?.parent;
   }
 
+  get connectionName(): string | undefined {
+    return this.params?.connection || this.parent?.connectionName;
+  }
+
   getChildren?(): ProviderResult<BrowserItem[]>;
   refresh?(): void;
   reveal?(options?: FocusOptions): Thenable<void>;
@@ -221,12 +391,42 @@ export interface WrapResult {
   outStmf: string;
 }
 
+/** A value bound to a parameter marker; dates are bound as timestamps */
+export type SqlParameter = string | number | bigint | Date | Buffer | null;
+
+export interface SqlStatement {
+  sql: string
+  /** The values of the `?` parameter markers of the statement, in order */
+  parameters?: SqlParameter[]
+}
+
+export interface SqlColumn {
+  name: string
+  /** The type reported by the database driver, like `STRING`, `INT`, `DECIMAL`, `DATE`, `TIMESTAMP` or `BINARY` */
+  type: string
+  /** The length, or the precision of numeric columns */
+  length: number
+  scale: number
+  nullable: boolean
+}
+
+export type SqlValue = string | number | bigint | Date | Buffer | null;
+
+export interface SqlRow extends Record<string, SqlValue> { }
+
+export interface SqlResult {
+  columns: SqlColumn[]
+  rows: SqlRow[]
+}
+
 export type SpecialAuthorities = "*ALLOBJ" | "*AUDIT" | "*IOSYSCFG" | "*JOBCTL" | "*SAVSYS" | "*SECADM" | "*SERVICE" | "*SPLCTL";
 export type AttrOperands = 'ACCESS_TIME' | 'ALLOC_SIZE' | 'ALLOC_SIZE_64' | 'ALWCKPWR' | 'ALWSAV' | 'ASP' | 'AUDIT' | 'AUTH_GROUP' | 'AUTH_LIST_NAME' | 'AUTH_OWNER' | 'AUTH_USERS' | 'CCSID' | 'CHANGE_TIME' | 'CHECKED_OUT' | 'CHECKED_OUT_USER' | 'CHECKED_OUT_TIME' | 'CODEPAGE' | 'CREATE_TIME' | 'CRTOBJAUD' | 'CRTOBJSCAN' | 'DATA_SIZE' | 'DATA_SIZE_64' | 'DIR_FORMAT' | 'DISK_STG_OPT' | 'EXTENDED_ATTR_SIZE' | 'FILE_FORMAT' | 'FILE_ID' | 'JOURNAL_APPLY_CHANGES' | 'JOURNAL_ID' | 'JOURNAL_LIBRARY' | 'JOURNAL_NAME' | 'JOURNAL_OPTIONS' | 'JOURNAL_RCVR_ASP' | 'JOURNAL_RCVR_LIBRARY' | 'JOURNAL_RCVR_NAME' | 'JOURNAL_ROLLBACK_ENDED' | 'JOURNAL_START_TIME' | 'JOURNAL_STATUS' | 'LOCAL_REMOTE' | 'MAIN_STG_OPT' | 'MODIFY_TIME' | 'MULT_SIGS' | 'OBJTYPE' | 'PC_ARCHIVE' | 'PC_HIDDEN' | 'PC_READ_ONLY' | 'PC_SYSTEM' | 'RSTDRNMUNL' | 'SCAN' | 'SCAN_BINARY' | 'SCAN_CCSID1' | 'SCAN_CCSID2' | 'SCAN_SIGS_DIFF' | 'SCAN_STATUS' | 'SGID' | 'SIGNED' | 'STG_FREE' | 'SUID' | 'SYSTEM_ARCHIVE' | 'SYSTEM_USE' | 'SYS_SIGNED' | 'UDFS_DEFAULT_FORMAT' | 'USAGE_DAYS_USED' | 'USAGE_LAST_USED_TIME' | 'USAGE_RESET_TIME';
 
 export type SearchResults = {
   term: string,
   hits: SearchHit[]
+  /** The connection the hits come from; the active one by default */
+  connection?: string
 }
 
 export type SearchHit = {
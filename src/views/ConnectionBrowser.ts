@@ -1,7 +1,12 @@
+import { existsSync, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
 import vscode from 'vscode';
 import { ConnectionData, Server } from '../typings';
 
 import { ConnectionConfiguration, ConnectionManager, GlobalConfiguration } from '../api/Configuration';
+import IBMi from '../api/IBMi';
+import { parseSSHConfig, toConnectionData } from '../api/SSHConfig';
 import { GlobalStorage } from '../api/Storage';
 import { instance } from '../instantiate';
 import { Login } from '../webviews/login';
@@ -132,6 +137,47 @@ export function initializeConnectionBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
+    vscode.commands.registerCommand(`code-for-ibmi.importFromSSHConfig`, async () => {
+      const configPath = path.join(os.homedir(), `.ssh`, `config`);
+      if (!existsSync(configPath)) {
+        vscode.window.showErrorMessage(vscode.l10n.t(`{0} was not found.`, configPath));
+        return;
+      }
+
+      const hosts = parseSSHConfig(readFileSync(configPath, `utf8`));
+      const newHosts = hosts.filter(host => !ConnectionManager.getByName(host.alias));
+      if (!newHosts.length) {
+        vscode.window.showInformationMessage(vscode.l10n.t(`All the hosts of {0} already have a connection.`, configPath));
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(newHosts.map(host => ({
+        label: host.alias,
+        description: `${host.user ? `${host.user}@` : ``}${host.hostName}:${host.port}`,
+        detail: host.proxyJump ? vscode.l10n.t(`Through {0}`, host.proxyJump) : undefined,
+        host
+      })), {
+        canPickMany: true,
+        title: vscode.l10n.t(`Select the hosts to import from {0}`, configPath)
+      });
+
+      if (selected?.length) {
+        let imported = 0;
+        for (const { host } of selected) {
+          try {
+            await ConnectionManager.storeNew(toConnectionData(host, hosts));
+            imported++;
+          }
+          catch (e: any) {
+            vscode.window.showWarningMessage(vscode.l10n.t(`{0} was not imported: {1}`, host.alias, e.message || String(e)));
+          }
+        }
+
+        connectionBrowser.refresh();
+        vscode.window.showInformationMessage(vscode.l10n.t(`{0} connection(s) imported.`, imported));
+      }
+    }),
+
     vscode.commands.registerCommand(`code-for-ibmi.sortConnections`, async () => {
       await ConnectionManager.sort();
       connectionBrowser.refresh();
@@ -246,7 +292,9 @@ class ConnectionBrowser implements vscode.TreeDataProvider<ServerItem> {
   readonly onDidChangeTreeData: vscode.Event<ServerItem | undefined | null | void> = this._emitter.event;
 
   constructor(context: vscode.ExtensionContext) {
+    instance.subscribe(context, 'connected', 'Refresh Connection Browser', () => this.refresh());
     instance.subscribe(context, 'disconnected', 'Refresh Connection Browser', () => this.refresh());
+    instance.subscribe(context, 'switched', 'Refresh Connection Browser', () => this.refresh());
   }
 
   refresh() {
@@ -260,21 +308,28 @@ class ConnectionBrowser implements vscode.TreeDataProvider<ServerItem> {
   async getChildren(): Promise<ServerItem[]> {
     const lastConnection = GlobalStorage.get().getLastConnections()?.[0];
     return ConnectionManager.getAll()
-      .map(connection => new ServerItem(connection, connection.name === lastConnection?.name));
+      .map(connection => new ServerItem(connection, connection.name === lastConnection?.name, instance.getConnection(connection.name)));
   }
 }
 
 class ServerItem extends vscode.TreeItem implements Server {
-  constructor(readonly connection: ConnectionData, lastConnected?: boolean) {
+  constructor(readonly connection: ConnectionData, lastConnected?: boolean, connected?: IBMi) {
     super(connection.name, vscode.TreeItemCollapsibleState.None);
     const readOnly = (GlobalConfiguration.get<ConnectionConfiguration.Parameters[]>(`connectionSettings`) || [])
       .find(settings => connection.name === settings.name)
       ?.readOnlyMode
 
-    this.contextValue = `server`;
+    this.contextValue = connected ? `server.connected` : `server`;
     this.description = `${connection.username}@${connection.host}`;
-    this.tooltip = lastConnected ? vscode.l10n.t(` (previous connection)`) : "";
-    this.iconPath = new vscode.ThemeIcon(readOnly ? `lock` : `remote`, lastConnected ? new vscode.ThemeColor("notificationsWarningIcon.foreground") : undefined);
+    if (connected) {
+      const active = instance.getConnection() === connected;
+      this.description += ` ${active ? vscode.l10n.t(`(active)`) : vscode.l10n.t(`(connected)`)}`;
+      this.iconPath = new vscode.ThemeIcon(readOnly ? `lock` : `vm-active`, active ? new vscode.ThemeColor("charts.green") : undefined);
+    }
+    else {
+      this.tooltip = lastConnected ? vscode.l10n.t(` (previous connection)`) : "";
+      this.iconPath = new vscode.ThemeIcon(readOnly ? `lock` : `remote`, lastConnected ? new vscode.ThemeColor("notificationsWarningIcon.foreground") : undefined);
+    }
 
     this.command = {
       command: `code-for-ibmi.connectTo`,
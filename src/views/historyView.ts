@@ -0,0 +1,204 @@
+import path from "path";
+import vscode, { l10n } from "vscode";
+import { CommandHistory, HistoryEntry, HistoryRequest } from "../api/CommandHistory";
+import IBMi from "../api/IBMi";
+import { Tools } from "../api/Tools";
+import { instance } from "../instantiate";
+import { BrowserItem } from "../typings";
+
+const ENVIRONMENT_ICONS = {
+  pase: `terminal`,
+  qsh: `terminal-bash`,
+  ile: `symbol-event`,
+  sql: `database`
+};
+
+class HistoryView implements vscode.TreeDataProvider<BrowserItem> {
+  private readonly emitter = new vscode.EventEmitter<BrowserItem | BrowserItem[] | undefined | null | void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+  /** Text found in the entries, or `>N` for the entries lasting at least N milliseconds */
+  filter = ``;
+
+  refresh(target?: BrowserItem) {
+    this.emitter.fire(target);
+  }
+
+  getTreeItem(element: BrowserItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
+    return element?.getChildren?.() || this.getEntries().map(entry => new HistoryItem(entry));
+  }
+
+  /**
+   * @returns the entries matching the filter, the most recent first
+   */
+  getEntries() {
+    const minimumDuration = /^>\s*(\d+)$/.exec(this.filter.trim())?.[1];
+    const text = this.filter.trim().toLowerCase();
+    const matches = (entry: HistoryEntry): boolean => {
+      if (minimumDuration) {
+        return entry.duration === undefined || entry.duration >= Number(minimumDuration);
+      }
+      else {
+        return [entry.command, entry.caller, entry.api, entry.environment, entry.connection, entry.error].some(value => value?.toLowerCase().includes(text)) ||
+          entry.children.some(matches);
+      }
+    };
+
+    return CommandHistory.getEntries().filter(entry => !this.filter || matches(entry)).reverse();
+  }
+
+  getDescription() {
+    return this.filter ? l10n.t(`Filter: {0}`, this.filter) : undefined;
+  }
+}
+
+class HistoryItem extends BrowserItem {
+  constructor(readonly entry: HistoryEntry) {
+    const failed = Boolean(entry.error) || Boolean(entry.code);
+    super(entry.command.split(`\n`).find(line => line.trim())?.trim() || entry.api, {
+      state: entry.children.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+      icon: entry.duration === undefined ? `loading~spin` : failed ? `error` : ENVIRONMENT_ICONS[entry.environment],
+      color: failed ? `testing.iconFailed` : undefined
+    });
+    this.id = String(entry.id);
+    this.contextValue = `historyEntry${entry.request && entry.duration !== undefined ? `_rerun` : ``}`;
+    this.description = [
+      entry.duration === undefined ? l10n.t(`running`) : formatDuration(entry.duration),
+      entry.code ? l10n.t(`exit code {0}`, entry.code) : undefined,
+      entry.outputSize !== undefined ? Tools.formatSize(entry.outputSize) : undefined,
+      entry.caller
+    ].filter(Boolean).join(` · `);
+    this.tooltip = new vscode.MarkdownString(Tools.generateTooltipHtmlTable(`<code>${escapeHtml(entry.command)}</code>`, {
+      "Connection": entry.connection,
+      "API": entry.api,
+      "Environment": entry.environment,
+      "Caller": entry.caller,
+      "Directory": entry.directory,
+      "Variables": entry.env ? Object.keys(entry.env).join(`, `) : undefined,
+      "Started": entry.started.toLocaleString(),
+      "Duration": entry.duration !== undefined ? formatDuration(entry.duration) : undefined,
+      "Exit code": entry.code,
+      "Output size": entry.outputSize !== undefined ? Tools.formatSize(entry.outputSize) : undefined,
+      "Rows": entry.rows,
+      "Error": entry.error ? escapeHtml(entry.error) : undefined
+    }));
+    this.tooltip.supportHtml = true;
+  }
+
+  getChildren() {
+    return this.entry.children.map(child => new HistoryItem(child));
+  }
+}
+
+export function initializeHistoryView(context: vscode.ExtensionContext) {
+  const historyView = new HistoryView();
+  const historyTreeViewer = vscode.window.createTreeView(
+    `historyView`, {
+    treeDataProvider: historyView
+  });
+
+  const refresh = () => {
+    historyTreeViewer.description = historyView.getDescription();
+    historyView.refresh();
+  };
+
+  // Many entries can be recorded at once: the view is refreshed once they settle
+  let refreshTimeout: NodeJS.Timeout | undefined;
+  const scheduleRefresh = () => {
+    if (historyTreeViewer.visible && !refreshTimeout) {
+      refreshTimeout = setTimeout(() => {
+        refreshTimeout = undefined;
+        refresh();
+      }, 500);
+    }
+  };
+
+  context.subscriptions.push(
+    historyTreeViewer,
+    CommandHistory.onDidChange(scheduleRefresh),
+    historyTreeViewer.onDidChangeVisibility(({ visible }) => visible ? refresh() : undefined),
+    vscode.commands.registerCommand(`code-for-ibmi.history.refresh`, refresh),
+
+    vscode.commands.registerCommand(`code-for-ibmi.history.filter`, async () => {
+      const filter = await vscode.window.showInputBox({
+        title: l10n.t(`Filter the history`),
+        prompt: l10n.t(`Text to find in the commands, statements and callers, or >N for the entries lasting at least N milliseconds. Leave empty to show all the entries.`),
+        value: historyView.filter
+      });
+
+      if (filter !== undefined) {
+        historyView.filter = filter.trim();
+        refresh();
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.history.clear`, () => CommandHistory.clear()),
+
+    vscode.commands.registerCommand(`code-for-ibmi.history.rerun`, async (node: HistoryItem) => {
+      const connection = instance.getConnection(node.entry.connection);
+      const request = node.entry.request;
+      if (!connection) {
+        vscode.window.showErrorMessage(l10n.t(`Connect to {0} to run this entry again.`, node.entry.connection));
+      }
+      else if (request) {
+        const start = Date.now();
+        try {
+          await vscode.window.withProgress({ title: l10n.t(`Running {0} again`, request.api), location: vscode.ProgressLocation.Window }, () => rerun(connection, request));
+          vscode.window.showInformationMessage(l10n.t(`{0} ran again in {1}.`, request.api, formatDuration(Date.now() - start)));
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error running {0} again: {1}`, request.api, e.message || String(e)));
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.history.export`, async () => {
+      const entries = historyView.getEntries();
+      const connection = instance.getConnection();
+      const saveLocation = await vscode.window.showSaveDialog({
+        defaultUri: connection ? vscode.Uri.file(path.join(connection.getLastDownloadLocation(), `history.json`)) : undefined,
+        filters: { 'JSON': [`json`] }
+      });
+
+      if (saveLocation) {
+        try {
+          await vscode.workspace.fs.writeFile(saveLocation, Buffer.from(JSON.stringify(entries.map(toExported), null, 2), `utf8`));
+          vscode.window.showInformationMessage(l10n.t(`Exported {0} history entries`, entries.length), l10n.t(`Open`))
+            .then(open => open ? vscode.commands.executeCommand(`vscode.open`, saveLocation) : undefined);
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error exporting the history: {0}`, e.message || String(e)));
+        }
+      }
+    })
+  );
+}
+
+function rerun(connection: IBMi, request: HistoryRequest): Promise<unknown> {
+  switch (request.api) {
+    case `sendCommand`: return connection.sendCommand({ ...request.data });
+    case `sendQsh`: return connection.sendQsh({ ...request.data });
+    case `runCommand`: return connection.runCommand({ ...request.data });
+    case `runSQL`: return connection.runSQL(request.data.statements, { fakeBindings: request.data.fakeBindings });
+    case `runStatements`: return connection.runStatements(...request.data);
+  }
+}
+
+/**
+ * Leaves out what may hold secrets: the values of the environment variables, and the requests with the standard input and the SQL parameters
+ */
+function toExported(entry: HistoryEntry): object {
+  const { env, request, children, ...details } = entry;
+  return { ...details, variables: env ? Object.keys(env) : undefined, children: children.map(toExported) };
+}
+
+function formatDuration(duration: number) {
+  return duration < 1000 ? `${duration} ms` : `${(duration / 1000).toFixed(duration < 10000 ? 2 : 1)} s`;
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, `&amp;`).replace(/</g, `&lt;`).replace(/>/g, `&gt;`);
+}
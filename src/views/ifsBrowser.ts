@@ -3,24 +3,33 @@ import path, { dirname, extname } from "path";
 import vscode, { FileType, l10n, window } from "vscode";
 
 import { existsSync, mkdirSync, rmdirSync } from "fs";
+import { CommandHistory } from "../api/CommandHistory";
 import { ConnectionConfiguration, GlobalConfiguration } from "../api/Configuration";
 import { SortOptions } from "../api/IBMiContent";
 import { Search } from "../api/Search";
 import { GlobalStorage } from "../api/Storage";
 import { Tools } from "../api/Tools";
-import { instance } from "../instantiate";
+import { openAsWorkspaceFolder } from "../filesystems/qsys/FSUtils";
+import { getUriFromPath } from "../filesystems/qsys/QSysFs";
+import { instance, registerItemCommand } from "../instantiate";
 import { BrowserItem, BrowserItemParameters, FocusOptions, IFSFile, IFS_BROWSER_MIMETYPE, OBJECT_BROWSER_MIMETYPE, SearchHit, SearchResults, WithPath } from "../typings";
 
 const URI_LIST_MIMETYPE = "text/uri-list";
 const URI_LIST_SEPARATOR = "\r\n";
 const PROTECTED_DIRS = /^(\/|\/QOpenSys|\/QSYS\.LIB|\/QDLS|\/QOPT|\/QNTC|\/QFileSvr\.400|\/QIBM|\/QSR|\/QTCPTMM|\/bin|\/dev|\/home|\/tmp|\/usr|\/var)$/i;
 const ALWAYS_SHOW_FILES = /^(\.gitignore|\.vscode|\.deployignore)$/i;
+/** Set while directories are listed: the loading can then be cancelled */
+const LOADING_CONTEXT = `code-for-ibmi:ifsBrowserLoading`;
 type DragNDropAction = "move" | "copy";
 type DragNDropBehavior = DragNDropAction | "ask";
 const getDragDropBehavior = () => GlobalConfiguration.get<DragNDropBehavior>(`IfsBrowser.DragAndDropDefaultBehavior`) || "ask";
 
-function isProtected(path: string) {
-  return PROTECTED_DIRS.test(path) || instance.getContent()?.isProtectedPath(path);
+function isProtected(path: string, connectionName?: string) {
+  return PROTECTED_DIRS.test(path) || instance.getContent(connectionName)?.isProtectedPath(path);
+}
+
+function getShortCuts(connectionName?: string, parent?: BrowserItem) {
+  return instance.getConfig(connectionName)?.ifsShortcuts.map(directory => new IFSShortcutItem(directory, parent, connectionName)) || [];
 }
 
 function alwaysShow(name: string) {
@@ -40,11 +49,17 @@ class IFSBrowser implements vscode.TreeDataProvider<BrowserItem> {
   }
 
   getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
-    return element?.getChildren?.() || this.getShortCuts();
-  }
+    if (element) {
+      return CommandHistory.withCaller(`IFS Browser`, () => element.getChildren?.());
+    }
 
-  getShortCuts() {
-    return instance.getConfig()?.ifsShortcuts.map(directory => new IFSShortcutItem(directory)) || [];
+    const connections = instance.getConnections();
+    if (connections.length > 1) {
+      return connections.map(connection => new IFSConnectionItem(connection.currentConnectionName));
+    }
+    else {
+      return getShortCuts(connections[0]?.currentConnectionName);
+    }
   }
 
   getParent(item: BrowserItem) {
@@ -52,7 +67,7 @@ class IFSBrowser implements vscode.TreeDataProvider<BrowserItem> {
   }
 
   async moveShortcut(shortcut: IFSShortcutItem, direction: "top" | "up" | "down" | "bottom") {
-    const config = instance.getConfig();
+    const config = instance.getConfig(shortcut.connectionName);
     if (config) {
       const shortcuts = config.ifsShortcuts;
 
@@ -100,7 +115,7 @@ class IFSItem extends BrowserItem implements WithPath {
   constructor(readonly file: IFSFile, parameters: BrowserItemParameters) {
     super(file.name, parameters);
     this.path = file.path;
-    this.tooltip = instance.getContent()?.ifsFileToToolTip(this.path, file);
+    this.tooltip = instance.getContent(this.connectionName)?.ifsFileToToolTip(this.path, file);
   }
 
   sortBy(sort: SortOptions) {
@@ -132,12 +147,12 @@ class IFSFileItem extends IFSItem {
     this.contextValue = "streamfile";
     this.iconPath = vscode.ThemeIcon.File;
 
-    this.resourceUri = vscode.Uri.parse(this.path).with({ scheme: `streamfile` });
+    this.resourceUri = vscode.Uri.parse(this.path).with({ scheme: `streamfile`, authority: this.connectionName });
 
     this.command = {
       command: "code-for-ibmi.openWithDefaultMode",
       title: `Open Streamfile`,
-      arguments: [{ path: this.path }]
+      arguments: [this]
     };
   }
 
@@ -147,26 +162,29 @@ class IFSFileItem extends IFSItem {
 }
 
 class IFSDirectoryItem extends IFSItem {
-  constructor(file: IFSFile, parent?: IFSDirectoryItem) {
-    super(file, { state: vscode.TreeItemCollapsibleState.Collapsed, parent })
-    const protectedDir = isProtected(this.file.path);
+  constructor(file: IFSFile, parent?: BrowserItem, connection?: string) {
+    super(file, { state: vscode.TreeItemCollapsibleState.Collapsed, parent, connection })
+    const protectedDir = isProtected(this.file.path, this.connectionName);
     this.contextValue = `directory${protectedDir ? `_protected` : ``}`;
     this.iconPath = protectedDir ? new vscode.ThemeIcon("lock-small") : vscode.ThemeIcon.Folder;
   }
 
   async getChildren(): Promise<BrowserItem[]> {
-    const content = instance.getContent();
+    const content = instance.getContent(this.connectionName);
     if (content) {
       try {
-        const showHidden = instance.getConfig()?.showHiddenFiles;
+        const showHidden = instance.getConfig(this.connectionName)?.showHiddenFiles;
         const filterIFSFile = (file: IFSFile, type: "directory" | "streamfile") => file.type === type && (showHidden || !file.name.startsWith(`.`) || alwaysShow(file.name));
-        const objects = await content.getFileList(this.path, this.sort, handleFileListErrors);
+        const objects = await Tools.withCancellableContext(LOADING_CONTEXT, token => content.getFileList(this.path, this.sort, handleFileListErrors, token));
         const directories = objects.filter(f => filterIFSFile(f, "directory"));
         const streamFiles = objects.filter(f => filterIFSFile(f, "streamfile"));
         await storeIFSList(this.path, streamFiles.map(o => o.name));
         return [...directories.map(directory => new IFSDirectoryItem(directory, this)),
         ...streamFiles.map(file => new IFSFileItem(file, this))];
       } catch (e: any) {
+        if (e instanceof vscode.CancellationError) {
+          return [new BrowserItem(l10n.t(`Loading cancelled`), { icon: `circle-slash` })];
+        }
         console.log(e);
         vscode.window.showErrorMessage(e.message || String(e));
         return [new ErrorItem(e)];
@@ -177,16 +195,30 @@ class IFSDirectoryItem extends IFSItem {
 }
 
 class IFSShortcutItem extends IFSDirectoryItem {
-  constructor(readonly shortcut: string) {
-    super({ name: shortcut, path: shortcut, type: "directory" })
+  constructor(readonly shortcut: string, parent?: BrowserItem, connection?: string) {
+    super({ name: shortcut, path: shortcut, type: "directory" }, parent, connection)
 
-    const protectedDir = isProtected(this.file.path);
+    const protectedDir = isProtected(this.file.path, this.connectionName);
     this.contextValue = `shortcut${protectedDir ? `_protected` : ``}`;
     this.iconPath = new vscode.ThemeIcon(protectedDir ? "lock-small" : "folder-library");
     this.tooltip = ``;
   }
 }
 
+/**
+ * Groups the shortcuts of a connection when several connections are active
+ */
+class IFSConnectionItem extends BrowserItem {
+  constructor(connectionName: string) {
+    super(connectionName, { icon: `remote`, state: vscode.TreeItemCollapsibleState.Expanded, connection: connectionName });
+    this.contextValue = `connection`;
+  }
+
+  getChildren() {
+    return getShortCuts(this.connectionName, this);
+  }
+}
+
 class ErrorItem extends BrowserItem {
   constructor(error: Error) {
     super(l10n.t(`Error loading objects.`))
@@ -228,7 +260,7 @@ class IFSBrowserDragAndDrop implements vscode.TreeDragAndDropController<IFSItem>
   }
 
   private async moveOrCopyItems(ifsBrowserItems: IFSItem[], toDirectory: IFSDirectoryItem) {
-    const connection = instance.getConnection();
+    const connection = instance.getConnection(toDirectory.connectionName);
     ifsBrowserItems = ifsBrowserItems.filter(item => item.path !== toDirectory.path && (item.parent && item.parent instanceof IFSItem && item.parent.path !== toDirectory.path));
     if (connection && ifsBrowserItems.length) {
       const dndBehavior = getDragDropBehavior();
@@ -273,7 +305,7 @@ class IFSBrowserDragAndDrop implements vscode.TreeDragAndDropController<IFSItem>
   }
 
   private async copyMembers(memberUris: vscode.Uri[], toDirectory: IFSDirectoryItem) {
-    const connection = instance.getConnection();
+    const connection = instance.getConnection(toDirectory.connectionName);
     if (connection && memberUris && memberUris.length) {
       try {
         for (let uri of memberUris) {
@@ -312,15 +344,16 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
     ifsTreeViewer,
     vscode.commands.registerCommand(`code-for-ibmi.refreshIFSBrowser`, () => ifsBrowser.refresh()),
     vscode.commands.registerCommand(`code-for-ibmi.refreshIFSBrowserItem`, (item?: BrowserItem) => ifsBrowser.refresh(item)),
+    vscode.commands.registerCommand(`code-for-ibmi.cancelIFSBrowserLoading`, () => Tools.cancelContext(LOADING_CONTEXT)),
 
     vscode.commands.registerCommand(`code-for-ibmi.revealInIFSBrowser`, async (item: BrowserItem, options?: FocusOptions) => {
       ifsTreeViewer.reveal(item, options);
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.sortIFSFilesByName`, (item: IFSItem) => item.sortBy({ order: "name" })),
-    vscode.commands.registerCommand(`code-for-ibmi.sortIFSFilesByDate`, (item: IFSItem) => item.sortBy({ order: "date" })),
+    registerItemCommand(`code-for-ibmi.sortIFSFilesByName`, (item: IFSItem) => item.sortBy({ order: "name" })),
+    registerItemCommand(`code-for-ibmi.sortIFSFilesByDate`, (item: IFSItem) => item.sortBy({ order: "date" })),
 
-    vscode.commands.registerCommand(`code-for-ibmi.changeWorkingDirectory`, async (node?: IFSDirectoryItem) => {
+    registerItemCommand(`code-for-ibmi.changeWorkingDirectory`, async (node?: IFSDirectoryItem) => {
       const config = instance.getConfig();
       if (config) {
         const homeDirectory = config.homeDirectory;
@@ -342,7 +375,12 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.addIFSShortcut`, async (node?: IFSDirectoryItem) => {
+    registerItemCommand(`code-for-ibmi.openDirectoryAsWorkspaceFolder`, (node: IFSDirectoryItem) => {
+      const readonly = isProtected(node.path, node.connectionName);
+      openAsWorkspaceFolder(getUriFromPath(node.path, readonly ? { readonly } : undefined, node.connectionName), path.posix.basename(node.path) || node.path);
+    }),
+
+    registerItemCommand(`code-for-ibmi.addIFSShortcut`, async (node?: IFSDirectoryItem) => {
       const config = instance.getConfig();
       const content = instance.getContent();
       if (config && content) {
@@ -374,7 +412,7 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.removeIFSShortcut`, async (node: IFSShortcutItem) => {
+    registerItemCommand(`code-for-ibmi.removeIFSShortcut`, async (node: IFSShortcutItem) => {
       const config = instance.getConfig();
       if (config) {
         const shortcuts = config.ifsShortcuts;
@@ -416,12 +454,12 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.moveIFSShortcutDown`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "down")),
-    vscode.commands.registerCommand(`code-for-ibmi.moveIFSShortcutUp`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "up")),
-    vscode.commands.registerCommand(`code-for-ibmi.moveIFSShortcutToTop`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "top")),
-    vscode.commands.registerCommand(`code-for-ibmi.moveIFSShortcutToBottom`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "bottom")),
+    registerItemCommand(`code-for-ibmi.moveIFSShortcutDown`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "down")),
+    registerItemCommand(`code-for-ibmi.moveIFSShortcutUp`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "up")),
+    registerItemCommand(`code-for-ibmi.moveIFSShortcutToTop`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "top")),
+    registerItemCommand(`code-for-ibmi.moveIFSShortcutToBottom`, (node: IFSShortcutItem) => ifsBrowser.moveShortcut(node, "bottom")),
 
-    vscode.commands.registerCommand(`code-for-ibmi.createDirectory`, async (node?: IFSDirectoryItem) => {
+    registerItemCommand(`code-for-ibmi.createDirectory`, async (node?: IFSDirectoryItem) => {
       const connection = instance.getConnection();
       const config = instance.getConfig();
       if (connection && config) {
@@ -448,7 +486,7 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.createStreamfile`, async (node?: IFSDirectoryItem) => {
+    registerItemCommand(`code-for-ibmi.createStreamfile`, async (node?: IFSDirectoryItem) => {
       const config = instance.getConfig();
       const content = instance.getContent();
       if (config && content) {
@@ -478,7 +516,7 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.uploadStreamfile`, async (node: IFSDirectoryItem, files?: vscode.Uri[]) => {
+    registerItemCommand(`code-for-ibmi.uploadStreamfile`, async (node: IFSDirectoryItem, files?: vscode.Uri[]) => {
       const connection = instance.getConnection();
       const config = instance.getConfig();
 
@@ -538,7 +576,7 @@ export function initializeIFSBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.deleteIFS`, async (singleItem: IFSItem, items?: IFSItem[]) => {
+    registerItemCommand(`code-for-ibmi.deleteIFS`, async (singleItem: IFSItem, items?: IFSItem[]) => {
       const connection = instance.getConnection();
       const config = instance.getConfig();
       if (connection && config) {
@@ -611,7 +649,7 @@ Please type "{0}" to confirm deletion.`, dirName);
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.moveIFS`, async (node: IFSItem) => {
+    registerItemCommand(`code-for-ibmi.moveIFS`, async (node: IFSItem) => {
       const oldFileTabs: vscode.Tab[] = [];
       const typeLabel = node.file.type === "streamfile" ? l10n.t("streamfile") : l10n.t("directory");
       if (node.file.type === "streamfile") {
@@ -682,7 +720,7 @@ Please type "{0}" to confirm deletion.`, dirName);
         }
       }
     }),
-    vscode.commands.registerCommand(`code-for-ibmi.copyIFS`, async (node: IFSItem) => {
+    registerItemCommand(`code-for-ibmi.copyIFS`, async (node: IFSItem) => {
       const config = instance.getConfig();
       const connection = instance.getConnection();
 
@@ -711,7 +749,7 @@ Please type "{0}" to confirm deletion.`, dirName);
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.searchIFS`, async (node?: IFSItem) => {
+    registerItemCommand(`code-for-ibmi.searchIFS`, async (node?: IFSItem) => {
       const connection = instance.getConnection();
       const config = instance.getConfig();
 
@@ -771,7 +809,7 @@ Please type "{0}" to confirm deletion.`, dirName);
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.ifs.find`, async (node?: IFSItem) => {
+    registerItemCommand(`code-for-ibmi.ifs.find`, async (node?: IFSItem) => {
       const connection = instance.getConnection();
       const config = instance.getConfig();
 
@@ -831,7 +869,7 @@ Please type "{0}" to confirm deletion.`, dirName);
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.downloadStreamfile`, async (node: IFSItem, nodes?: IFSItem[]) => {
+    registerItemCommand(`code-for-ibmi.downloadStreamfile`, async (node: IFSItem, nodes?: IFSItem[]) => {
       const ibmi = instance.getConnection();
       if (ibmi) {
         const items = (nodes || [node]).filter(reduceIFSPath);
@@ -901,7 +939,7 @@ Do you want to replace it?`, target))) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.ifs.copyPath`, async (node: IFSItem) => {
+    registerItemCommand(`code-for-ibmi.ifs.copyPath`, async (node: IFSItem) => {
       await vscode.env.clipboard.writeText(node.path);
     }),
 
@@ -940,11 +978,12 @@ async function doSearchInStreamfiles(searchTerm: string, searchPath: string) {
     await vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
       title: l10n.t(`Searching`),
-    }, async progress => {
+      cancellable: true
+    }, async (progress, token) => {
       progress.report({
         message: l10n.t(`"{0}" in {1}.`, searchTerm, searchPath)
       });
-      const results = await Search.searchIFS(instance, searchPath, searchTerm);
+      const results = await Search.searchIFS(instance, searchPath, searchTerm, token);
       if (results?.hits.length) {
         openIFSSearchResults(searchPath, results);
       } else {
@@ -953,7 +992,9 @@ async function doSearchInStreamfiles(searchTerm: string, searchPath: string) {
     });
 
   } catch (e) {
-    vscode.window.showErrorMessage(l10n.t(`Error searching streamfiles.`));
+    if (!(e instanceof vscode.CancellationError)) {
+      vscode.window.showErrorMessage(l10n.t(`Error searching streamfiles.`));
+    }
   }
 }
 
@@ -962,11 +1003,12 @@ async function doFindStreamfiles(findTerm: string, findPath: string) {
     await vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
       title: l10n.t(`Finding`),
-    }, async progress => {
+      cancellable: true
+    }, async (progress, token) => {
       progress.report({
         message: l10n.t(`Finding filenames with "{0}" in {1}.`, findTerm, findPath)
       });
-      const results = (await Search.findIFS(instance, findPath, findTerm));
+      const results = (await Search.findIFS(instance, findPath, findTerm, token));
       if (results?.hits.length) {
         openIFSSearchResults(findPath, results);
       } else {
@@ -975,7 +1017,9 @@ async function doFindStreamfiles(findTerm: string, findPath: string) {
     });
 
   } catch (e) {
-    vscode.window.showErrorMessage(l10n.t(`Error finding filenames.`));
+    if (!(e instanceof vscode.CancellationError)) {
+      vscode.window.showErrorMessage(l10n.t(`Error finding filenames.`));
+    }
   }
 }
 
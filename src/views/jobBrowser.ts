@@ -0,0 +1,213 @@
+import vscode, { l10n } from "vscode";
+import { Tools } from "../api/Tools";
+import { instance } from "../instantiate";
+import { BrowserItem, IBMiJob } from "../typings";
+import { JobsUI } from "../webviews/jobs";
+
+type JobFilter = {
+  type: "user" | "subsystem"
+  value?: string
+}
+
+class JobBrowser implements vscode.TreeDataProvider<BrowserItem> {
+  private readonly emitter = new vscode.EventEmitter<BrowserItem | BrowserItem[] | undefined | null | void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+  filter: JobFilter = { type: `user` };
+
+  refresh(target?: BrowserItem) {
+    this.emitter.fire(target);
+  }
+
+  getTreeItem(element: BrowserItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
+    return element?.getChildren?.() || this.getJobs();
+  }
+
+  async getJobs(): Promise<BrowserItem[]> {
+    const connection = instance.getConnection();
+    if (connection) {
+      try {
+        const jobs = await connection.getContent().getActiveJobs(this.filter.type === `user` ?
+          { user: this.filter.value || connection.currentUser } :
+          { subsystem: this.filter.value }
+        );
+        return jobs.map(job => new JobItem(job));
+      } catch (e: any) {
+        console.log(e);
+        vscode.window.showErrorMessage(e.message || String(e));
+        return [new ErrorItem(e)];
+      }
+    }
+    return [];
+  }
+
+  getDescription() {
+    const connection = instance.getConnection();
+    if (connection) {
+      return this.filter.type === `user` ?
+        l10n.t(`User {0}`, (this.filter.value || connection.currentUser).toUpperCase()) :
+        l10n.t(`Subsystem {0}`, this.filter.value || ``);
+    }
+  }
+}
+
+class JobItem extends BrowserItem {
+  constructor(readonly job: IBMiJob) {
+    const held = job.status === `HLD`;
+    const waiting = job.status === `MSGW`;
+    super(job.name, { icon: held ? `debug-pause` : waiting ? `warning` : `server-process`, color: waiting ? `list.warningForeground` : undefined });
+    this.contextValue = `job${held ? `_held` : ``}`;
+    this.description = `${job.number}/${job.user} - ${job.status}`;
+    this.tooltip = new vscode.MarkdownString(Tools.generateTooltipHtmlTable(job.job, {
+      "Type": job.type,
+      "Status": job.status,
+      "Subsystem": job.subsystem,
+      "Current user": job.currentUser,
+      "Function": job.function,
+      "CPU %": job.cpuPercentage,
+      "Threads": job.threads
+    }));
+    this.tooltip.supportHtml = true;
+  }
+}
+
+class ErrorItem extends BrowserItem {
+  constructor(error: Error) {
+    super(l10n.t(`Error loading jobs.`))
+    this.description = error.message;
+  }
+}
+
+export function initializeJobBrowser(context: vscode.ExtensionContext) {
+  const jobBrowser = new JobBrowser();
+  const jobTreeViewer = vscode.window.createTreeView(
+    `jobBrowser`, {
+    treeDataProvider: jobBrowser,
+    canSelectMany: true
+  });
+
+  const refresh = () => {
+    jobTreeViewer.description = jobBrowser.getDescription();
+    jobBrowser.refresh();
+  };
+
+  const getSelection = (item?: JobItem, items?: JobItem[]) =>
+    items || (item ? [item] : jobTreeViewer.selection.filter(selected => selected instanceof JobItem) as JobItem[]);
+
+  const runOnJobs = async (items: JobItem[], action: (job: IBMiJob) => Promise<void>, errorMessage: (job: IBMiJob, error: string) => string) => {
+    for (const item of items) {
+      try {
+        await action(item.job);
+      }
+      catch (e: any) {
+        vscode.window.showErrorMessage(errorMessage(item.job, e.message || String(e)));
+      }
+    }
+    refresh();
+  };
+
+  instance.subscribe(context, "connected", "Reset Job Browser", () => {
+    jobBrowser.filter = { type: `user` };
+    refresh();
+  });
+
+  context.subscriptions.push(
+    jobTreeViewer,
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.refresh`, refresh),
+
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.filter`, async () => {
+      const connection = instance.getConnection();
+      if (connection) {
+        const subsystems = await connection.runSQL(`select SUBSYSTEM_DESCRIPTION_LIBRARY, SUBSYSTEM_DESCRIPTION, TEXT_DESCRIPTION from QSYS2.SUBSYSTEM_INFO where STATUS = 'ACTIVE' order by SUBSYSTEM_DESCRIPTION`)
+          .catch(() => [] as Tools.DB2Row[]);
+
+        const items: (vscode.QuickPickItem & { filter?: JobFilter })[] = [
+          { label: l10n.t(`My jobs`), description: connection.currentUser.toUpperCase(), filter: { type: `user` } },
+          { label: l10n.t(`Jobs of another user...`), filter: { type: `user`, value: `?` } },
+          { label: l10n.t(`Subsystems`), kind: vscode.QuickPickItemKind.Separator },
+          ...subsystems.map(subsystem => ({
+            label: String(subsystem.SUBSYSTEM_DESCRIPTION),
+            description: String(subsystem.SUBSYSTEM_DESCRIPTION_LIBRARY),
+            detail: subsystem.TEXT_DESCRIPTION ? String(subsystem.TEXT_DESCRIPTION) : undefined,
+            filter: { type: `subsystem` as const, value: String(subsystem.SUBSYSTEM_DESCRIPTION) }
+          }))
+        ];
+
+        const selected = (await vscode.window.showQuickPick(items, { title: l10n.t(`Show active jobs of`), matchOnDescription: true }))?.filter;
+        if (selected) {
+          if (selected.value === `?`) {
+            const user = (await vscode.window.showInputBox({ prompt: l10n.t(`User profile`) }))?.trim();
+            if (user) {
+              jobBrowser.filter = { type: `user`, value: user.toUpperCase() };
+              refresh();
+            }
+          }
+          else {
+            jobBrowser.filter = selected;
+            refresh();
+          }
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.end`, async (node?: JobItem, nodes?: JobItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        const controlled = l10n.t(`End (controlled)`);
+        const immediately = l10n.t(`End immediately`);
+        const message = items.length === 1 ? l10n.t(`Are you sure you want to end job {0}?`, items[0].job.job) : l10n.t(`Are you sure you want to end the {0} selected jobs?`, items.length);
+        const choice = await vscode.window.showWarningMessage(message, { modal: true }, controlled, immediately);
+        if (choice) {
+          const option = choice === immediately ? `*IMMED` : `*CNTRLD`;
+          await runOnJobs(items, job => content.endJob(job.job, option), (job, error) => l10n.t(`Error ending job {0}: {1}`, job.job, error));
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.hold`, async (node?: JobItem, nodes?: JobItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        await runOnJobs(items, job => content.holdJob(job.job), (job, error) => l10n.t(`Error holding job {0}: {1}`, job.job, error));
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.release`, async (node?: JobItem, nodes?: JobItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        await runOnJobs(items, job => content.releaseJob(job.job), (job, error) => l10n.t(`Error releasing job {0}: {1}`, job.job, error));
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.jobLog`, async (node: JobItem) => {
+      const content = instance.getContent();
+      if (content && node) {
+        try {
+          const messages = await vscode.window.withProgress({ title: l10n.t(`Loading job log of {0}...`, node.job.job), location: vscode.ProgressLocation.Window }, () => content.getJobLog(node.job.job));
+          JobsUI.showJobLog(l10n.t(`Job log {0}`, node.job.job), messages);
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error loading job log of {0}: {1}`, node.job.job, e.message || String(e)));
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.jobs.callStack`, async (node: JobItem) => {
+      const content = instance.getContent();
+      if (content && node) {
+        try {
+          const entries = await vscode.window.withProgress({ title: l10n.t(`Loading call stack of {0}...`, node.job.job), location: vscode.ProgressLocation.Window }, () => content.getCallStack(node.job.job));
+          JobsUI.showCallStack(l10n.t(`Call stack {0}`, node.job.job), entries);
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error loading call stack of {0}: {1}`, node.job.job, e.message || String(e)));
+        }
+      }
+    })
+  );
+}
@@ -0,0 +1,109 @@
+import path from "path";
+import vscode, { l10n } from "vscode";
+import { Tools } from "../api/Tools";
+import { checkWritable, parseFSOptions } from "../filesystems/qsys/QSysFs";
+import { LocalHistory, Snapshot } from "../filesystems/localHistory";
+import { BrowserItem } from "../typings";
+
+const SCHEMES = [`member`, `streamfile`];
+
+class MemberHistoryView implements vscode.TreeDataProvider<BrowserItem> {
+  private readonly emitter = new vscode.EventEmitter<BrowserItem | BrowserItem[] | undefined | null | void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+  /** The member or streamfile whose snapshots are listed: the last one shown in an editor */
+  source?: vscode.Uri;
+
+  refresh() {
+    this.emitter.fire();
+  }
+
+  getTreeItem(element: BrowserItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(): Promise<BrowserItem[]> {
+    const source = this.source;
+    return source ? (await LocalHistory.getSnapshots(source)).map(snapshot => new SnapshotItem(source, snapshot)) : [];
+  }
+}
+
+class SnapshotItem extends BrowserItem {
+  constructor(readonly source: vscode.Uri, readonly snapshot: Snapshot) {
+    super(snapshot.time.toLocaleString(), { icon: `history` });
+    this.contextValue = `snapshot`;
+    this.description = Tools.formatSize(snapshot.size);
+    this.tooltip = l10n.t(`Content of {0} before it was saved on {1}`, path.basename(source.path), snapshot.time.toLocaleString());
+    this.command = {
+      command: `code-for-ibmi.memberHistory.compare`,
+      title: l10n.t(`Compare with Current`),
+      arguments: [this]
+    };
+  }
+}
+
+export function initializeMemberHistoryView(context: vscode.ExtensionContext) {
+  const memberHistoryView = new MemberHistoryView();
+  const memberHistoryTreeViewer = vscode.window.createTreeView(
+    `memberHistoryView`, {
+    treeDataProvider: memberHistoryView
+  });
+
+  const showSource = (uri?: vscode.Uri) => {
+    if (uri && SCHEMES.includes(uri.scheme)) {
+      memberHistoryView.source = uri;
+    }
+    memberHistoryTreeViewer.description = memberHistoryView.source ? path.basename(memberHistoryView.source.path) : undefined;
+    memberHistoryTreeViewer.message = memberHistoryView.source ? undefined : l10n.t(`Open a member or a streamfile to see the versions kept when it was saved.`);
+    memberHistoryView.refresh();
+  };
+  showSource(vscode.window.activeTextEditor?.document.uri);
+
+  context.subscriptions.push(
+    memberHistoryTreeViewer,
+    vscode.window.onDidChangeActiveTextEditor(editor => showSource(editor?.document.uri)),
+    LocalHistory.onDidChange(uri => memberHistoryView.source && isSameFile(uri, memberHistoryView.source) ? memberHistoryView.refresh() : undefined),
+    vscode.commands.registerCommand(`code-for-ibmi.memberHistory.refresh`, () => memberHistoryView.refresh()),
+
+    vscode.commands.registerCommand(`code-for-ibmi.memberHistory.compare`, (node: SnapshotItem) => {
+      const name = path.basename(node.source.path);
+      return vscode.commands.executeCommand(`vscode.diff`, node.snapshot.uri, node.source, l10n.t(`{0} ({1}) ↔ Current`, name, node.snapshot.time.toLocaleString()));
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.memberHistory.restore`, async (node: SnapshotItem) => {
+      const name = path.basename(node.source.path);
+      const restore = l10n.t(`Restore`);
+      if (await vscode.window.showWarningMessage(l10n.t(`Restore {0} to its version of {1}?`, name, node.snapshot.time.toLocaleString()), {
+        modal: true,
+        detail: l10n.t(`The current version is kept as a new snapshot.`)
+      }, restore) !== restore) {
+        return;
+      }
+
+      try {
+        checkWritable(node.source);
+        const content = await vscode.workspace.fs.readFile(node.snapshot.uri);
+        const document = vscode.workspace.textDocuments.find(document => isSameFile(document.uri, node.source) && !parseFSOptions(document.uri).readonly);
+        if (document) {
+          // Saved through the editor, so it shows the restored content
+          const edit = new vscode.WorkspaceEdit();
+          edit.replace(document.uri, document.validateRange(new vscode.Range(0, 0, document.lineCount, 0)), new TextDecoder().decode(content));
+          if (!await vscode.workspace.applyEdit(edit) || !await document.save()) {
+            throw new Error(l10n.t(`The editor could not be saved.`));
+          }
+        }
+        else {
+          await vscode.workspace.fs.writeFile(node.source, content);
+        }
+        vscode.window.showInformationMessage(l10n.t(`{0} was restored to its version of {1}.`, name, node.snapshot.time.toLocaleString()));
+      }
+      catch (e: any) {
+        vscode.window.showErrorMessage(l10n.t(`Error restoring {0}: {1}`, name, e.message || String(e)));
+      }
+    })
+  );
+}
+
+function isSameFile(uri: vscode.Uri, other: vscode.Uri) {
+  return uri.scheme === other.scheme && uri.authority === other.authority &&
+    (uri.scheme === `member` ? uri.path.toUpperCase() === other.path.toUpperCase() : uri.path === other.path);
+}
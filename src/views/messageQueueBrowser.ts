@@ -0,0 +1,265 @@
+import vscode, { l10n } from "vscode";
+import { ConnectionConfiguration } from "../api/Configuration";
+import { Tools } from "../api/Tools";
+import { instance } from "../instantiate";
+import { BrowserItem, IBMiQueuedMessage, ObjectItem, QsysPath } from "../typings";
+
+const queueLabel = (queue: QsysPath) => `${queue.library}/${queue.name}`.toUpperCase();
+const toQueue = (path: string): QsysPath => {
+  const [library, name] = path.toUpperCase().split(`/`);
+  return { library, name };
+};
+const getDefaultQueues = (currentUser: string): QsysPath[] => [
+  { library: `QUSRSYS`, name: currentUser.toUpperCase() },
+  { library: `QSYS`, name: `QSYSOPR` }
+];
+
+class MessageQueueBrowser implements vscode.TreeDataProvider<BrowserItem> {
+  private readonly emitter = new vscode.EventEmitter<BrowserItem | BrowserItem[] | undefined | null | void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+  private queues: MessageQueueItem[] = [];
+
+  refresh(target?: BrowserItem) {
+    this.emitter.fire(target);
+  }
+
+  getTreeItem(element: BrowserItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
+    return element?.getChildren?.() || this.getQueues();
+  }
+
+  getParent(item: BrowserItem) {
+    return item.parent;
+  }
+
+  getQueues() {
+    const connection = instance.getConnection();
+    if (connection) {
+      const defaultQueues = getDefaultQueues(connection.currentUser);
+      //Items are kept so they can be revealed once the tree is refreshed
+      const getItem = (queue: QsysPath, removable: boolean) => this.findQueue(queue) || new MessageQueueItem(queue, removable);
+      this.queues = [
+        ...defaultQueues.map(queue => getItem(queue, false)),
+        ...connection.getConfig().messageQueues
+          .filter(path => !defaultQueues.some(queue => queueLabel(queue) === path.toUpperCase()))
+          .map(path => getItem(toQueue(path), true))
+      ];
+      return this.queues;
+    }
+    return [];
+  }
+
+  findQueue(queue: QsysPath) {
+    return this.queues.find(item => queueLabel(item.queue) === queueLabel(queue));
+  }
+}
+
+class MessageQueueItem extends BrowserItem {
+  constructor(readonly queue: QsysPath, removable: boolean) {
+    super(queueLabel(queue), { state: vscode.TreeItemCollapsibleState.Collapsed, icon: `inbox` });
+    this.contextValue = `messageQueue${removable ? `_removable` : ``}`;
+  }
+
+  async getChildren(): Promise<BrowserItem[]> {
+    const content = instance.getContent();
+    if (content) {
+      try {
+        const messages = await content.getMessageQueueMessages(this.queue);
+        const waiting = messages.filter(message => isWaitingForReply(message)).length;
+        this.description = waiting ? l10n.t(`{0} message(s) waiting for a reply`, waiting) : undefined;
+        return messages.map(message => new MessageItem(message, this));
+      } catch (e: any) {
+        console.log(e);
+        vscode.window.showErrorMessage(e.message || String(e));
+        return [new ErrorItem(e)];
+      }
+    }
+    return [];
+  }
+
+  refresh(): void {
+    vscode.commands.executeCommand(`code-for-ibmi.messageQueues.refreshItem`, this);
+  }
+}
+
+class MessageItem extends BrowserItem {
+  constructor(readonly message: IBMiQueuedMessage, parent: MessageQueueItem) {
+    const waiting = isWaitingForReply(message);
+    super(message.text, { icon: waiting ? `question` : message.type === `INQUIRY` ? `check` : message.severity >= 30 ? `warning` : `info`, color: waiting ? `list.warningForeground` : undefined, parent });
+    this.contextValue = `message${waiting ? `_inquiry` : ``}`;
+    this.description = [message.id, message.reply !== undefined ? l10n.t(`Reply: {0}`, message.reply) : ``].filter(Boolean).join(` - `);
+
+    const tooltip = new vscode.MarkdownString(Tools.generateTooltipHtmlTable(message.id || message.type, {
+      "Type": message.type,
+      "Severity": message.severity,
+      "Sent": message.timestamp?.toLocaleString(),
+      "From user": message.fromUser,
+      "From job": message.fromJob,
+      "From program": message.fromProgram,
+      "Reply": message.reply
+    }));
+    tooltip.appendMarkdown(`\n\n---\n\n`).appendText(message.text);
+    if (message.secondLevelText) {
+      tooltip.appendMarkdown(`\n\n`).appendText(message.secondLevelText);
+    }
+    tooltip.supportHtml = true;
+    this.tooltip = tooltip;
+  }
+
+  refresh(): void {
+    this.parent?.refresh?.();
+  }
+}
+
+class ErrorItem extends BrowserItem {
+  constructor(error: Error) {
+    super(l10n.t(`Error loading messages.`))
+    this.description = error.message;
+  }
+}
+
+function isWaitingForReply(message: IBMiQueuedMessage) {
+  return message.type === `INQUIRY` && message.reply === undefined;
+}
+
+export function initializeMessageQueueBrowser(context: vscode.ExtensionContext) {
+  const messageQueueBrowser = new MessageQueueBrowser();
+  const messageQueueTreeViewer = vscode.window.createTreeView(
+    `messageQueueBrowser`, {
+    treeDataProvider: messageQueueBrowser,
+    showCollapseAll: true,
+    canSelectMany: true
+  });
+
+  const getSelection = (item?: MessageItem, items?: MessageItem[]) =>
+    items || (item ? [item] : messageQueueTreeViewer.selection.filter(selected => selected instanceof MessageItem) as MessageItem[]);
+
+  const addQueue = async (queue: QsysPath) => {
+    const connection = instance.getConnection();
+    if (connection) {
+      const config = connection.getConfig();
+      const path = queueLabel(queue);
+      if (![...getDefaultQueues(connection.currentUser).map(queueLabel), ...config.messageQueues.map(existing => existing.toUpperCase())].includes(path)) {
+        config.messageQueues.push(path);
+        await ConnectionConfiguration.update(config);
+      }
+      messageQueueBrowser.refresh();
+    }
+  };
+
+  context.subscriptions.push(
+    messageQueueTreeViewer,
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.refresh`, () => messageQueueBrowser.refresh()),
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.refreshItem`, (item?: BrowserItem) => messageQueueBrowser.refresh(item)),
+
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.add`, async () => {
+      const path = (await vscode.window.showInputBox({
+        prompt: l10n.t(`Message queue (LIBRARY/MSGQ)`),
+        validateInput: value => /^[^/\s]+\/[^/\s]+$/.test(value.trim()) ? undefined : l10n.t(`Invalid name`)
+      }))?.trim();
+
+      if (path) {
+        await addQueue(toQueue(path));
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.open`, async (node: ObjectItem) => {
+      if (node?.object) {
+        const queue = { library: node.object.library, name: node.object.name };
+        await addQueue(queue);
+        await vscode.commands.executeCommand(`messageQueueBrowser.focus`);
+        messageQueueBrowser.getQueues();
+        const item = messageQueueBrowser.findQueue(queue);
+        if (item) {
+          await messageQueueTreeViewer.reveal(item, { select: true, focus: true, expand: true });
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.remove`, async (node: MessageQueueItem) => {
+      const config = instance.getConfig();
+      if (config && node) {
+        const index = config.messageQueues.findIndex(path => path.toUpperCase() === queueLabel(node.queue));
+        if (index >= 0) {
+          config.messageQueues.splice(index, 1);
+          await ConnectionConfiguration.update(config);
+          messageQueueBrowser.refresh();
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.reply`, async (node: MessageItem) => {
+      const content = instance.getContent();
+      if (content && node?.parent instanceof MessageQueueItem) {
+        const reply = await vscode.window.showInputBox({
+          title: node.message.text,
+          prompt: l10n.t(`Reply to {0} (leave empty to send the default reply)`, node.message.id || node.message.type),
+          validateInput: value => value.length > 132 ? l10n.t(`The reply cannot be longer than {0} characters`, 132) : undefined
+        });
+
+        if (reply !== undefined) {
+          try {
+            await content.replyToMessage(node.parent.queue, node.message.key, reply);
+          }
+          catch (e: any) {
+            vscode.window.showErrorMessage(l10n.t(`Error replying to message {0}: {1}`, node.message.id, e.message || String(e)));
+          }
+          node.refresh();
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.removeMessage`, async (node?: MessageItem, nodes?: MessageItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        const message = items.length === 1 ? l10n.t(`Are you sure you want to remove message {0}?`, items[0].message.id || items[0].message.text) : l10n.t(`Are you sure you want to remove the {0} selected messages?`, items.length);
+        if (await vscode.window.showWarningMessage(message, { modal: true }, l10n.t(`Yes`))) {
+          for (const item of items) {
+            if (item.parent instanceof MessageQueueItem) {
+              try {
+                await content.removeMessage(item.parent.queue, item.message.key);
+              }
+              catch (e: any) {
+                vscode.window.showErrorMessage(l10n.t(`Error removing message {0}: {1}`, item.message.id || item.message.text, e.message || String(e)));
+              }
+            }
+          }
+          items.map(item => item.parent)
+            .filter(Tools.distinct)
+            .forEach(parent => parent?.refresh?.());
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.messageQueues.sendMessage`, async () => {
+      const content = instance.getContent();
+      if (content) {
+        const user = (await vscode.window.showInputBox({
+          prompt: l10n.t(`User profile`),
+          validateInput: value => /^[^/\s]+$/.test(value.trim()) ? undefined : l10n.t(`Invalid name`)
+        }))?.trim();
+
+        if (user) {
+          const text = await vscode.window.showInputBox({
+            prompt: l10n.t(`Message to {0}`, user.toUpperCase()),
+            validateInput: value => value.trim() ? undefined : l10n.t(`The message cannot be empty`)
+          });
+
+          if (text) {
+            try {
+              await content.sendMessage(text, user);
+              vscode.window.showInformationMessage(l10n.t(`Message sent to {0}`, user.toUpperCase()));
+            }
+            catch (e: any) {
+              vscode.window.showErrorMessage(l10n.t(`Error sending message to {0}: {1}`, user.toUpperCase(), e.message || String(e)));
+            }
+          }
+        }
+      }
+    })
+  );
+}
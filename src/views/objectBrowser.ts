@@ -2,6 +2,7 @@ import fs, { existsSync } from "fs";
 import os from "os";
 import path, { basename, dirname } from "path";
 import vscode from "vscode";
+import { CommandHistory } from "../api/CommandHistory";
 import { ConnectionConfiguration, DefaultOpenMode, GlobalConfiguration } from "../api/Configuration";
 import { parseFilter, singleGenericName } from "../api/Filter";
 import { MemberParts } from "../api/IBMi";
@@ -9,16 +10,21 @@ import { SortOptions, SortOrder } from "../api/IBMiContent";
 import { Search } from "../api/Search";
 import { GlobalStorage } from '../api/Storage';
 import { Tools } from "../api/Tools";
-import { getMemberUri } from "../filesystems/qsys/QSysFs";
-import { instance } from "../instantiate";
+import { openAsWorkspaceFolder } from "../filesystems/qsys/FSUtils";
+import { getMemberUri, getUriFromPath } from "../filesystems/qsys/QSysFs";
+import { instance, registerItemCommand } from "../instantiate";
 import { BrowserItem, BrowserItemParameters, CommandResult, FilteredItem, FocusOptions, IBMiMember, IBMiObject, MemberItem, OBJECT_BROWSER_MIMETYPE, ObjectItem, WithLibrary } from "../typings";
 import { editFilter } from "../webviews/filters";
+import { SaveFileUI } from "../webviews/saveFiles";
 
 const URI_LIST_SEPARATOR = "\r\n";
 
 const objectNamesLower = () => GlobalConfiguration.get<boolean>(`ObjectBrowser.showNamesInLowercase`);
 const objectSortOrder = () => GlobalConfiguration.get<SortOrder>(`ObjectBrowser.sortObjectsByName`) ? `name` : `type`;
 
+/** Set while objects are listed: the loading can then be cancelled */
+const LOADING_CONTEXT = `code-for-ibmi:objectBrowserLoading`;
+
 const correctCase = (value: string) => {
   ;
   if (objectNamesLower()) {
@@ -70,7 +76,7 @@ class ObjectBrowser implements vscode.TreeDataProvider<BrowserItem> {
   readonly onDidChangeTreeData = this.emitter.event;
 
   async moveFilterInList(node: ObjectBrowserItem, filterMovement: `TOP` | `UP` | `DOWN` | `BOTTOM`) {
-    const config = getConfig();
+    const config = getConfig(node);
     if (config) {
       const filterName = node.filter.name;
       const objectFilters = config.objectFilters;
@@ -127,16 +133,16 @@ class ObjectBrowser implements vscode.TreeDataProvider<BrowserItem> {
   }
 
   getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
-    return element?.getChildren?.() || this.getFilters();
-  }
+    if (element) {
+      return CommandHistory.withCaller(`Object Browser`, () => element.getChildren?.());
+    }
 
-  getFilters(): BrowserItem[] {
-    const config = getConfig();
-    const filters = config.objectFilters;
-    if (filters.length) {
-      return filters.map(filter => new ObjectBrowserFilterItem(filter));
-    } else {
-      return [new CreateFilterItem()];
+    const connections = instance.getConnections();
+    if (connections.length > 1) {
+      return connections.map(connection => new ObjectBrowserConnectionItem(connection.currentConnectionName));
+    }
+    else {
+      return getFilters(connections[0]?.currentConnectionName);
     }
   }
 
@@ -153,9 +159,23 @@ class ObjectBrowser implements vscode.TreeDataProvider<BrowserItem> {
   }
 }
 
+/**
+ * Groups the filters of a connection when several connections are active
+ */
+class ObjectBrowserConnectionItem extends BrowserItem {
+  constructor(connectionName: string) {
+    super(connectionName, { icon: `remote`, state: vscode.TreeItemCollapsibleState.Expanded, connection: connectionName });
+    this.contextValue = `connection`;
+  }
+
+  getChildren() {
+    return getFilters(this.connectionName, this);
+  }
+}
+
 class CreateFilterItem extends BrowserItem {
-  constructor() {
-    super(`${vscode.l10n.t(`Create new filter`)}...`, { icon: "add" });
+  constructor(params?: BrowserItemParameters) {
+    super(`${vscode.l10n.t(`Create new filter`)}...`, { ...params, icon: "add" });
     this.command = {
       command: `code-for-ibmi.maintainFilter`,
       title: `Create new filter`
@@ -169,8 +189,8 @@ class CreateFilterItem extends BrowserItem {
 
 class ObjectBrowserFilterItem extends ObjectBrowserItem implements WithLibrary {
   readonly library: string;
-  constructor(filter: ConnectionConfiguration.ObjectFilters) {
-    super(filter, filter.name, { icon: filter.protected ? `lock-small` : '', state: vscode.TreeItemCollapsibleState.Collapsed });
+  constructor(filter: ConnectionConfiguration.ObjectFilters, params?: BrowserItemParameters) {
+    super(filter, filter.name, { ...params, icon: filter.protected ? `lock-small` : '', state: vscode.TreeItemCollapsibleState.Collapsed });
     this.library = parseFilter(filter.library, filter.filterType).noFilter ? filter.library : '';
     this.contextValue = `filter${this.library ? "_library" : ''}${this.isProtected() ? `_readonly` : ``}`;
     this.description = `${filter.library}/${filter.object}/${filter.member}.${filter.memberType || `*`} (${filter.types.join(`, `)})`;
@@ -181,13 +201,13 @@ class ObjectBrowserFilterItem extends ObjectBrowserItem implements WithLibrary {
     return this.filter.protected;
   }
 
-  async getChildren(): Promise<ObjectBrowserItem[]> {
+  async getChildren(): Promise<BrowserItem[]> {
     const libraryFilter = parseFilter(this.filter.library);
     if (libraryFilter.noFilter) {
       return await listObjects(this);
     }
     else {
-      return (await getContent().getLibraries(this.filter))
+      return (await getContent(this).getLibraries(this.filter))
         .map(object => {
           return object.sourceFile ? new ObjectBrowserSourcePhysicalFileItem(this, object) : new ObjectBrowserObjectItem(this, object);
         });
@@ -199,7 +219,7 @@ class ObjectBrowserFilterItem extends ObjectBrowserItem implements WithLibrary {
   }
 
   async delete() {
-    const config = getConfig();
+    const config = getConfig(this);
     const filter = this.filter;
     const index = config.objectFilters.findIndex(f => f.name === filter.name);
 
@@ -228,12 +248,13 @@ class ObjectBrowserSourcePhysicalFileItem extends ObjectBrowserItem implements O
 
     this.resourceUri = vscode.Uri.from({
       scheme: `object`,
+      authority: this.connectionName,
       path: `/${object.library}/${object.name}.${type}`,
     });
   }
 
   isProtected(): boolean {
-    return this.filter.protected || getContent().isProtectedPath(this.object.library);
+    return this.filter.protected || getContent(this).isProtectedPath(this.object.library);
   }
 
   sortBy(sort: SortOptions) {
@@ -257,8 +278,8 @@ class ObjectBrowserSourcePhysicalFileItem extends ObjectBrowserItem implements O
   }
 
   async getChildren(): Promise<BrowserItem[] | undefined> {
-    const connection = getConnection();
-    const content = getContent();
+    const connection = getConnection(this);
+    const content = getContent(this);
 
     const writable = await content.checkObject({
       library: this.object.library,
@@ -302,11 +323,11 @@ class ObjectBrowserSourcePhysicalFileItem extends ObjectBrowserItem implements O
   }
 
   async delete() {
-    return deleteObject(this.object);
+    return deleteObject(this.object, this);
   }
 
   async getToolTip() {
-    return await getContent().sourcePhysicalFileToToolTip(this.path, this.object);
+    return await getContent(this).sourcePhysicalFileToToolTip(this.path, this.object);
   }
 }
 
@@ -325,15 +346,30 @@ class ObjectBrowserObjectItem extends ObjectBrowserItem implements ObjectItem, W
     this.updateDescription();
 
     this.contextValue = `object.${type.toLowerCase()}${object.attribute ? `.${object.attribute}` : ``}${isLibrary ? '_library' : ''}${this.isProtected() ? `_readonly` : ``}`;
-    this.tooltip = getContent().objectToToolTip(this.path, object);
+    this.tooltip = getContent(this).objectToToolTip(this.path, object);
 
     this.resourceUri = vscode.Uri.from({
       scheme: `object`,
+      authority: this.connectionName,
       path: `/${object.library}/${object.name}.${type}`,
       fragment: object.attribute
     });
 
-    if (!isLibrary) {
+    if (type.toUpperCase() === `MSGQ`) {
+      this.command = {
+        command: `code-for-ibmi.messageQueues.open`,
+        title: `Open`,
+        arguments: [this]
+      };
+    }
+    else if (type.toUpperCase() === `FILE` && [`PF`, `LF`].includes(object.attribute?.toUpperCase() || ``)) {
+      this.command = {
+        command: `code-for-ibmi.openDatabaseFile`,
+        title: `Open`,
+        arguments: [this.resourceUri, this.isProtected()]
+      };
+    }
+    else if (!isLibrary) {
       this.command = {
         command: `vscode.open`,
         title: `Open`,
@@ -343,7 +379,7 @@ class ObjectBrowserObjectItem extends ObjectBrowserItem implements ObjectItem, W
   }
 
   isProtected(): boolean {
-    return this.filter.protected || getContent().isProtectedPath(this.object.library);
+    return this.filter.protected || getContent(this).isProtectedPath(this.object.library);
   }
 
   updateDescription() {
@@ -361,7 +397,7 @@ class ObjectBrowserObjectItem extends ObjectBrowserItem implements ObjectItem, W
   }
 
   async delete() {
-    return deleteObject(this.object);
+    return deleteObject(this.object, this);
   }
 }
 
@@ -375,16 +411,16 @@ class ObjectBrowserMemberItem extends ObjectBrowserItem implements MemberItem {
     this.contextValue = `member${readonly ? `_readonly` : ``}`;
     this.description = member.text;
 
-    this.resourceUri = getMemberUri(member, { readonly });
+    this.resourceUri = getMemberUri(member, { readonly }, this.connectionName);
     this.path = this.resourceUri.path.substring(1);
-    this.tooltip = getContent().memberToToolTip(this.path, member);
+    this.tooltip = getContent(this).memberToToolTip(this.path, member);
 
     this.sortBy = (sort: SortOptions) => parent.sortBy(sort);
 
     this.command = {
       command: "code-for-ibmi.openWithDefaultMode",
       title: `Open Member`,
-      arguments: [{ path: this.path }, (readonly ? "browse" : undefined) as DefaultOpenMode]
+      arguments: [this, (readonly ? "browse" : undefined) as DefaultOpenMode]
     };
 
     this.readonly = readonly;
@@ -399,7 +435,7 @@ class ObjectBrowserMemberItem extends ObjectBrowserItem implements MemberItem {
   }
 
   async delete() {
-    const connection = getConnection();
+    const connection = getConnection(this);
     const { library, file, name } = connection.parserMemberPath(this.path);
 
     const removeResult = await connection.runCommand({
@@ -439,11 +475,11 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     objectTreeViewer,
 
-    vscode.commands.registerCommand(`code-for-ibmi.sortMembersByName`, (item: ObjectBrowserSourcePhysicalFileItem | ObjectBrowserMemberItem) => {
+    registerItemCommand(`code-for-ibmi.sortMembersByName`, (item: ObjectBrowserSourcePhysicalFileItem | ObjectBrowserMemberItem) => {
       item.sortBy({ order: "name" });
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.sortMembersByDate`, (item: ObjectBrowserSourcePhysicalFileItem | ObjectBrowserMemberItem) => {
+    registerItemCommand(`code-for-ibmi.sortMembersByDate`, (item: ObjectBrowserSourcePhysicalFileItem | ObjectBrowserMemberItem) => {
       item.sortBy({ order: "date" });
     }),
 
@@ -509,20 +545,20 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.copyFilter`, async (node: FilteredItem) => {
+    registerItemCommand(`code-for-ibmi.copyFilter`, async (node: FilteredItem) => {
       await editFilter(node.filter, true);
       objectBrowser.refresh();
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.maintainFilter`, async (node?: FilteredItem) => {
+    registerItemCommand(`code-for-ibmi.maintainFilter`, async (node?: FilteredItem) => {
       await editFilter(node?.filter);
       objectBrowser.refresh();
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.moveFilterUp`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `UP`)),
-    vscode.commands.registerCommand(`code-for-ibmi.moveFilterDown`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `DOWN`)),
-    vscode.commands.registerCommand(`code-for-ibmi.moveFilterToTop`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `TOP`)),
-    vscode.commands.registerCommand(`code-for-ibmi.moveFilterToBottom`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `BOTTOM`)),
+    registerItemCommand(`code-for-ibmi.moveFilterUp`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `UP`)),
+    registerItemCommand(`code-for-ibmi.moveFilterDown`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `DOWN`)),
+    registerItemCommand(`code-for-ibmi.moveFilterToTop`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `TOP`)),
+    registerItemCommand(`code-for-ibmi.moveFilterToBottom`, (node: ObjectBrowserFilterItem) => objectBrowser.moveFilterInList(node, `BOTTOM`)),
 
     vscode.commands.registerCommand(`code-for-ibmi.sortFilters`, async () => {
       const config = getConfig();
@@ -532,6 +568,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand(`code-for-ibmi.refreshObjectBrowser`, () => objectBrowser.refresh()),
+    vscode.commands.registerCommand(`code-for-ibmi.cancelObjectBrowserLoading`, () => Tools.cancelContext(LOADING_CONTEXT)),
 
     vscode.commands.registerCommand(`code-for-ibmi.refreshObjectBrowserItem`, async (item: BrowserItem) => {
       objectBrowser.refresh(item);
@@ -541,7 +578,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
       objectTreeViewer.reveal(item, options);
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.createMember`, async (node: ObjectBrowserSourcePhysicalFileItem, fullName?: string) => {
+    registerItemCommand(`code-for-ibmi.createMember`, async (node: ObjectBrowserSourcePhysicalFileItem, fullName?: string) => {
       const connection = getConnection();
       const toPath = (value: string) => connection.upperCaseName(`${node.path}/${value}`);
       fullName = await vscode.window.showInputBox({
@@ -585,7 +622,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.copyMember`, async (node: ObjectBrowserMemberItem, fullPath?: string) => {
+    registerItemCommand(`code-for-ibmi.copyMember`, async (node: ObjectBrowserMemberItem, fullPath?: string) => {
       const connection = getConnection();
       const oldMember = node.member;
       fullPath = await vscode.window.showInputBox({
@@ -670,7 +707,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
         }
       }
     }),
-    vscode.commands.registerCommand(`code-for-ibmi.updateMemberText`, async (node: ObjectBrowserMemberItem) => {
+    registerItemCommand(`code-for-ibmi.updateMemberText`, async (node: ObjectBrowserMemberItem) => {
       const connection = getConnection();
       const { library, file, name, basename } = connection.parserMemberPath(node.path);
       const oldText = node.member.text;
@@ -697,7 +734,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
 
       }
     }),
-    vscode.commands.registerCommand(`code-for-ibmi.renameMember`, async (node: ObjectBrowserMemberItem) => {
+    registerItemCommand(`code-for-ibmi.renameMember`, async (node: ObjectBrowserMemberItem) => {
       const connection = getConnection();
       const oldMember = connection.parserMemberPath(node.path);
       const oldUri = node.resourceUri as vscode.Uri;
@@ -790,7 +827,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.uploadAndReplaceMemberAsFile`, async (node: MemberItem) => {
+    registerItemCommand(`code-for-ibmi.uploadAndReplaceMemberAsFile`, async (node: MemberItem) => {
       const contentApi = getContent();
 
       const originPath = await vscode.window.showOpenDialog({ defaultUri: vscode.Uri.file(os.homedir()) });
@@ -810,7 +847,7 @@ export function initializeObjectBrowser(context: vscode.ExtensionContext) {
 
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.downloadMemberAsFile`, async (node: ObjectItem | MemberItem, nodes?: (ObjectItem | MemberItem)[]) => {
+    registerItemCommand(`code-for-ibmi.downloadMemberAsFile`, async (node: ObjectItem | MemberItem, nodes?: (ObjectItem | MemberItem)[]) => {
       const contentApi = getContent();
       const connection = getConnection();
       const config = getConfig();
@@ -916,7 +953,7 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.searchSourceFile`, async (node?: ObjectItem) => {
+    registerItemCommand(`code-for-ibmi.searchSourceFile`, async (node?: ObjectItem) => {
       const parameters = {
         path: node?.path || ``,
         filter: node?.filter
@@ -1012,6 +1049,13 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       }
     }),
 
+    registerItemCommand(`code-for-ibmi.openObjectAsWorkspaceFolder`, (node: ObjectBrowserObjectItem | ObjectBrowserSourcePhysicalFileItem) => {
+      // A library lists its source files, a source file lists its members
+      const path = node instanceof ObjectBrowserObjectItem ? node.library : node.path;
+      const readonly = node.isProtected();
+      openAsWorkspaceFolder(getUriFromPath(path, readonly ? { readonly } : undefined, node.connectionName), path);
+    }),
+
     vscode.commands.registerCommand(`code-for-ibmi.createLibrary`, async () => {
       const config = getConfig();
       const connection = getConnection();
@@ -1064,7 +1108,7 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.createSourceFile`, async (node: ObjectBrowserFilterItem | ObjectBrowserObjectItem) => {
+    registerItemCommand(`code-for-ibmi.createSourceFile`, async (node: ObjectBrowserFilterItem | ObjectBrowserObjectItem) => {
       if (node.library) {
         const connection = getConnection();
         const fileName = await vscode.window.showInputBox({
@@ -1091,7 +1135,7 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       }
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.changeObjectDesc`, async (node: ObjectBrowserObjectItem | ObjectBrowserSourcePhysicalFileItem) => {
+    registerItemCommand(`code-for-ibmi.changeObjectDesc`, async (node: ObjectBrowserObjectItem | ObjectBrowserSourcePhysicalFileItem) => {
       let newText = node.object.text;
       let newTextOK;
       do {
@@ -1126,7 +1170,7 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       } while (newText && !newTextOK)
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.copyObject`, async (node: ObjectBrowserObjectItem | ObjectBrowserSourcePhysicalFileItem) => {
+    registerItemCommand(`code-for-ibmi.copyObject`, async (node: ObjectBrowserObjectItem | ObjectBrowserSourcePhysicalFileItem) => {
       let newPath = node.path;
       let newPathOK;
       do {
@@ -1171,7 +1215,7 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       } while (newPath && !newPathOK)
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.renameObject`, async (node: ObjectBrowserObjectItem) => {
+    registerItemCommand(`code-for-ibmi.renameObject`, async (node: ObjectBrowserObjectItem) => {
       let [, newObject] = node.path.split(`/`);
       let newObjectOK;
       do {
@@ -1207,7 +1251,7 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
       } while (newObject && !newObjectOK)
     }),
 
-    vscode.commands.registerCommand(`code-for-ibmi.moveObject`, async (node: ObjectBrowserObjectItem) => {
+    registerItemCommand(`code-for-ibmi.moveObject`, async (node: ObjectBrowserObjectItem) => {
       let [newLibrary,] = node.path.split(`/`);
       let newLibraryOK;
       do {
@@ -1244,7 +1288,126 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
         }
       } while (newLibrary && !newLibraryOK)
     }),
-    vscode.commands.registerCommand("code-for-ibmi.objectBrowser.delete", async (node?: ObjectBrowserItem, nodes?: ObjectBrowserItem[]) => {
+
+    registerItemCommand(`code-for-ibmi.saveToSaveFile`, async (node?: ObjectBrowserItem, nodes?: ObjectBrowserItem[]) => {
+      const items = (nodes || (node ? [node] : objectTreeViewer.selection)).filter(item => "object" in item) as (ObjectBrowserObjectItem | ObjectBrowserSourcePhysicalFileItem)[];
+      if (items.length) {
+        const objects = items.map(item => item.object);
+        const library = objects.find(object => object.type.toUpperCase() === `*LIB`);
+        if (library && objects.length > 1) {
+          vscode.window.showErrorMessage(vscode.l10n.t(`A library must be saved on its own.`));
+        }
+        else if (objects.some(object => object.library !== objects[0].library)) {
+          vscode.window.showErrorMessage(vscode.l10n.t(`The objects to save must all be in the same library.`));
+        }
+        else {
+          const description = library ? library.name : objects.length === 1 ? `${objects[0].library}/${objects[0].name}` : vscode.l10n.t(`{0} objects from {1}`, objects.length, objects[0].library);
+          const options = await SaveFileUI.askSaveOptions(vscode.l10n.t(`Save {0}`, description), { library: `QGPL`, name: library?.name || objects[0].name });
+          if (options) {
+            const content = getContent();
+            const saveFile = `${options.saveFile.library}/${options.saveFile.name}`;
+            const saved = await vscode.window.withProgress({ title: vscode.l10n.t(`Saving {0} into {1}...`, description, saveFile), location: vscode.ProgressLocation.Notification }, async () => {
+              try {
+                await content.saveToSaveFile(options.saveFile,
+                  library ? { library: library.name } : { library: objects[0].library, objects: objects.map(object => object.name), types: objects.map(object => object.type) },
+                  { targetRelease: options.targetRelease }
+                );
+                return true;
+              }
+              catch (e: any) {
+                vscode.window.showErrorMessage(vscode.l10n.t(`Error saving {0} into {1}: {2}`, description, saveFile, e.message || String(e)));
+                return false;
+              }
+            });
+
+            if (saved) {
+              objectBrowser.autoRefresh();
+              if (await vscode.window.showInformationMessage(vscode.l10n.t(`Saved {0} into {1}.`, description, saveFile), vscode.l10n.t(`Download`))) {
+                vscode.commands.executeCommand(`code-for-ibmi.downloadSaveFile`, { object: { ...options.saveFile, type: `*FILE`, attribute: `SAVF`, text: `` } });
+              }
+            }
+          }
+        }
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.downloadSaveFile`, async (node: ObjectItem) => {
+      const connection = getConnection();
+      const saveFile = node.object;
+      const downloadLocationURI = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(connection.getLastDownloadLocation(), `${saveFile.name.toLowerCase()}.savf`)),
+        filters: { [vscode.l10n.t(`Save file`)]: [`savf`] }
+      });
+
+      if (downloadLocationURI) {
+        await connection.setLastDownloadLocation(dirname(downloadLocationURI.path));
+        await vscode.window.withProgress({ title: vscode.l10n.t(`Downloading {0}/{1}...`, saveFile.library, saveFile.name), location: vscode.ProgressLocation.Notification }, async () => {
+          try {
+            await connection.getContent().downloadSaveFile(saveFile, downloadLocationURI);
+            vscode.window.showInformationMessage(vscode.l10n.t(`Download complete`), vscode.l10n.t(`Open`))
+              .then(open => open ? vscode.commands.executeCommand(`revealFileInOS`, downloadLocationURI) : undefined);
+          }
+          catch (e: any) {
+            vscode.window.showErrorMessage(vscode.l10n.t(`Error downloading {0}/{1}: {2}`, saveFile.library, saveFile.name, e.message || String(e)));
+          }
+        });
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.uploadSaveFile`, async (node: ObjectBrowserFilterItem | ObjectBrowserObjectItem) => {
+      if (node.library) {
+        const connection = getConnection();
+        const [localFile] = await vscode.window.showOpenDialog({
+          defaultUri: vscode.Uri.file(connection.getLastDownloadLocation()),
+          canSelectMany: false,
+          filters: { [vscode.l10n.t(`Save file`)]: [`savf`], [vscode.l10n.t(`All files`)]: [`*`] }
+        }) || [];
+
+        if (localFile) {
+          const name = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t(`Name of the save file to create in {0}`, node.library),
+            value: connection.upperCaseName(path.parse(localFile.path).name.substring(0, 10)),
+            validateInput: name => !connection.validQsysName(name) ? vscode.l10n.t(`Save file name is not valid.`) : undefined
+          });
+
+          if (name) {
+            const saveFile = { library: node.library, name: connection.upperCaseName(name) };
+            await vscode.window.withProgress({ title: vscode.l10n.t(`Uploading {0} to {1}/{2}...`, basename(localFile.path), saveFile.library, saveFile.name), location: vscode.ProgressLocation.Notification }, async () => {
+              try {
+                await connection.getContent().uploadSaveFile(localFile, saveFile);
+                objectBrowser.refresh(node);
+                vscode.window.showInformationMessage(vscode.l10n.t(`Uploaded {0} to {1}/{2}.`, basename(localFile.path), saveFile.library, saveFile.name));
+              }
+              catch (e: any) {
+                vscode.window.showErrorMessage(vscode.l10n.t(`Error uploading {0} to {1}/{2}: {3}`, basename(localFile.path), saveFile.library, saveFile.name, e.message || String(e)));
+              }
+            });
+          }
+        }
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.restoreFromSaveFile`, async (node: ObjectBrowserObjectItem) => {
+      const content = getContent();
+      const saveFile = node.object;
+      const objects = await content.getSaveFileObjects(saveFile).catch(() => [] as IBMiObject[]);
+      const options = await SaveFileUI.askRestoreOptions(saveFile, objects);
+      if (options) {
+        await vscode.window.withProgress({ title: vscode.l10n.t(`Restoring from {0}/{1}...`, saveFile.library, saveFile.name), location: vscode.ProgressLocation.Notification }, async () => {
+          try {
+            await content.restoreFromSaveFile(saveFile, options);
+            if (!objectBrowser.autoRefresh(vscode.l10n.t(`Restored objects from {0}/{1} into {2}.`, saveFile.library, saveFile.name, options.restoreLibrary))) {
+              vscode.window.showInformationMessage(vscode.l10n.t(`Restored objects from {0}/{1} into {2}.`, saveFile.library, saveFile.name, options.restoreLibrary));
+            }
+          }
+          catch (e: any) {
+            vscode.window.showErrorMessage(vscode.l10n.t(`Error restoring from {0}/{1}: {2}`, saveFile.library, saveFile.name, e.message || String(e)));
+          }
+        });
+      }
+    }),
+
+    registerItemCommand("code-for-ibmi.objectBrowser.delete", async (node?: ObjectBrowserItem, nodes?: ObjectBrowserItem[]) => {
       const candidates: ObjectBrowserItem[] = [];
       if (nodes) {
         candidates.push(...nodes);
@@ -1308,8 +1471,21 @@ Do you want to replace it?`, item.name), skipAllLabel, overwriteLabel, overwrite
   );
 }
 
-function getConfig() {
-  const config = instance.getConfig();
+function getFilters(connectionName?: string, parent?: BrowserItem): BrowserItem[] {
+  const params = { connection: connectionName, parent };
+  const filters = getConfig(parent).objectFilters;
+  if (filters.length) {
+    return filters.map(filter => new ObjectBrowserFilterItem(filter, params));
+  } else {
+    return [new CreateFilterItem(params)];
+  }
+}
+
+/**
+ * The helpers below use the connection of the item when it is provided, the active connection otherwise
+ */
+function getConfig(item?: BrowserItem) {
+  const config = instance.getConfig(item?.connectionName);
   if (config) {
     return config;
   }
@@ -1318,8 +1494,8 @@ function getConfig() {
   }
 }
 
-function getConnection() {
-  const connection = instance.getConnection();
+function getConnection(item?: BrowserItem) {
+  const connection = instance.getConnection(item?.connectionName);
   if (connection) {
     return connection;
   }
@@ -1328,8 +1504,8 @@ function getConnection() {
   }
 }
 
-function getContent() {
-  const content = instance.getContent();
+function getContent(item?: BrowserItem) {
+  const content = instance.getContent(item?.connectionName);
   if (content) {
     return content;
   }
@@ -1354,7 +1530,8 @@ async function doSearchInSourceFile(searchTerm: string, path: string, filter?: C
     await vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
       title: vscode.l10n.t(`Searching`),
-    }, async progress => {
+      cancellable: true
+    }, async (progress, token) => {
       progress.report({
         message: vscode.l10n.t(`Fetching member list for {0}.`, path)
       });
@@ -1391,8 +1568,8 @@ async function doSearchInSourceFile(searchTerm: string, path: string, filter?: C
         memberFilter = filter?.member;
       }
 
-      const results = await Search.searchMembers(instance, library, sourceFile, searchTerm, memberFilter, filter?.protected);
-      clearInterval(messageTimeout)
+      const results = await Search.searchMembers(instance, library, sourceFile, searchTerm, memberFilter, filter?.protected, token)
+        .finally(() => clearInterval(messageTimeout));
       if (results.hits.length) {
         const objectNamesLower = GlobalConfiguration.get(`ObjectBrowser.showNamesInLowercase`);
 
@@ -1415,19 +1592,29 @@ async function doSearchInSourceFile(searchTerm: string, path: string, filter?: C
     });
 
   } catch (e: any) {
-    vscode.window.showErrorMessage(vscode.l10n.t(`Error searching source members: {0}`, e));
+    if (!(e instanceof vscode.CancellationError)) {
+      vscode.window.showErrorMessage(vscode.l10n.t(`Error searching source members: {0}`, e));
+    }
   }
 }
 
-async function listObjects(item: ObjectBrowserFilterItem, filter?: ConnectionConfiguration.ObjectFilters) {
-  return (await getContent().getObjectList(filter || item.filter, objectSortOrder()))
-    .map(object => {
-      return object.sourceFile ? new ObjectBrowserSourcePhysicalFileItem(item, object) : new ObjectBrowserObjectItem(item, object);
-    });
+async function listObjects(item: ObjectBrowserFilterItem, filter?: ConnectionConfiguration.ObjectFilters): Promise<BrowserItem[]> {
+  try {
+    return (await Tools.withCancellableContext(LOADING_CONTEXT, token => getContent(item).getObjectList(filter || item.filter, objectSortOrder(), token)))
+      .map(object => {
+        return object.sourceFile ? new ObjectBrowserSourcePhysicalFileItem(item, object) : new ObjectBrowserObjectItem(item, object);
+      });
+  }
+  catch (e: any) {
+    if (e instanceof vscode.CancellationError) {
+      return [new BrowserItem(vscode.l10n.t(`Loading cancelled`), { icon: `circle-slash` })];
+    }
+    throw e;
+  }
 }
 
-async function deleteObject(object: IBMiObject) {
-  const connection = getConnection();
+async function deleteObject(object: IBMiObject, item: BrowserItem) {
+  const connection = getConnection(item);
   const deleteResult = await connection.runCommand({
     command: `DLTOBJ OBJ(${object.library}/${object.name}) OBJTYPE(${object.type})`,
     noLibList: true
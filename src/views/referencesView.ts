@@ -0,0 +1,168 @@
+import vscode, { l10n } from "vscode";
+import { instance } from "../instantiate";
+import { BrowserItem, IBMiObjectReference, ObjectItem } from "../typings";
+
+const PROGRAM_TYPES = [`*PGM`, `*SRVPGM`, `*MODULE`, `*SQLPKG`, `*QRYDFN`];
+const ANALYZED_TYPES = [`*PGM`, `*SRVPGM`, `*FILE`];
+const VISIBLE_CONTEXT = `code-for-ibmi:referencesViewVisible`;
+
+type ReferencesContext = {
+  /** Libraries searched for the programs using an object */
+  libraries: string[]
+}
+
+class ReferencesView implements vscode.TreeDataProvider<BrowserItem> {
+  private readonly emitter = new vscode.EventEmitter<BrowserItem | BrowserItem[] | undefined | null | void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+  root?: ObjectReferenceItem;
+
+  refresh(target?: BrowserItem) {
+    this.emitter.fire(target);
+  }
+
+  getTreeItem(element: BrowserItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
+    return element?.getChildren?.() || (this.root ? [this.root] : []);
+  }
+
+  getParent(item: BrowserItem) {
+    return item.parent;
+  }
+}
+
+class ObjectReferenceItem extends BrowserItem {
+  constructor(readonly reference: IBMiObjectReference, readonly context: ReferencesContext, parent?: BrowserItem) {
+    const analyzed = ANALYZED_TYPES.includes(reference.type.toUpperCase()) && !isAncestor(reference, parent);
+    super(`${reference.library}/${reference.name}`, {
+      icon: reference.type === `*FILE` ? `database` : reference.type === `*SRVPGM` ? `file-submodule` : PROGRAM_TYPES.includes(reference.type) ? `file-binary` : `circle-large-outline`,
+      state: !analyzed ? vscode.TreeItemCollapsibleState.None : parent ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded,
+      parent
+    });
+    this.contextValue = `objectReference`;
+    this.description = [reference.type, reference.usage, reference.text].filter(Boolean).join(` - `);
+    if (!analyzed && ANALYZED_TYPES.includes(reference.type.toUpperCase())) {
+      this.tooltip = l10n.t(`Already shown above, as a parent of this object`);
+    }
+  }
+
+  getChildren(): BrowserItem[] {
+    const type = this.reference.type.toUpperCase();
+    return [
+      ...(PROGRAM_TYPES.includes(type) ? [new ReferencesGroupItem(`references`, this)] : []),
+      new ReferencesGroupItem(`users`, this)
+    ];
+  }
+}
+
+class ReferencesGroupItem extends BrowserItem {
+  constructor(readonly direction: "references" | "users", readonly object: ObjectReferenceItem) {
+    super(direction === `references` ? l10n.t(`References`) : l10n.t(`Used by`), {
+      icon: direction === `references` ? `arrow-right` : `arrow-left`,
+      state: vscode.TreeItemCollapsibleState.Collapsed,
+      parent: object
+    });
+    this.contextValue = `objectReferences.${direction}`;
+    if (direction === `users`) {
+      this.description = object.context.libraries.join(`, `);
+    }
+  }
+
+  async getChildren(): Promise<BrowserItem[]> {
+    const content = instance.getContent();
+    if (content) {
+      try {
+        const owner = await resolveLibrary(this.object.reference);
+        const references = this.direction === `references` ?
+          await content.getProgramReferences(owner) :
+          await content.getObjectUsers(owner, this.object.context.libraries);
+
+        return references.length ?
+          references.map(reference => new ObjectReferenceItem(reference, this.object.context, this)) :
+          [new BrowserItem(this.direction === `references` ? l10n.t(`No references found`) : l10n.t(`Not used in these libraries`))];
+      }
+      catch (e: any) {
+        console.log(e);
+        vscode.window.showErrorMessage(e.message || String(e));
+        return [new ErrorItem(e)];
+      }
+    }
+    return [];
+  }
+}
+
+class ErrorItem extends BrowserItem {
+  constructor(error: Error) {
+    super(l10n.t(`Error loading references.`))
+    this.description = error.message;
+  }
+}
+
+/**
+ * Objects referenced through the library list are looked for in the current library and in the user library list
+ */
+async function resolveLibrary(reference: IBMiObjectReference): Promise<IBMiObjectReference> {
+  const config = instance.getConfig();
+  if (reference.library === `*LIBL` && config) {
+    const library = await instance.getContent()?.objectResolve(reference.name, [config.currentLibrary, ...config.libraryList]);
+    if (library) {
+      return { ...reference, library };
+    }
+  }
+  return reference;
+}
+
+/**
+ * Stops the tree from going around in circles when objects reference each other
+ */
+function isAncestor(reference: IBMiObjectReference, parent?: BrowserItem): boolean {
+  for (let item = parent; item; item = item.parent) {
+    if (item instanceof ObjectReferenceItem && item.reference.name === reference.name && item.reference.type === reference.type &&
+      (item.reference.library === reference.library || reference.library === `*LIBL`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function initializeReferencesView(context: vscode.ExtensionContext) {
+  const referencesView = new ReferencesView();
+  const referencesViewViewer = vscode.window.createTreeView(
+    `referencesView`, {
+    treeDataProvider: referencesView,
+    showCollapseAll: true
+  });
+
+  instance.subscribe(context, "disconnected", "Clear References view", () => vscode.commands.executeCommand(`code-for-ibmi.closeReferencesView`));
+
+  context.subscriptions.push(
+    referencesViewViewer,
+    vscode.commands.registerCommand(`code-for-ibmi.showObjectReferences`, async (node: ObjectItem) => {
+      const connection = instance.getConnection();
+      if (connection && node?.object) {
+        const object = node.object;
+        const libraries = (await vscode.window.showInputBox({
+          title: l10n.t(`References of {0}/{1}`, object.library, object.name),
+          prompt: l10n.t(`Libraries to search for programs using {0} (space or comma separated)`, object.name),
+          value: [...new Set([object.library, ...(referencesView.root?.context.libraries || [])])].join(`, `),
+          validateInput: value => value.trim() ? undefined : l10n.t(`At least one library is required`)
+        }))?.split(/[\s,]+/).filter(Boolean).map(library => connection.upperCaseName(library));
+
+        if (libraries) {
+          referencesView.root = new ObjectReferenceItem({ library: object.library, name: object.name, type: object.type.toUpperCase(), text: object.text }, { libraries });
+          referencesView.refresh();
+          await vscode.commands.executeCommand(`setContext`, VISIBLE_CONTEXT, true);
+          await vscode.commands.executeCommand(`referencesView.focus`);
+        }
+      }
+    }),
+    vscode.commands.registerCommand(`code-for-ibmi.refreshReferencesView`, () => referencesView.refresh()),
+    vscode.commands.registerCommand(`code-for-ibmi.closeReferencesView`, async () => {
+      referencesView.root = undefined;
+      referencesView.refresh();
+      await vscode.commands.executeCommand(`setContext`, VISIBLE_CONTEXT, false);
+    })
+  );
+}
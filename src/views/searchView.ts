@@ -60,7 +60,7 @@ class SearchView implements vscode.TreeDataProvider<vscode.TreeItem> {
 
   async getChildren(hitSource: HitSource): Promise<vscode.TreeItem[]> {
     if (!hitSource) {
-      return this._results.hits.map(hit => new HitSource(this._results.term, hit));
+      return this._results.hits.map(hit => new HitSource(this._results.term, hit, this._results.connection));
     } else {
       return hitSource.getChildren();
     }
@@ -71,7 +71,7 @@ class HitSource extends vscode.TreeItem implements WithPath {
   private readonly _readonly?: boolean;
   readonly path: string;
 
-  constructor(readonly term: string, readonly result: SearchHit) {
+  constructor(readonly term: string, readonly result: SearchHit, readonly connectionName?: string) {
     const hits = result.lines.length;
     super(computeSearchHitLabel(term, result), hits ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
 
@@ -95,12 +95,12 @@ class HitSource extends vscode.TreeItem implements WithPath {
   }
 
   async getChildren(): Promise<LineHit[]> {
-    return this.result.lines.map(line => new LineHit(this.term, this.path, line, this._readonly));
+    return this.result.lines.map(line => new LineHit(this.term, this.path, line, this._readonly, this.connectionName));
   }
 }
 
 class LineHit extends vscode.TreeItem {
-  constructor(readonly term: string, readonly path: string, line: SearchHitLine, readonly?: boolean) {
+  constructor(readonly term: string, readonly path: string, line: SearchHitLine, readonly?: boolean, readonly connectionName?: string) {
     const highlights: [number, number][] = [];
 
     const upperContent = line.content.trim().toUpperCase();
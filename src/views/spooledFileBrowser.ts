@@ -0,0 +1,248 @@
+import path from "path";
+import vscode, { l10n } from "vscode";
+import { ConnectionConfiguration } from "../api/Configuration";
+import { Tools } from "../api/Tools";
+import { getSpooledFileUri } from "../filesystems/spooledFileFs";
+import { instance, registerItemCommand } from "../instantiate";
+import { BrowserItem, IBMiSpooledFile, SpooledFileSource } from "../typings";
+
+const sourceLabel = (source: SpooledFileSource) => source.type === `user` ? source.name : `${source.library || `QUSRSYS`}/${source.name}`;
+const sameSource = (a: SpooledFileSource, b: SpooledFileSource) => a.type === b.type && sourceLabel(a).toUpperCase() === sourceLabel(b).toUpperCase();
+
+class SpooledFileBrowser implements vscode.TreeDataProvider<BrowserItem> {
+  private readonly emitter = new vscode.EventEmitter<BrowserItem | BrowserItem[] | undefined | null | void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+
+  refresh(target?: BrowserItem) {
+    this.emitter.fire(target);
+  }
+
+  getTreeItem(element: BrowserItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BrowserItem): vscode.ProviderResult<BrowserItem[]> {
+    return element?.getChildren?.() || this.getSources();
+  }
+
+  getParent(item: BrowserItem) {
+    return item.parent;
+  }
+
+  getSources() {
+    const connection = instance.getConnection();
+    if (connection) {
+      const currentUser: SpooledFileSource = { type: `user`, name: connection.currentUser.toUpperCase() };
+      return [
+        new SpooledFileSourceItem(connection.currentConnectionName, currentUser, false),
+        ...connection.getConfig().spooledFileSources
+          .filter(source => !sameSource(source, currentUser))
+          .map(source => new SpooledFileSourceItem(connection.currentConnectionName, source, true))
+      ];
+    }
+    return [];
+  }
+}
+
+class SpooledFileSourceItem extends BrowserItem {
+  constructor(connection: string, readonly source: SpooledFileSource, removable: boolean) {
+    super(sourceLabel(source), { state: vscode.TreeItemCollapsibleState.Collapsed, icon: source.type === `user` ? `account` : `inbox`, connection });
+    this.contextValue = `spooledFileSource${removable ? `_removable` : ``}`;
+    this.description = source.type === `user` ? l10n.t(`User`) : l10n.t(`Output queue`);
+  }
+
+  async getChildren(): Promise<BrowserItem[]> {
+    const content = instance.getContent(this.connectionName);
+    if (content) {
+      try {
+        return (await content.getSpooledFileList(this.source)).map(spooledFile => new SpooledFileItem(spooledFile, this));
+      } catch (e: any) {
+        console.log(e);
+        vscode.window.showErrorMessage(e.message || String(e));
+        return [new ErrorItem(e)];
+      }
+    }
+    return [];
+  }
+
+  refresh(): void {
+    vscode.commands.executeCommand(`code-for-ibmi.refreshSpooledFileBrowserItem`, this);
+  }
+}
+
+class SpooledFileItem extends BrowserItem {
+  readonly path: string;
+
+  constructor(readonly spooledFile: IBMiSpooledFile, parent: SpooledFileSourceItem) {
+    const held = spooledFile.status === `HELD`;
+    super(spooledFile.name, { icon: held ? `debug-pause` : `file-text`, parent });
+    this.path = `${spooledFile.job}/${spooledFile.name}`;
+    this.contextValue = `spooledFile${held ? `_held` : ``}`;
+    this.description = `${spooledFile.job} (${spooledFile.number})${spooledFile.userData ? ` - ${spooledFile.userData}` : ``}`;
+    this.tooltip = instance.getContent(this.connectionName)?.spooledFileToToolTip(this.path, spooledFile);
+    this.resourceUri = getSpooledFileUri(spooledFile, this.connectionName);
+    this.command = {
+      command: `vscode.open`,
+      title: l10n.t(`Open Spooled File`),
+      arguments: [this.resourceUri]
+    };
+  }
+
+  refresh(): void {
+    this.parent?.refresh?.();
+  }
+}
+
+class ErrorItem extends BrowserItem {
+  constructor(error: Error) {
+    super(l10n.t(`Error loading spooled files.`))
+    this.description = error.message;
+  }
+}
+
+export function initializeSpooledFileBrowser(context: vscode.ExtensionContext) {
+  const spooledFileBrowser = new SpooledFileBrowser();
+  const spooledFileTreeViewer = vscode.window.createTreeView(
+    `spooledFileBrowser`, {
+    treeDataProvider: spooledFileBrowser,
+    showCollapseAll: true,
+    canSelectMany: true
+  });
+
+  const getSelection = (item?: SpooledFileItem, items?: SpooledFileItem[]) =>
+    items || (item ? [item] : spooledFileTreeViewer.selection.filter(selected => selected instanceof SpooledFileItem) as SpooledFileItem[]);
+
+  const refreshParents = (items: SpooledFileItem[]) => items.map(item => item.parent)
+    .filter(Tools.distinct)
+    .forEach(parent => parent?.refresh?.());
+
+  context.subscriptions.push(
+    spooledFileTreeViewer,
+    vscode.commands.registerCommand(`code-for-ibmi.refreshSpooledFileBrowser`, () => spooledFileBrowser.refresh()),
+    vscode.commands.registerCommand(`code-for-ibmi.refreshSpooledFileBrowserItem`, (item?: BrowserItem) => spooledFileBrowser.refresh(item)),
+
+    vscode.commands.registerCommand(`code-for-ibmi.addSpooledFileSource`, async () => {
+      const config = instance.getConfig();
+      if (config) {
+        const type = (await vscode.window.showQuickPick([
+          { label: l10n.t(`User`), type: `user` as const },
+          { label: l10n.t(`Output queue`), type: `outputQueue` as const }
+        ], { title: l10n.t(`List spooled files from`) }))?.type;
+
+        if (type) {
+          const value = (await vscode.window.showInputBox({
+            prompt: type === `user` ? l10n.t(`User profile`) : l10n.t(`Output queue (LIBRARY/OUTQ)`),
+            validateInput: value => !value.trim() || (type === `user` && value.includes(`/`)) ? l10n.t(`Invalid name`) : undefined
+          }))?.trim().toUpperCase();
+
+          if (value) {
+            const [library, name] = value.includes(`/`) ? value.split(`/`) : [`QUSRSYS`, value];
+            const source: SpooledFileSource = type === `user` ? { type, name: value } : { type, library, name };
+            if (!config.spooledFileSources.some(existing => sameSource(existing, source))) {
+              config.spooledFileSources.push(source);
+              await ConnectionConfiguration.update(config);
+              spooledFileBrowser.refresh();
+            }
+          }
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand(`code-for-ibmi.removeSpooledFileSource`, async (node: SpooledFileSourceItem) => {
+      const config = instance.getConfig();
+      if (config && node) {
+        const index = config.spooledFileSources.findIndex(source => sameSource(source, node.source));
+        if (index >= 0) {
+          config.spooledFileSources.splice(index, 1);
+          await ConnectionConfiguration.update(config);
+          spooledFileBrowser.refresh();
+        }
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.downloadSpooledFile`, async (node: SpooledFileItem) => {
+      const connection = instance.getConnection();
+      if (connection && node) {
+        const spooledFile = node.spooledFile;
+        const downloadLocationURI = await vscode.window.showSaveDialog({
+          defaultUri: vscode.Uri.file(path.join(connection.getLastDownloadLocation(), `${spooledFile.name}_${spooledFile.number}.txt`.toLowerCase())),
+          filters: {
+            [l10n.t(`Text`)]: [`txt`],
+            'PDF': [`pdf`]
+          }
+        });
+
+        if (downloadLocationURI) {
+          const format = path.extname(downloadLocationURI.path).toLowerCase() === `.pdf` ? `pdf` : `txt`;
+          await connection.setLastDownloadLocation(path.dirname(downloadLocationURI.path));
+          await vscode.window.withProgress({ title: l10n.t(`Downloading {0}`, spooledFile.name), location: vscode.ProgressLocation.Notification }, async () => {
+            try {
+              await connection.getContent().downloadSpooledFile(spooledFile, downloadLocationURI, format);
+              vscode.window.showInformationMessage(l10n.t(`Download complete`), l10n.t(`Open`))
+                .then(open => open ? vscode.commands.executeCommand(`revealFileInOS`, downloadLocationURI) : undefined);
+            }
+            catch (e: any) {
+              vscode.window.showErrorMessage(l10n.t(`Error downloading spooled file {0}: {1}`, spooledFile.name, e.message || String(e)));
+            }
+          });
+        }
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.deleteSpooledFile`, async (node?: SpooledFileItem, nodes?: SpooledFileItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        const message = items.length === 1 ? l10n.t(`Are you sure you want to delete spooled file {0} ({1})?`, items[0].spooledFile.name, items[0].spooledFile.job) : l10n.t(`Are you sure you want to delete the {0} selected spooled files?`, items.length);
+        if (await vscode.window.showWarningMessage(message, { modal: true }, l10n.t(`Yes`))) {
+          await vscode.window.withProgress({ title: l10n.t(`Deleting {0} spooled file(s)...`, items.length), location: vscode.ProgressLocation.Notification }, async () => {
+            for (const item of items) {
+              try {
+                await content.deleteSpooledFile(item.spooledFile);
+                for (const tab of Tools.findUriTabs(getSpooledFileUri(item.spooledFile, item.connectionName))) {
+                  await vscode.window.tabGroups.close(tab);
+                }
+              }
+              catch (e: any) {
+                vscode.window.showErrorMessage(l10n.t(`Error deleting spooled file {0}: {1}`, item.spooledFile.name, e.message || String(e)));
+              }
+            }
+          });
+          refreshParents(items);
+        }
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.holdSpooledFile`, async (node?: SpooledFileItem, nodes?: SpooledFileItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        for (const item of items) {
+          try {
+            await content.holdSpooledFile(item.spooledFile);
+          }
+          catch (e: any) {
+            vscode.window.showErrorMessage(l10n.t(`Error holding spooled file {0}: {1}`, item.spooledFile.name, e.message || String(e)));
+          }
+        }
+        refreshParents(items);
+      }
+    }),
+
+    registerItemCommand(`code-for-ibmi.releaseSpooledFile`, async (node?: SpooledFileItem, nodes?: SpooledFileItem[]) => {
+      const content = instance.getContent();
+      const items = getSelection(node, nodes);
+      if (content && items.length) {
+        for (const item of items) {
+          try {
+            await content.releaseSpooledFile(item.spooledFile);
+          }
+          catch (e: any) {
+            vscode.window.showErrorMessage(l10n.t(`Error releasing spooled file {0}: {1}`, item.spooledFile.name, e.message || String(e)));
+          }
+        }
+        refreshParents(items);
+      }
+    })
+  );
+}
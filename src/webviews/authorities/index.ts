@@ -0,0 +1,140 @@
+import vscode, { l10n } from "vscode";
+import { CustomUI } from "../../api/CustomUI";
+import { instance } from "../../instantiate";
+import { AuthorityTarget, IBMiObjectAuthorities, ObjectItem, WithPath } from "../../typings";
+import { toHtmlTable } from "../jobs";
+
+const OBJECT_AUTHORITIES = [`*USE`, `*CHANGE`, `*ALL`, `*EXCLUDE`];
+const IFS_DATA_AUTHORITIES = [`*RWX`, `*RX`, `*RW`, `*WX`, `*R`, `*W`, `*X`, `*EXCLUDE`];
+
+type AuthoritiesPage = {
+  buttons: "grant" | "revoke" | "changeOwner" | "close"
+  users: string
+  authority: string
+  specificAuthorities: string
+  newOwner: string
+  revokeOldOwner: boolean
+}
+
+export class AuthoritiesUI {
+  static init(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`code-for-ibmi.showAuthorities`, async (node: ObjectItem | WithPath) => {
+        const target: AuthorityTarget = `object` in node ?
+          { library: node.object.library, name: node.object.name, type: node.object.type } :
+          node.path;
+
+        try {
+          await AuthoritiesUI.show(target);
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error loading the authorities of {0}: {1}`, toName(target), e.message || String(e)));
+        }
+      })
+    );
+  }
+
+  /**
+   * Shows the authorities of an object in a form that lets the user grant, revoke and change the owner.
+   * The form is reloaded after each change until it is closed.
+   */
+  static async show(target: AuthorityTarget) {
+    const content = instance.getContent()!;
+    const title = l10n.t(`Authorities of {0}`, toName(target));
+    let authorities = await content.getAuthorities(target);
+
+    while (true) {
+      const page = await createForm(target, authorities).loadPage<AuthoritiesPage>(title);
+      if (!page?.data) {
+        return;
+      }
+
+      page.panel.dispose();
+      const data = page.data;
+      const users = data.users.split(/[\s,]+/).filter(Boolean);
+      try {
+        switch (data.buttons) {
+          case `grant`:
+            if (!users.length) {
+              throw new Error(l10n.t(`At least one user is required`));
+            }
+            const specificAuthorities = data.specificAuthorities.split(/\s+/).filter(Boolean);
+            await content.grantAuthority(target, users, typeof target === `string` ?
+              [data.authority, ...specificAuthorities] :
+              specificAuthorities.length ? specificAuthorities : [data.authority]
+            );
+            break;
+
+          case `revoke`:
+            if (!users.length) {
+              throw new Error(l10n.t(`At least one user is required`));
+            }
+            await content.revokeAuthority(target, users);
+            break;
+
+          case `changeOwner`:
+            if (!data.newOwner.trim()) {
+              throw new Error(l10n.t(`The new owner is required`));
+            }
+            await content.changeOwner(target, data.newOwner.trim(), data.revokeOldOwner);
+            break;
+
+          default:
+            return;
+        }
+      }
+      catch (e: any) {
+        vscode.window.showErrorMessage(e.message || String(e));
+      }
+
+      authorities = await content.getAuthorities(target);
+    }
+  }
+}
+
+function createForm(target: AuthorityTarget, authorities: IBMiObjectAuthorities) {
+  const ifs = typeof target === `string`;
+  return new CustomUI()
+    .addParagraph(toHtmlTable([
+      { label: l10n.t(`Owner`), value: authorities.owner },
+      { label: l10n.t(`Primary group`), value: authorities.primaryGroup || `*NONE` },
+      { label: l10n.t(`Authorization list`), value: authorities.authorizationList || `*NONE` },
+      { label: l10n.t(`Public authority`), value: authorities.publicAuthority || `*EXCLUDE` }
+    ], [
+      { label: ``, value: row => row.label },
+      { label: ``, value: row => row.value }
+    ]))
+    .addHeading(l10n.t(`Private authorities`), 3)
+    .addParagraph(authorities.privateAuthorities.length ?
+      toHtmlTable(authorities.privateAuthorities, [
+        { label: l10n.t(`User`), value: authority => authority.user },
+        { label: l10n.t(`Authority`), value: authority => authority.authority },
+        { label: l10n.t(`Object authorities`), value: authority => authority.objectAuthorities.join(` `) },
+        { label: l10n.t(`Data authorities`), value: authority => authority.dataAuthorities.join(` `) }
+      ]) :
+      l10n.t(`No private authority`)
+    )
+    .addHorizontalRule()
+    .addHeading(l10n.t(`Grant or revoke`), 3)
+    .addInput(`users`, l10n.t(`Users`), l10n.t(`Space separated user or group profiles, or <code>*PUBLIC</code>. Granting replaces the authorities they already have.`))
+    .addSelect(`authority`, ifs ? l10n.t(`Data authority`) : l10n.t(`Authority`), (ifs ? IFS_DATA_AUTHORITIES : OBJECT_AUTHORITIES).map((authority, index) => ({
+      text: authority,
+      description: authority,
+      value: authority,
+      selected: index === 0
+    })))
+    .addInput(`specificAuthorities`, ifs ? l10n.t(`Object authorities`) : l10n.t(`Specific authorities`), ifs ?
+      l10n.t(`Optional space separated object authorities, like <code>*OBJEXIST *OBJMGT</code>.`) :
+      l10n.t(`Optional space separated specific authorities, like <code>*OBJOPR *READ</code>. They are granted instead of the authority above.`)
+    )
+    .addButtons({ id: `grant`, label: l10n.t(`Grant`) }, { id: `revoke`, label: l10n.t(`Revoke`) })
+    .addHorizontalRule()
+    .addHeading(l10n.t(`Owner`), 3)
+    .addInput(`newOwner`, l10n.t(`New owner`), undefined, { default: authorities.owner, maxlength: 10 })
+    .addCheckbox(`revokeOldOwner`, l10n.t(`Revoke the authorities of the current owner`))
+    .addButtons({ id: `changeOwner`, label: l10n.t(`Change owner`) }, { id: `close`, label: l10n.t(`Close`) });
+}
+
+function toName(target: AuthorityTarget) {
+  return typeof target === `string` ? target : `${target.library}/${target.name}`;
+}
@@ -0,0 +1,172 @@
+import vscode, { l10n } from "vscode";
+import { CLCommand } from "../../api/CLCommand";
+import { CustomUI, Section } from "../../api/CustomUI";
+import { instance } from "../../instantiate";
+import { CommandElement, CommandParameter } from "../../typings";
+
+/** The data length of a CL source member created with the default record length */
+const SOURCE_WIDTH = 80;
+
+export class CommandPrompter {
+  static init(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`code-for-ibmi.promptCommand`, async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (editor) {
+          const document = editor.document;
+          const continued = (line: number) => /[+-]$/.test(document.lineAt(line).text.trimEnd());
+          let start = editor.selection.active.line;
+          let end = start;
+          while (start > 0 && continued(start - 1)) {
+            start--;
+          }
+          while (end < document.lineCount - 1 && continued(end)) {
+            end++;
+          }
+
+          const range = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+          const command = document.getText(range).trim() || (await vscode.window.showInputBox({ prompt: l10n.t(`Command to prompt`) }))?.trim();
+          if (command) {
+            try {
+              const prompted = await CommandPrompter.prompt(command);
+              if (prompted) {
+                //The editor is hidden behind the prompt, so the document is changed through a workspace edit
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(document.uri, range, CLCommand.wrap(prompted, SOURCE_WIDTH, /^\s*/.exec(document.lineAt(start).text)![0]));
+                await vscode.workspace.applyEdit(edit);
+              }
+            }
+            catch (e: any) {
+              vscode.window.showErrorMessage(l10n.t(`Error prompting {0}: {1}`, CLCommand.parse(command).name, e.message || String(e)));
+            }
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Prompts the parameters of a CL command, using its definition on the system
+   * @param command the command, with or without parameters
+   * @returns the prompted command on a single line, or `undefined` if the prompt was cancelled
+   * @throws an Error if the command definition cannot be retrieved
+   */
+  static async prompt(command: string): Promise<string | undefined> {
+    const definition = await instance.getContent()!.getCommandDefinition(CLCommand.parse(command).name);
+    const { label, name, parameters } = CLCommand.parse(command, definition);
+    const prompted = definition.parameters.filter(parameter => !parameter.constant);
+
+    const form = new CustomUI()
+      .addHeading(`${escapeHtml(definition.prompt || definition.name)} (${definition.name})`, 2);
+    for (const parameter of prompted) {
+      addParameter(form, parameter, parameters[parameter.keyword]);
+    }
+
+    const page = await form
+      .addButtons({ id: `prompt`, label: l10n.t(`OK`), requiresValidation: true }, { id: `cancel`, label: l10n.t(`Cancel`) })
+      .loadPage<Record<string, string>>(l10n.t(`Prompt {0}`, name.toUpperCase()));
+
+    if (page?.data) {
+      page.panel.dispose();
+      if (page.data.buttons === `prompt`) {
+        const data = page.data;
+        return [
+          label ? `${label}:` : ``,
+          name,
+          ...prompted.map(parameter => toParameter(parameter, data))
+        ].filter(Boolean).join(` `);
+      }
+    }
+  }
+}
+
+function addParameter(form: Section, parameter: CommandParameter, value?: string) {
+  const keyword = parameter.keyword;
+  const label = `${escapeHtml(parameter.prompt || keyword)} (${keyword})`;
+  const required = parameter.min > 0;
+
+  if (parameter.max > 1) {
+    const entries = value ? CLCommand.splitValues(value).map(entry => parameter.elements.length ? unwrap(entry) : entry) : [];
+    form.addInput(keyword, label, describe(parameter, l10n.t(`Up to {0} values, one per line.`, parameter.max)), {
+      rows: Math.min(parameter.max, 4),
+      default: entries.join(`\n`),
+      minlength: required ? 1 : undefined
+    });
+  }
+  else if (parameter.qualifiers.length) {
+    const parts = value ? value.split(`/`).reverse() : [];
+    parameter.qualifiers.forEach((qualifier, index) =>
+      addValue(form, `${keyword}_${index}`, index ? `${label} - ${escapeHtml(qualifier.prompt)}` : label, index ? qualifier : { ...qualifier, singleValues: parameter.singleValues }, parts[index], required && !index)
+    );
+  }
+  else if (parameter.elements.length) {
+    const parts = value ? CLCommand.splitValues(unwrap(value)) : [];
+    parameter.elements.forEach((element, index) =>
+      addValue(form, `${keyword}_${index}`, `${label} - ${escapeHtml(element.prompt || String(index + 1))}`, index ? element : { ...element, singleValues: parameter.singleValues }, parts[index], required && !index)
+    );
+  }
+  else {
+    addValue(form, keyword, label, parameter, value, required);
+  }
+}
+
+function addValue(form: Section, id: string, label: string, element: CommandElement, value = ``, required?: boolean) {
+  const allowed = [...element.singleValues, ...element.values];
+  if (element.restricted && allowed.length && !element.qualifiers.length && !element.elements.length) {
+    form.addSelect(id, label, [
+      { text: ``, description: element.default ? l10n.t(`Default ({0})`, element.default) : l10n.t(`Not specified`), value: ``, selected: !value },
+      ...allowed.map(allowedValue => ({ text: ``, description: allowedValue, value: allowedValue, selected: allowedValue === value.toUpperCase() }))
+    ], describe(element));
+  }
+  else {
+    form.addInput(id, label, describe(element), { default: value, minlength: required ? 1 : undefined });
+  }
+}
+
+function describe(element: CommandElement, extra?: string) {
+  const values = [...element.singleValues, ...element.values];
+  return [
+    `<code>${element.type}${element.length ? ` ${element.length}` : ``}</code>`,
+    element.default ? l10n.t(`Default: {0}`, `<code>${escapeHtml(element.default)}</code>`) : ``,
+    values.length ? l10n.t(`Values: {0}`, values.map(value => `<code>${escapeHtml(value)}</code>`).join(`, `)) : ``,
+    extra
+  ].filter(Boolean).join(`<br>`);
+}
+
+function toParameter(parameter: CommandParameter, data: Record<string, string>) {
+  const keyword = parameter.keyword;
+  const part = (element: CommandElement, index: number) => CLCommand.formatValue(data[`${keyword}_${index}`] || ``, element);
+
+  let value;
+  if (parameter.max > 1) {
+    value = (data[keyword] || ``).split(/\r?\n/)
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => parameter.elements.length ?
+        (CLCommand.splitValues(entry).length > 1 && !entry.startsWith(`(`) ? `(${entry})` : entry) :
+        CLCommand.formatValue(entry, parameter))
+      .join(` `);
+  }
+  else if (parameter.qualifiers.length) {
+    const parts = parameter.qualifiers.map(part);
+    value = parts[0] ? parts.filter(Boolean).reverse().join(`/`) : ``;
+  }
+  else if (parameter.elements.length) {
+    const parts = parameter.elements.map(part);
+    const last = parts.map(Boolean).lastIndexOf(true);
+    value = last > 0 ? `(${parts.slice(0, last + 1).map(value => value || `*N`).join(` `)})` : parts[0];
+  }
+  else {
+    value = CLCommand.formatValue(data[keyword] || ``, parameter);
+  }
+
+  return value ? `${keyword}(${value})` : ``;
+}
+
+function unwrap(value: string) {
+  return /^\(([\s\S]*)\)$/.exec(value)?.[1].trim() ?? value;
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, `&amp;`).replace(/</g, `&lt;`).replace(/>/g, `&gt;`);
+}
@@ -0,0 +1,54 @@
+import { l10n } from "vscode";
+import { CustomUI } from "../../api/CustomUI";
+import { IBMiCallStackEntry, IBMiJobLogMessage } from "../../typings";
+
+type Column<T> = {
+  label: string
+  value: (row: T) => string | number | undefined
+}
+
+export class JobsUI {
+  static showJobLog(title: string, messages: IBMiJobLogMessage[]) {
+    return new CustomUI()
+      .addParagraph(toHtmlTable(messages, [
+        { label: l10n.t(`Message ID`), value: message => message.id },
+        { label: l10n.t(`Type`), value: message => message.type },
+        { label: l10n.t(`Severity`), value: message => message.severity },
+        { label: l10n.t(`Sent`), value: message => message.timestamp?.toLocaleString() },
+        { label: l10n.t(`From program`), value: message => message.fromLibrary ? `${message.fromLibrary}/${message.fromProgram}` : message.fromProgram },
+        { label: l10n.t(`Message`), value: message => message.text }
+      ], message => message.secondLevelText))
+      .setOptions({ fullWidth: true })
+      .loadPage(title);
+  }
+
+  static showCallStack(title: string, entries: IBMiCallStackEntry[]) {
+    return new CustomUI()
+      .addParagraph(toHtmlTable(entries, [
+        { label: l10n.t(`Thread`), value: entry => entry.thread },
+        { label: l10n.t(`Type`), value: entry => entry.type },
+        { label: l10n.t(`Program`), value: entry => entry.library ? `${entry.library}/${entry.program}` : entry.program },
+        { label: l10n.t(`Module`), value: entry => entry.module },
+        { label: l10n.t(`Procedure`), value: entry => entry.procedure },
+        { label: l10n.t(`Statement`), value: entry => entry.statements }
+      ]))
+      .setOptions({ fullWidth: true })
+      .loadPage(title);
+  }
+}
+
+export function toHtmlTable<T>(rows: T[], columns: Column<T>[], details?: (row: T) => string | undefined) {
+  const cell = (value?: string | number) => `<td style="vertical-align: top">${escapeHtml(value !== undefined ? String(value) : ``)}</td>`;
+  return `<table style="width: 100%; text-align: left; border-collapse: collapse">`
+    .concat(`<thead><tr>${columns.map(column => `<th>${escapeHtml(column.label)}</th>`).join(``)}</tr></thead>`)
+    .concat(`<tbody>${rows.map(row => {
+      const detail = details?.(row);
+      return `<tr>${columns.map(column => cell(column.value(row))).join(``)}</tr>`
+        .concat(detail ? `<tr><td></td><td colspan="${columns.length - 1}"><details><summary>${escapeHtml(l10n.t(`Details`))}</summary><pre style="white-space: pre-wrap">${escapeHtml(detail)}</pre></details></td></tr>` : ``);
+    }).join(``)}</tbody>`)
+    .concat(`</table>`);
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, `&amp;`).replace(/</g, `&lt;`).replace(/>/g, `&gt;`);
+}
@@ -2,7 +2,7 @@ import vscode, { l10n, ThemeIcon } from "vscode";
 import { ConnectionConfiguration, ConnectionManager } from "../../api/Configuration";
 import { CustomUI, Section } from "../../api/CustomUI";
 import IBMi from "../../api/IBMi";
-import { safeDisconnect, instance } from "../../instantiate";
+import { instance } from "../../instantiate";
 import { Tools } from "../../api/Tools";
 import { ConnectionData } from '../../typings';
 
@@ -20,21 +20,22 @@ export class Login {
    * @param {} context
    */
   static async show(context: vscode.ExtensionContext) {
-    const connection = instance.getConnection();
-    if (connection) {
-      if (!safeDisconnect()) return;
-    }
-
     const connectionTab = new Section()
       .addInput(`name`, `Connection Name`, undefined, { minlength: 1 })
       .addInput(`host`, l10n.t(`Host or IP Address`), undefined, { minlength: 1 })
       .addInput(`port`, l10n.t(`Port (SSH)`), ``, { default: `22`, minlength: 1, maxlength: 5, regexTest: `^\\d+$` })
       .addInput(`username`, l10n.t(`Username`), undefined, { minlength: 1, maxlength: 10 })
       .addParagraph(l10n.t(`Only provide either the password or a private key - not both.`))
+      .addParagraph(l10n.t(`Leave both empty to authenticate with the local SSH agent.`))
       .addPassword(`password`, l10n.t(`Password`))
       .addCheckbox(`savePassword`, l10n.t(`Save Password`))
       .addFile(`privateKeyPath`, l10n.t(`Private Key`), l10n.t(`OpenSSH, RFC4716, or PPK formats are supported.`));
 
+    const networkTab = new Section()
+      .addInput(`jumpHost`, l10n.t(`Jump host`), l10n.t(`Host the system is reached through, as <code>[user@]host[:port]</code> like the SSH <code>ProxyJump</code> option. Leave empty to connect directly.`))
+      .addFile(`jumpHostPrivateKeyPath`, l10n.t(`Jump host private key`), l10n.t(`The password or private key of the connection is used on the jump host when no key is provided.`))
+      .addCheckbox(`forwardDebugPorts`, l10n.t(`Forward Debug Service ports`), l10n.t(`Reach the Debug Service through the SSH connection instead of opening its ports in the firewall.`));
+
     const tempTab = new Section()
       .addInput(`tempLibrary`, `Temporary library`, `Temporary library. Cannot be QTEMP.`, { default: `ILEDITOR`, minlength: 1, maxlength: 10 })
       .addInput(`tempDir`, `Temporary IFS directory`, `Directory that will be used to write temporary files to. User must be authorized to create new files in this directory.`, { default: '/tmp', minlength: 1 });
@@ -42,6 +43,7 @@ export class Login {
     const page = await new CustomUI()
       .addComplexTabs([
         { label: `Connection`, fields: connectionTab.fields },
+        { label: l10n.t(`Network`), fields: networkTab.fields },
         { label: `Temporary data`, fields: tempTab.fields }
       ])
       .addButtons(
@@ -56,6 +58,8 @@ export class Login {
 
       data.port = Number(data.port);
       data.privateKeyPath = data.privateKeyPath?.trim() ? Tools.normalizePath(data.privateKeyPath) : undefined;
+      data.jumpHost = data.jumpHost?.trim() || undefined;
+      data.jumpHostPrivateKeyPath = data.jumpHost && data.jumpHostPrivateKeyPath?.trim() ? Tools.normalizePath(data.jumpHostPrivateKeyPath) : undefined;
       if (data.name) {
         const existingConnection = ConnectionManager.getByName(data.name);
 
@@ -68,7 +72,10 @@ export class Login {
             host: data.host,
             port: data.port,
             username: data.username,
-            privateKeyPath: data.privateKeyPath
+            privateKeyPath: data.privateKeyPath,
+            jumpHost: data.jumpHost,
+            jumpHostPrivateKeyPath: data.jumpHostPrivateKeyPath,
+            forwardDebugPorts: data.forwardDebugPorts || undefined
           };
 
           if (data.savePassword && data.password) {
@@ -90,11 +97,11 @@ export class Login {
             case `connect`:
               vscode.window.showInformationMessage(`Connecting to ${data.host}.`);
               const toDoOnConnected: Function[] = [];
-              if (!data.password && !data.privateKeyPath && await promptPassword(context, data)) {
+              if (!data.password && !data.privateKeyPath && !IBMi.getAgent(data) && await promptPassword(context, data)) {
                 toDoOnConnected.push(() => ConnectionManager.setStoredPassword(context, data.name, data.password!));
               }
 
-              if (data.password || data.privateKeyPath) {
+              if (data.password || data.privateKeyPath || IBMi.getAgent(data)) {
                 try {
                   const connected = await instance.connect({data, onConnectedOperations: toDoOnConnected});
                   if (connected.success) {
@@ -141,38 +148,40 @@ export class Login {
    * @param context
    */
   static async LoginToPrevious(name: string, context: vscode.ExtensionContext, reloadServerSettings?: boolean) {
-    const existingConnection = instance.getConnection();
-    if (existingConnection) {
-      // If the user is already connected and trying to connect to a different system, disconnect them first
-      if (name !== existingConnection.currentConnectionName) {
-        vscode.window.showInformationMessage(`Disconnecting from ${existingConnection.currentHost}.`);
-        if (!await safeDisconnect()) return false;
-      }
+    if (instance.getConnection(name)) {
+      // Already connected to this system: it becomes the active connection
+      await instance.setActiveConnection(name);
+      return true;
     }
 
     const connection = ConnectionManager.getByName(name);
     if (connection) {
       const toDoOnConnected: Function[] = [];
       const connectionConfig = connection.data;
+      const askPassword = async () => {
+        if (await promptPassword(context, connectionConfig)) {
+          toDoOnConnected.push(() => ConnectionManager.setStoredPassword(context, connectionConfig.name, connectionConfig.password!));
+        }
+        return Boolean(connectionConfig.password);
+      };
       if (connectionConfig.privateKeyPath) {
         // If connecting with a private key, remove the password
         await ConnectionManager.deleteStoredPassword(context, connectionConfig.name);
       } else {
-        // Assume connection with a password, but prompt if we don't have one        
+        // Assume connection with a password, but prompt if we don't have one and the SSH agent can't be used
         connectionConfig.password = await ConnectionManager.getStoredPassword(context, connectionConfig.name);
-        if (!connectionConfig.password) {
-          if (await promptPassword(context, connectionConfig)) {
-            toDoOnConnected.push(() => ConnectionManager.setStoredPassword(context, connectionConfig.name, connectionConfig.password!));
-          }
-        }
-
-        if (!connectionConfig.password) {
+        if (!connectionConfig.password && !IBMi.getAgent(connectionConfig) && !await askPassword()) {
           return;
         }
       }
 
       try {
-        const connected = await instance.connect({data: connectionConfig, onConnectedOperations: toDoOnConnected, reloadServerSettings});
+        let connected = await instance.connect({data: connectionConfig, onConnectedOperations: toDoOnConnected, reloadServerSettings});
+        if (!connected.success && IBMi.getAgent(connectionConfig) && await askPassword()) {
+          // The SSH agent could not authenticate the user: try again with a password
+          connected = await instance.connect({data: connectionConfig, onConnectedOperations: toDoOnConnected, reloadServerSettings});
+        }
+
         if (connected.success) {
           vscode.window.showInformationMessage(`Connected to ${connectionConfig.host}!`);
         } else {
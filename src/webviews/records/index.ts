@@ -0,0 +1,363 @@
+import { stringify } from "csv-stringify/sync";
+import path from "path";
+import vscode, { l10n } from "vscode";
+import { CustomUI } from "../../api/CustomUI";
+import { Tools } from "../../api/Tools";
+import { instance } from "../../instantiate";
+import { IBMiColumn } from "../../typings";
+
+const PAGE_SIZE = 100;
+const NUMERIC_TYPES = [`DECIMAL`, `NUMERIC`, `INTEGER`, `SMALLINT`, `BIGINT`, `DOUBLE`, `REAL`, `FLOAT`, `DECFLOAT`];
+
+type RecordsRequest =
+  { command: "load", page: number, where?: string } |
+  { command: "update", rrn: number, column: string, value: string } |
+  { command: "insert" } |
+  { command: "delete", rrn: number } |
+  { command: "export" };
+
+const openedFiles: Map<string, vscode.WebviewPanel> = new Map;
+
+export class RecordsUI {
+  static init(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`code-for-ibmi.openDatabaseFile`, async (uri: vscode.Uri, readonly?: boolean) => {
+        const [, library, fileName] = uri.path.split(`/`);
+        const file = path.parse(fileName).name;
+        const qualifiedName = `${library}/${file}`.toUpperCase();
+
+        const existing = openedFiles.get(qualifiedName);
+        if (existing) {
+          existing.reveal();
+        }
+        else {
+          try {
+            await RecordsUI.open(library.toUpperCase(), file.toUpperCase(), readonly || uri.fragment.toUpperCase() !== `PF`);
+          }
+          catch (e: any) {
+            vscode.window.showErrorMessage(l10n.t(`Error opening {0}: {1}`, qualifiedName, e.message || String(e)));
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Opens a paged grid of the records of a database file's first member
+   */
+  static async open(library: string, file: string, readonly: boolean) {
+    const content = instance.getContent()!;
+    const qualifiedName = `${library}/${file}`;
+    const columns = await content.getColumns(library, file);
+    if (!columns.length) {
+      throw new Error(l10n.t(`No column found for {0}`, qualifiedName));
+    }
+
+    const panel = vscode.window.createWebviewPanel(`records`, qualifiedName, vscode.ViewColumn.Active, { enableScripts: true, retainContextWhenHidden: true, enableFindWidget: true });
+    panel.webview.html = getHTML(qualifiedName, columns, readonly);
+    openedFiles.set(qualifiedName, panel);
+
+    let page = 0;
+    let where: string | undefined;
+
+    const load = async () => {
+      try {
+        const [total, records] = await Promise.all([
+          content.countRecords(library, file, where),
+          content.getRecords(library, file, { where, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+        ]);
+        panel.webview.postMessage({
+          command: `page`,
+          page,
+          pages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+          total,
+          records: records.map(record => ({ rrn: record.rrn, values: columns.map(column => record.values[column.name]) }))
+        });
+      }
+      catch (e: any) {
+        panel.webview.postMessage({ command: `error`, message: e.message || String(e) });
+      }
+    };
+
+    panel.webview.onDidReceiveMessage(async (request: RecordsRequest) => {
+      switch (request.command) {
+        case `load`:
+          page = Math.max(0, request.page);
+          where = request.where?.trim() || undefined;
+          await load();
+          break;
+
+        case `update`:
+          const column = columns.find(column => column.name === request.column);
+          if (column && !readonly) {
+            try {
+              await content.updateRecord(library, file, request.rrn, { [column.name]: toColumnValue(column, request.value) });
+            }
+            catch (e: any) {
+              vscode.window.showErrorMessage(l10n.t(`Error updating record {0}: {1}`, request.rrn, e.message || String(e)));
+              await load();
+            }
+          }
+          break;
+
+        case `insert`:
+          if (!readonly && await RecordsUI.insert(library, file, columns)) {
+            await load();
+          }
+          break;
+
+        case `delete`:
+          if (!readonly && await vscode.window.showWarningMessage(l10n.t(`Are you sure you want to delete record {0} from {1}?`, request.rrn, qualifiedName), { modal: true }, l10n.t(`Yes`))) {
+            try {
+              await content.deleteRecord(library, file, request.rrn);
+            }
+            catch (e: any) {
+              vscode.window.showErrorMessage(l10n.t(`Error deleting record {0}: {1}`, request.rrn, e.message || String(e)));
+            }
+            await load();
+          }
+          break;
+
+        case `export`:
+          await RecordsUI.export(library, file, columns, where);
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => openedFiles.delete(qualifiedName));
+  }
+
+  private static async insert(library: string, file: string, columns: IBMiColumn[]) {
+    const editableColumns = columns.filter(column => !column.identity);
+    const form = new CustomUI()
+      .addParagraph(l10n.t(`Columns left empty get their default value.`));
+    for (const column of editableColumns) {
+      form.addInput(column.name, column.name, [describeColumn(column), column.text].filter(Boolean).join(` - `), { maxlength: NUMERIC_TYPES.includes(column.type) ? undefined : column.length });
+    }
+    form.addButtons({ id: `insert`, label: l10n.t(`Insert`) }, { id: `cancel`, label: l10n.t(`Cancel`) });
+
+    const page = await form.loadPage<Record<string, string>>(l10n.t(`New record in {0}/{1}`, library, file));
+    if (page?.data) {
+      page.panel.dispose();
+      if (page.data.buttons !== `cancel`) {
+        try {
+          const values: Record<string, string | number | null> = {};
+          for (const column of editableColumns) {
+            const value = page.data[column.name];
+            if (value) {
+              values[column.name] = toColumnValue(column, value);
+            }
+          }
+          await instance.getContent()!.insertRecord(library, file, values);
+          return true;
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error inserting record in {0}/{1}: {2}`, library, file, e.message || String(e)));
+        }
+      }
+    }
+    return false;
+  }
+
+  private static async export(library: string, file: string, columns: IBMiColumn[], where?: string) {
+    const connection = instance.getConnection()!;
+    const saveLocation = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(connection.getLastDownloadLocation(), `${file.toLowerCase()}.csv`)),
+      filters: { 'CSV': [`csv`] }
+    });
+
+    if (saveLocation) {
+      await connection.setLastDownloadLocation(path.dirname(saveLocation.path));
+      await vscode.window.withProgress({ title: l10n.t(`Exporting {0}/{1}`, library, file), location: vscode.ProgressLocation.Notification }, async () => {
+        try {
+          const content = connection.getContent();
+          //Without a filter, the whole member is copied by the system in one go
+          const rows: Tools.DB2Row[] = where ?
+            (await content.getRecords(library, file, { where })).map(record => record.values) :
+            await content.getTable(library, file, `*FIRST`);
+
+          const csv = stringify(rows.map(row => columns.map(column => row[column.name])), { header: true, columns: columns.map(column => column.name) });
+          await vscode.workspace.fs.writeFile(saveLocation, Buffer.from(csv, `utf8`));
+          vscode.window.showInformationMessage(l10n.t(`Export complete`), l10n.t(`Open`))
+            .then(open => open ? vscode.commands.executeCommand(`vscode.open`, saveLocation) : undefined);
+        }
+        catch (e: any) {
+          vscode.window.showErrorMessage(l10n.t(`Error exporting {0}/{1}: {2}`, library, file, e.message || String(e)));
+        }
+      });
+    }
+  }
+}
+
+function describeColumn(column: IBMiColumn) {
+  return `${column.type}(${column.length}${column.scale ? `, ${column.scale}` : ``})`;
+}
+
+/**
+ * Converts a value typed in the grid into the value bound to the column
+ * @throws an Error if a numeric column gets a non-numeric value
+ */
+function toColumnValue(column: IBMiColumn, value: string): string | number | null {
+  if (!value && column.nullable && !column.type.includes(`CHAR`)) {
+    return null;
+  }
+  else if (NUMERIC_TYPES.includes(column.type)) {
+    const number = Number(value);
+    if (isNaN(number)) {
+      throw new Error(l10n.t(`{0} is not a valid value for {1}`, value, describeColumn(column)));
+    }
+    return number;
+  }
+  else {
+    return value;
+  }
+}
+
+function getHTML(title: string, columns: IBMiColumn[], readonly: boolean) {
+  const headers = columns.map(column => ({ name: column.name, tooltip: [describeColumn(column), column.text].filter(Boolean).join(`\n`), editable: !readonly && !column.identity }));
+  const text = {
+    filter: l10n.t(`WHERE condition, e.g. STATUS = 'A'`),
+    apply: l10n.t(`Apply`),
+    previous: l10n.t(`Previous`),
+    next: l10n.t(`Next`),
+    insert: l10n.t(`Insert record`),
+    delete: l10n.t(`Delete record`),
+    export: l10n.t(`Export to CSV`),
+    loading: l10n.t(`Loading...`),
+    page: l10n.t(`Page {0} of {1} ({2} records)`)
+  };
+
+  return /*html*/`
+  <!DOCTYPE html>
+  <html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+      body { padding: 0 1em; }
+      .toolbar { display: flex; gap: 0.5em; align-items: center; margin: 1em 0; position: sticky; top: 0; background: var(--vscode-editor-background); }
+      .toolbar input { flex: 1; }
+      input, button { font-family: inherit; font-size: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+      button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+      button:disabled { opacity: 0.5; cursor: default; }
+      table { border-collapse: collapse; font-family: var(--vscode-editor-font-family); }
+      th, td { border: 1px solid var(--vscode-panel-border); padding: 2px 6px; text-align: left; white-space: pre; }
+      th { background: var(--vscode-editorWidget-background); }
+      td[contenteditable="true"]:focus { outline: 1px solid var(--vscode-focusBorder); }
+      td.null { color: var(--vscode-disabledForeground); font-style: italic; }
+      td.rrn { color: var(--vscode-descriptionForeground); }
+      .error { color: var(--vscode-errorForeground); }
+    </style>
+  </head>
+  <body>
+    <div class="toolbar">
+      <input id="where" placeholder="${escapeHtml(text.filter)}">
+      <button id="apply">${escapeHtml(text.apply)}</button>
+      <button id="previous">${escapeHtml(text.previous)}</button>
+      <span id="status">${escapeHtml(text.loading)}</span>
+      <button id="next">${escapeHtml(text.next)}</button>
+      ${readonly ? `` : `<button id="insert">${escapeHtml(text.insert)}</button>`}
+      <button id="export">${escapeHtml(text.export)}</button>
+    </div>
+    <div id="error" class="error"></div>
+    <table>
+      <thead><tr><th>RRN</th>${headers.map(header => `<th title="${escapeHtml(header.tooltip)}">${escapeHtml(header.name)}</th>`).join(``)}${readonly ? `` : `<th></th>`}</tr></thead>
+      <tbody id="records"></tbody>
+    </table>
+  </body>
+  <script>
+    (function () {
+      const vscode = acquireVsCodeApi();
+      const headers = ${toScriptValue(headers)};
+      const text = ${toScriptValue(text)};
+      const readonly = ${readonly};
+      const state = { page: 0, pages: 1, where: '' };
+
+      const load = (page) => {
+        document.getElementById('status').textContent = text.loading;
+        vscode.postMessage({ command: 'load', page, where: state.where });
+      };
+
+      const cell = (record, header, index) => {
+        const td = document.createElement('td');
+        const value = record.values[index];
+        td.textContent = value === null ? 'NULL' : String(value);
+        td.classList.toggle('null', value === null);
+        if (header.editable) {
+          td.contentEditable = 'true';
+          td.onfocus = () => { td.dataset.original = td.textContent; };
+          td.onkeydown = (event) => {
+            if (event.key === 'Enter') { event.preventDefault(); td.blur(); }
+            if (event.key === 'Escape') { td.textContent = td.dataset.original; td.blur(); }
+          };
+          td.onblur = () => {
+            if (td.textContent !== td.dataset.original) {
+              td.classList.remove('null');
+              vscode.postMessage({ command: 'update', rrn: record.rrn, column: header.name, value: td.textContent });
+            }
+          };
+        }
+        return td;
+      };
+
+      window.addEventListener('message', event => {
+        const message = event.data;
+        switch (message.command) {
+          case 'page':
+            Object.assign(state, { page: message.page, pages: message.pages });
+            document.getElementById('error').textContent = '';
+            document.getElementById('status').textContent = text.page.replace('{0}', message.page + 1).replace('{1}', message.pages).replace('{2}', message.total);
+            document.getElementById('previous').disabled = message.page <= 0;
+            document.getElementById('next').disabled = message.page + 1 >= message.pages;
+
+            const body = document.getElementById('records');
+            body.replaceChildren(...message.records.map(record => {
+              const row = document.createElement('tr');
+              const rrn = document.createElement('td');
+              rrn.className = 'rrn';
+              rrn.textContent = record.rrn;
+              row.append(rrn, ...headers.map((header, index) => cell(record, header, index)));
+              if (!readonly) {
+                const remove = document.createElement('button');
+                remove.textContent = '✕';
+                remove.title = text.delete;
+                remove.onclick = () => vscode.postMessage({ command: 'delete', rrn: record.rrn });
+                const actions = document.createElement('td');
+                actions.append(remove);
+                row.append(actions);
+              }
+              return row;
+            }));
+            break;
+
+          case 'error':
+            document.getElementById('status').textContent = '';
+            document.getElementById('error').textContent = message.message;
+            break;
+        }
+      });
+
+      const applyFilter = () => { state.where = document.getElementById('where').value; load(0); };
+      document.getElementById('apply').onclick = applyFilter;
+      document.getElementById('where').onkeydown = (event) => { if (event.key === 'Enter') applyFilter(); };
+      document.getElementById('previous').onclick = () => load(state.page - 1);
+      document.getElementById('next').onclick = () => load(state.page + 1);
+      document.getElementById('export').onclick = () => vscode.postMessage({ command: 'export' });
+      if (!readonly) {
+        document.getElementById('insert').onclick = () => vscode.postMessage({ command: 'insert' });
+      }
+
+      load(0);
+    }())
+  </script>
+  </html>`;
+}
+
+function toScriptValue(value: any) {
+  return JSON.stringify(value).replace(/</g, `\\u003c`);
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, `&amp;`).replace(/</g, `&lt;`).replace(/>/g, `&gt;`).replace(/"/g, `&quot;`);
+}
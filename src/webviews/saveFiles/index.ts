@@ -0,0 +1,76 @@
+import { l10n } from "vscode";
+import { CustomUI } from "../../api/CustomUI";
+import { instance } from "../../instantiate";
+import { IBMiObject, QsysPath } from "../../typings";
+
+const QUALIFIED_NAME = `^[^/\\s]{1,10}/[^/\\s]{1,10}$`;
+
+export type SaveOptions = {
+  saveFile: QsysPath
+  targetRelease: string
+}
+
+export type RestoreOptions = {
+  savedLibrary: string
+  objects?: string[]
+  restoreLibrary: string
+  allowDifferences: boolean
+}
+
+export class SaveFileUI {
+  static async askSaveOptions(title: string, defaultSaveFile: QsysPath): Promise<SaveOptions | undefined> {
+    const page = await new CustomUI()
+      .addInput(`saveFile`, l10n.t(`Save file`), l10n.t(`The save file, as <code>LIBRARY/NAME</code>. It is created if it doesn't exist and cleared otherwise.`), { default: `${defaultSaveFile.library}/${defaultSaveFile.name}`, regexTest: QUALIFIED_NAME })
+      .addInput(`targetRelease`, l10n.t(`Target release`), l10n.t(`The release of the system the objects will be restored on, like <code>V7R4M0</code>, or <code>*CURRENT</code>.`), { default: `*CURRENT` })
+      .addButtons({ id: `save`, label: l10n.t(`Save`), requiresValidation: true }, { id: `cancel`, label: l10n.t(`Cancel`) })
+      .loadPage<{ buttons: string, saveFile: string, targetRelease: string }>(title);
+
+    if (page?.data) {
+      page.panel.dispose();
+      if (page.data.buttons === `save`) {
+        return {
+          saveFile: toQsysPath(page.data.saveFile),
+          targetRelease: page.data.targetRelease.trim() || `*CURRENT`
+        };
+      }
+    }
+  }
+
+  static async askRestoreOptions(saveFile: QsysPath, objects: IBMiObject[]): Promise<RestoreOptions | undefined> {
+    const savedLibrary = objects.find(object => object.type !== `*LIB`)?.library || objects[0]?.library || ``;
+    const form = new CustomUI();
+    if (objects.length) {
+      form.addParagraph(`<p>${l10n.t(`{0} object(s) saved from library {1}:`, objects.length, savedLibrary)}</p><p><code>${objects.map(object => `${object.name}.${object.type.substring(1)}`).join(`, `)}</code></p>`);
+    }
+
+    const page = await form
+      .addInput(`savedLibrary`, l10n.t(`Saved library`), l10n.t(`The library the objects were saved from.`), { default: savedLibrary, minlength: 1, maxlength: 10 })
+      .addInput(`objects`, l10n.t(`Objects`), l10n.t(`A space separated list of the objects to restore, or <code>*ALL</code>.`), { default: `*ALL`, minlength: 1 })
+      .addInput(`restoreLibrary`, l10n.t(`Restore to library`), l10n.t(`The library the objects are restored into (<code>RSTLIB</code>). It is created if it doesn't exist.`), { default: savedLibrary, minlength: 1, maxlength: 10 })
+      .addCheckbox(`allowDifferences`, l10n.t(`Allow object differences`), l10n.t(`Restore the objects even if they differ from the existing ones (<code>ALWOBJDIF(*ALL)</code>).`))
+      .addButtons({ id: `restore`, label: l10n.t(`Restore`), requiresValidation: true }, { id: `cancel`, label: l10n.t(`Cancel`) })
+      .loadPage<{ buttons: string, savedLibrary: string, objects: string, restoreLibrary: string, allowDifferences: boolean }>(l10n.t(`Restore from {0}/{1}`, saveFile.library, saveFile.name));
+
+    if (page?.data) {
+      page.panel.dispose();
+      if (page.data.buttons === `restore`) {
+        const objectNames = page.data.objects.trim().split(/\s+/).filter(name => name && name.toUpperCase() !== `*ALL`);
+        return {
+          savedLibrary: page.data.savedLibrary.trim(),
+          objects: objectNames.length ? objectNames : undefined,
+          restoreLibrary: page.data.restoreLibrary.trim() || page.data.savedLibrary.trim(),
+          allowDifferences: page.data.allowDifferences
+        };
+      }
+    }
+  }
+}
+
+function toQsysPath(qualifiedName: string): QsysPath {
+  const [library, name] = qualifiedName.trim().split(`/`);
+  const connection = instance.getConnection();
+  return {
+    library: connection ? connection.upperCaseName(library) : library.toUpperCase(),
+    name: connection ? connection.upperCaseName(name) : name.toUpperCase()
+  };
+}
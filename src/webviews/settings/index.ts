@@ -365,6 +365,10 @@ export class SettingsUI {
               .addParagraph(vscode.l10n.t(`Only provide either the password or a private key - not both.`))
               .addPassword(`password`, `${vscode.l10n.t(`Password`)}${storedPassword ? ` (${vscode.l10n.t(`stored`)})` : ``}`, vscode.l10n.t("Only provide a password if you want to update an existing one or set a new one."))
               .addFile(`privateKeyPath`, `${vscode.l10n.t(`Private Key`)}${privateKeyPath ? ` (${vscode.l10n.t(`Private Key`)}: ${privateKeyPath})` : ``}`, privateKeyWarning + vscode.l10n.t("Only provide a private key if you want to update from the existing one or set one.") + '<br />' + vscode.l10n.t("OpenSSH, RFC4716 and PPK formats are supported."))
+              .addHorizontalRule()
+              .addInput(`jumpHost`, vscode.l10n.t(`Jump host`), vscode.l10n.t(`Host the system is reached through, as <code>[user@]host[:port]</code> like the SSH <code>ProxyJump</code> option. Leave empty to connect directly.`), { default: stored.jumpHost || `` })
+              .addFile(`jumpHostPrivateKeyPath`, `${vscode.l10n.t(`Jump host private key`)}${stored.jumpHostPrivateKeyPath ? ` (${Tools.resolvePath(stored.jumpHostPrivateKeyPath)})` : ``}`, vscode.l10n.t(`The password or private key of the connection is used on the jump host when no key is provided.`))
+              .addCheckbox(`forwardDebugPorts`, vscode.l10n.t(`Forward Debug Service ports`), vscode.l10n.t(`Reach the Debug Service through the SSH connection instead of opening its ports in the firewall.`), stored.forwardDebugPorts)
               .addButtons(
                 { id: `submitButton`, label: vscode.l10n.t(`Save`), requiresValidation: true },
                 { id: `removeAuth`, label: vscode.l10n.t(`Remove auth methods`) }
@@ -410,6 +414,10 @@ export class SettingsUI {
 
                 //Fix values before assigning the data
                 data.port = Number(data.port);
+                data.jumpHost = data.jumpHost?.trim() || undefined;
+                data.jumpHostPrivateKeyPath = !data.jumpHost ? undefined :
+                  data.jumpHostPrivateKeyPath?.trim() ? Tools.normalizePath(data.jumpHostPrivateKeyPath) : stored.jumpHostPrivateKeyPath;
+                data.forwardDebugPorts = data.forwardDebugPorts || undefined;
                 delete data.password;
                 delete data.buttons;
 